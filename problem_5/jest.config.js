@@ -1,14 +1,36 @@
-module.exports = {
+const shared = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  roots: ['<rootDir>/src', '<rootDir>/tests'],
-  testMatch: [
-    '**/__tests__/**/*.ts',
-    '**/?(*.)+(spec|test).ts'
-  ],
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
+  clearMocks: true,
+  resetMocks: true,
+  restoreMocks: true
+};
+
+module.exports = {
+  projects: [
+    {
+      ...shared,
+      displayName: 'unit',
+      roots: ['<rootDir>/src', '<rootDir>/tests'],
+      testMatch: [
+        '**/__tests__/**/*.ts',
+        '**/?(*.)+(spec|test).ts'
+      ],
+      testPathIgnorePatterns: ['/node_modules/', '<rootDir>/tests/integration/'],
+      setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+    },
+    {
+      // Runs the app against a real, migrated in-memory database
+      ...shared,
+      displayName: 'integration',
+      roots: ['<rootDir>/tests/integration'],
+      testMatch: ['**/?(*.)+(spec|test).ts'],
+      setupFiles: ['<rootDir>/tests/integration/setup.ts'],
+    },
+  ],
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
@@ -18,9 +40,5 @@ module.exports = {
   ],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
-  setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
-  testTimeout: 10000,
-  clearMocks: true,
-  resetMocks: true,
-  restoreMocks: true
+  testTimeout: 10000
 };
@@ -1,21 +1,42 @@
 import express from "express";
+import http from "http";
 import cors from "cors";
 import dotenv from "dotenv";
 import { database } from "./database/connection";
 import { databaseSchema } from "./database/schema";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
+import { rateLimit } from "./middleware/rateLimit";
+import { requestId, REQUEST_ID_HEADER } from "./middleware/requestId";
 import userRoutes from "./routes/userRoutes";
 import productRoutes from "./routes/productRoutes";
+import scoreRoutes from "./routes/scoreRoutes";
+import authRoutes from "./routes/authRoutes";
+import {
+  ScoreboardSocketServer,
+  SCOREBOARD_SOCKET_PATH,
+} from "./websocket/scoreboardSocket";
+import { createTrashPurger, TrashPurger } from "./services/trashPurger";
+import { PATCH_MEDIA_TYPES } from "./services/patchService";
 
 dotenv.config();
 
 class App {
   public app: express.Application;
+  public server: http.Server;
   private port: number;
+  private scoreboardSocket: ScoreboardSocketServer;
+  private trashPurger: TrashPurger;
 
   constructor() {
     this.app = express();
+    this.server = http.createServer(this.app);
     this.port = parseInt(process.env.PORT || "3000");
+    this.scoreboardSocket = new ScoreboardSocketServer({
+      heartbeatIntervalMs: parseInt(
+        process.env.WS_HEARTBEAT_INTERVAL || "30000"
+      ),
+    });
+    this.trashPurger = createTrashPurger();
 
     this.initializeMiddleware();
     this.initializeRoutes();
@@ -23,19 +44,44 @@ class App {
   }
 
   private initializeMiddleware(): void {
+    this.app.use(requestId);
+
     this.app.use(
       cors({
         origin: process.env.CORS_ORIGIN || "*",
-        methods: ["GET", "POST", "PUT", "DELETE"],
-        allowedHeaders: ["Content-Type", "Authorization"],
+        methods: ["GET", "POST", "PUT", "PATCH", "DELETE"],
+        allowedHeaders: [
+          "Content-Type",
+          "Authorization",
+          "If-Match",
+          "If-None-Match",
+          REQUEST_ID_HEADER,
+        ],
+        exposedHeaders: [
+          REQUEST_ID_HEADER,
+          "ETag",
+          "RateLimit-Limit",
+          "RateLimit-Remaining",
+          "RateLimit-Reset",
+          "Retry-After",
+        ],
       })
     );
 
-    this.app.use(express.json({ limit: "10mb" }));
+    this.app.use(
+      express.json({
+        limit: "10mb",
+        type: ["application/json", ...PATCH_MEDIA_TYPES],
+      })
+    );
     this.app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
     this.app.use((req, res, next) => {
-      console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
+      console.log(
+        `${new Date().toISOString()} - ${req.requestId} - ${req.method} ${
+          req.path
+        }`
+      );
       next();
     });
 
@@ -50,8 +96,20 @@ class App {
   }
 
   private initializeRoutes(): void {
+    this.app.use(
+      "/api",
+      rateLimit({
+        name: "api",
+        limit: parseInt(process.env.RATE_LIMIT_MAX || "100"),
+        windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || "60000"),
+        keyBy: "ip",
+      })
+    );
+
+    this.app.use("/api/auth", authRoutes);
     this.app.use("/api/users", userRoutes);
     this.app.use("/api/products", productRoutes);
+    this.app.use("/api/v1", scoreRoutes);
 
     this.app.get("/", (req, res) => {
       res.json({
@@ -59,8 +117,12 @@ class App {
         message: "Express CRUD API with TypeScript and SQLite",
         version: "1.0.0",
         endpoints: {
+          auth: "/api/auth",
           users: "/api/users",
           products: "/api/products",
+          scores: "/api/v1/scores/update",
+          scoreboard: "/api/v1/scoreboard/top10",
+          scoreboardLive: SCOREBOARD_SOCKET_PATH,
           health: "/health",
         },
       });
@@ -87,14 +149,22 @@ class App {
   async start(): Promise<void> {
     try {
       await this.initializeDatabase();
+      await this.scoreboardSocket.attach(this.server);
+      this.trashPurger.start();
 
-      this.app.listen(this.port, () => {
+      this.server.listen(this.port, () => {
         console.log(`🚀 Server running on port ${this.port}`);
         console.log(`📊 Health check: http://localhost:${this.port}/health`);
         console.log(`👥 Users API: http://localhost:${this.port}/api/users`);
         console.log(
           `📦 Products API: http://localhost:${this.port}/api/products`
         );
+        console.log(
+          `🏆 Scoreboard API: http://localhost:${this.port}/api/v1/scoreboard/top10`
+        );
+        console.log(
+          `📡 Scoreboard WebSocket: ws://localhost:${this.port}${SCOREBOARD_SOCKET_PATH}`
+        );
       });
     } catch (error) {
       console.error("Failed to start server:", error);
@@ -104,6 +174,9 @@ class App {
 
   async shutdown(): Promise<void> {
     try {
+      this.trashPurger.stop();
+      await this.scoreboardSocket.close();
+      await new Promise<void>((resolve) => this.server.close(() => resolve()));
       await database.close();
       console.log("Server shutdown completed");
     } catch (error) {
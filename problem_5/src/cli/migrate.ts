@@ -37,7 +37,14 @@ async function main() {
       case "reset":
         console.log("Resetting database...");
         await database.run("DROP TABLE IF EXISTS migrations");
+        await database.run("DROP TABLE IF EXISTS rate_limit_suspensions");
+        await database.run("DROP TABLE IF EXISTS rate_limit_hits");
+        await database.run("DROP TABLE IF EXISTS refresh_tokens");
+        await database.run("DROP TABLE IF EXISTS user_credentials");
+        await database.run("DROP TABLE IF EXISTS action_tokens");
+        await database.run("DROP TABLE IF EXISTS score_updates");
         await database.run("DROP TABLE IF EXISTS users");
+        await database.run("DROP TABLE IF EXISTS products_fts");
         await database.run("DROP TABLE IF EXISTS products");
         console.log("Database reset completed");
         break;
@@ -0,0 +1,48 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorHandler";
+import { authService } from "../services/authService";
+import { ApiResponse, AuthSession, AuthTokens, LoginRequest } from "../types";
+
+export class AuthController {
+  static login = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { email, password }: LoginRequest = req.body;
+
+      const session = await authService.login(email, password);
+
+      const response: ApiResponse<AuthSession> = {
+        success: true,
+        data: session,
+        message: "Logged in successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  static refresh = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const tokens = await authService.refresh(req.body.refreshToken);
+
+      const response: ApiResponse<AuthTokens> = {
+        success: true,
+        data: tokens,
+      };
+
+      res.json(response);
+    }
+  );
+
+  static logout = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      await authService.logout(req.body.refreshToken);
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Logged out successfully",
+      };
+
+      res.json(response);
+    }
+  );
+}
@@ -1,15 +1,46 @@
 import { Request, Response } from "express";
 import { productRepository } from "../repositories";
 import { ApiError, asyncHandler } from "../middleware/errorHandler";
+import { parseFilters } from "../repositories/BaseRepository";
+import { parseFields } from "../validation/queryParams";
+import { FORBIDDEN } from "../middleware/auth";
+import { preconditionFailed, setVersionETag } from "../middleware/conditional";
+import { validateValue } from "../middleware/validation";
+import {
+  createProductSchema,
+  patchedProductSchema,
+  updateProductSchema,
+} from "../validation/schemas";
+import { runBulk } from "../services/bulkService";
+import {
+  applyPatch,
+  patchChanges,
+  PATCH_MEDIA_TYPES,
+  toPatchDocument,
+} from "../services/patchService";
 import {
   Product,
   CreateProductRequest,
   UpdateProductRequest,
   ApiResponse,
   PaginatedResponse,
+  CursorPaginatedResponse,
   ProductFilters,
+  ProductSearchResult,
+  ProductStats,
+  BulkOperation,
+  BulkResult,
 } from "../types";
 
+const PATCHABLE_FIELDS = [
+  "name",
+  "description",
+  "price",
+  "category",
+  "stock_quantity",
+  "is_active",
+];
+
 export class ProductController {
   static createProduct = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
@@ -37,28 +68,136 @@ export class ProductController {
 
   static getProducts = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
+      const query = req.validatedQuery ?? {};
+      const { page = 1, limit = 10 } = query;
       const filters: ProductFilters = {
-        name: req.query.name as string,
-        category: req.query.category as string,
-        price_min: req.query.price_min
-          ? parseFloat(req.query.price_min as string)
-          : undefined,
-        price_max: req.query.price_max
-          ? parseFloat(req.query.price_max as string)
-          : undefined,
-        is_active: req.query.is_active
-          ? req.query.is_active === "true"
-          : undefined,
-      };
-
-      const result = await productRepository.findProductsWithFilters(
-        filters,
-        page,
-        limit
+        name: query.name,
+        category: query.category,
+        price_min: query.price_min,
+        price_max: query.price_max,
+        is_active: query.is_active,
+        conditions: parseFilters(query),
+      };
+
+      const fields = query.fields ? parseFields(query.fields) : undefined;
+
+      // Any cursor parameter, even an empty one for the first page, switches
+      // to keyset pagination
+      if (query.cursor !== undefined) {
+        const page = await productRepository.findProductsWithCursor<
+          Partial<Product>
+        >(
+          filters,
+          {
+            cursor: query.cursor || undefined,
+            limit,
+            includeTotal: query.include_total === true,
+          },
+          fields
+        );
+
+        const response: CursorPaginatedResponse<Partial<Product>> = {
+          success: true,
+          data: page.data,
+          pagination: {
+            limit: page.limit,
+            nextCursor: page.nextCursor,
+            prevCursor: page.prevCursor,
+            ...(page.total !== undefined && { total: page.total }),
+          },
+        };
+
+        res.json(response);
+        return;
+      }
+
+      const result = await productRepository.findProductsWithFilters<
+        Partial<Product>
+      >(filters, page, limit, query.sort, fields);
+
+      const response: PaginatedResponse<Partial<Product>> = {
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      };
+
+      res.json(response);
+    }
+  );
+
+  static searchProducts = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { q, page = 1, limit = 10 } = req.validatedQuery ?? {};
+
+      const result = await productRepository.searchProducts(q, page, limit);
+
+      const response: PaginatedResponse<ProductSearchResult> = {
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      };
+
+      res.json(response);
+    }
+  );
+
+  static getProductStats = asyncHandler(
+    async (_req: Request, res: Response): Promise<void> => {
+      const stats = await productRepository.getProductStats();
+
+      const response: ApiResponse<ProductStats> = {
+        success: true,
+        data: stats,
+      };
+
+      res.json(response);
+    }
+  );
+
+  static getCategories = asyncHandler(
+    async (_req: Request, res: Response): Promise<void> => {
+      const categories = await productRepository.getCategories();
+
+      const response: ApiResponse<string[]> = {
+        success: true,
+        data: categories,
+      };
+
+      res.json(response);
+    }
+  );
+
+  static getLowStockProducts = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const products = await productRepository.findLowStockProducts(
+        req.validatedQuery?.threshold
       );
 
+      const response: ApiResponse<Product[]> = {
+        success: true,
+        data: products,
+      };
+
+      res.json(response);
+    }
+  );
+
+  static getTrashedProducts = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { page = 1, limit = 10 } = req.validatedQuery ?? {};
+
+      const result = await productRepository.findTrashed(page, limit);
+
       const response: PaginatedResponse<Product> = {
         success: true,
         data: result.data,
@@ -74,25 +213,55 @@ export class ProductController {
     }
   );
 
-  static getProductById = asyncHandler(
+  static restoreProduct = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
       const { id } = req.params;
 
       if (!id || isNaN(Number(id))) {
-        throw new ApiError("Invalid product ID", 400);
+        throw new ApiError("Invalid product ID", 422, "VALIDATION_ERROR");
       }
 
-      const product = await productRepository.findById(Number(id));
+      const restored = await productRepository.restore(Number(id));
+      const product = restored
+        ? await productRepository.findById(Number(id))
+        : null;
 
       if (!product) {
-        throw new ApiError("Product not found", 404);
+        throw new ApiError("Product not found in trash", 404, "NOT_FOUND");
       }
 
       const response: ApiResponse<Product> = {
         success: true,
         data: product,
+        message: "Product restored successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  static getProductById = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      if (!id || isNaN(Number(id))) {
+        throw new ApiError("Invalid product ID", 422, "VALIDATION_ERROR");
+      }
+
+      const query = req.validatedQuery ?? {};
+      const fields = query.fields ? parseFields(query.fields) : undefined;
+      const product = await productRepository.findById(Number(id), fields);
+
+      if (!product) {
+        throw new ApiError("Product not found", 404, "NOT_FOUND");
+      }
+
+      const response: ApiResponse<Partial<Product>> = {
+        success: true,
+        data: product,
       };
 
+      setVersionETag(res, product);
       res.json(response);
     }
   );
@@ -103,20 +272,24 @@ export class ProductController {
       const updateData: UpdateProductRequest = req.body;
 
       if (!id || isNaN(Number(id))) {
-        throw new ApiError("Invalid product ID", 400);
+        throw new ApiError("Invalid product ID", 422, "VALIDATION_ERROR");
       }
 
-      const updatedProduct = await productRepository.updateProduct(Number(id), {
-        name: updateData.name,
-        description: updateData.description,
-        price: updateData.price,
-        category: updateData.category,
-        stock_quantity: updateData.stock_quantity,
-        is_active: updateData.is_active,
-      });
+      const updatedProduct = await productRepository.updateProduct(
+        Number(id),
+        {
+          name: updateData.name,
+          description: updateData.description,
+          price: updateData.price,
+          category: updateData.category,
+          stock_quantity: updateData.stock_quantity,
+          is_active: updateData.is_active,
+        },
+        req.ifMatch
+      );
 
       if (!updatedProduct) {
-        throw new ApiError("Product not found", 404);
+        throw new ApiError("Product not found", 404, "NOT_FOUND");
       }
 
       const response: ApiResponse<Product> = {
@@ -125,6 +298,138 @@ export class ProductController {
         message: "Product updated successfully",
       };
 
+      setVersionETag(res, updatedProduct);
+      res.json(response);
+    }
+  );
+
+  static updateStock = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      if (!id || isNaN(Number(id))) {
+        throw new ApiError("Invalid product ID", 422, "VALIDATION_ERROR");
+      }
+
+      const updatedProduct = await productRepository.updateStock(
+        Number(id),
+        req.body.stock_quantity
+      );
+
+      if (!updatedProduct) {
+        throw new ApiError("Product not found", 404, "NOT_FOUND");
+      }
+
+      const response: ApiResponse<Product> = {
+        success: true,
+        data: updatedProduct,
+        message: "Product stock updated successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  static activateProduct = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      await ProductController.setActive(req, res, true);
+    }
+  );
+
+  static deactivateProduct = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      await ProductController.setActive(req, res, false);
+    }
+  );
+
+  // Applies a JSON Merge Patch or JSON Patch to the stored product. The
+  // result is validated as a whole and only written if the product has not
+  // changed since it was read.
+  static patchProduct = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      if (!id || isNaN(Number(id))) {
+        throw new ApiError("Invalid product ID", 422, "VALIDATION_ERROR");
+      }
+
+      const current = await productRepository.findById(Number(id));
+
+      if (!current) {
+        throw new ApiError("Product not found", 404, "NOT_FOUND");
+      }
+
+      if (req.ifMatch && !req.ifMatch.includes(current.version)) {
+        throw preconditionFailed();
+      }
+
+      const document = {
+        ...toPatchDocument(current, PATCHABLE_FIELDS),
+        is_active: Boolean(current.is_active),
+      };
+      const patched = validateValue(
+        patchedProductSchema,
+        applyPatch(req.is(PATCH_MEDIA_TYPES) as string, document, req.body)
+      );
+      const changes = patchChanges(document, patched, PATCHABLE_FIELDS);
+
+      const product = Object.keys(changes).length
+        ? await productRepository.updateProduct(
+            current.id,
+            changes as UpdateProductRequest,
+            [current.version]
+          )
+        : current;
+
+      if (!product) {
+        throw new ApiError("Product not found", 404, "NOT_FOUND");
+      }
+
+      const response: ApiResponse<Product> = {
+        success: true,
+        data: product,
+        message: "Product updated successfully",
+      };
+
+      setVersionETag(res, product);
+      res.json(response);
+    }
+  );
+
+  static bulkProducts = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { mode, operations } = req.body;
+
+      const result = await runBulk(operations, mode, {
+        createSchema: createProductSchema,
+        updateSchema: updateProductSchema,
+        buildQueries: ({ op, id, data }: BulkOperation) => {
+          switch (op) {
+            case "create":
+              return [
+                productRepository.buildCreateQuery(
+                  data as CreateProductRequest
+                ),
+              ];
+            case "update":
+              return [
+                productRepository.buildUpdateQuery(
+                  id as number,
+                  data as UpdateProductRequest,
+                  Object.keys(data as object)
+                ),
+              ];
+            case "delete":
+              return [productRepository.buildDeleteQuery(id as number)];
+          }
+        },
+      });
+
+      const response: ApiResponse<BulkResult> = {
+        success: true,
+        data: result,
+      };
+
       res.json(response);
     }
   );
@@ -134,21 +439,66 @@ export class ProductController {
       const { id } = req.params;
 
       if (!id || isNaN(Number(id))) {
-        throw new ApiError("Invalid product ID", 400);
+        throw new ApiError("Invalid product ID", 422, "VALIDATION_ERROR");
       }
 
-      const deleted = await productRepository.delete(Number(id));
+      // Deleting moves the product to the trash; only admins can remove it
+      const hard = req.validatedQuery?.hard === true;
+      if (hard && req.user?.role !== "admin") {
+        throw new ApiError(
+          "Only admins can permanently delete products",
+          403,
+          FORBIDDEN
+        );
+      }
+
+      const deleted = hard
+        ? await productRepository.forceDelete(Number(id))
+        : await productRepository.delete(Number(id));
 
       if (!deleted) {
-        throw new ApiError("Product not found", 404);
+        throw new ApiError("Product not found", 404, "NOT_FOUND");
       }
 
       const response: ApiResponse = {
         success: true,
-        message: "Product deleted successfully",
+        message: hard
+          ? "Product permanently deleted"
+          : "Product deleted successfully",
       };
 
       res.json(response);
     }
   );
+
+  private static async setActive(
+    req: Request,
+    res: Response,
+    active: boolean
+  ): Promise<void> {
+    const { id } = req.params;
+
+    if (!id || isNaN(Number(id))) {
+      throw new ApiError("Invalid product ID", 422, "VALIDATION_ERROR");
+    }
+
+    const changed = active
+      ? await productRepository.activate(Number(id))
+      : await productRepository.deactivate(Number(id));
+    const product = changed
+      ? await productRepository.findById(Number(id))
+      : null;
+
+    if (!product) {
+      throw new ApiError("Product not found", 404, "NOT_FOUND");
+    }
+
+    const response: ApiResponse<Product> = {
+      success: true,
+      data: product,
+      message: `Product ${active ? "activated" : "deactivated"} successfully`,
+    };
+
+    res.json(response);
+  }
 }
@@ -0,0 +1,100 @@
+import { Request, Response } from "express";
+import { scoreRepository, userRepository } from "../repositories";
+import { ApiError, asyncHandler } from "../middleware/errorHandler";
+import { scoreEvents } from "../events/scoreEvents";
+import {
+  actionTokenService,
+  hashActionToken,
+} from "../services/actionTokenService";
+import {
+  ApiResponse,
+  Leaderboard,
+  ScoreUpdateRequest,
+  ScoreUpdateResult,
+} from "../types";
+
+const LEADERBOARD_SIZE = 10;
+
+export class ScoreController {
+  static updateScore = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const scoreData: ScoreUpdateRequest = req.body;
+      const userId = req.user!.id;
+
+      const userExists = await userRepository.exists(userId);
+      if (!userExists) {
+        throw new ApiError("User not found", 404, "NOT_FOUND");
+      }
+
+      const previousStanding = await scoreRepository.getUserStanding(userId);
+
+      const claims = await actionTokenService.consume(
+        scoreData.actionToken,
+        { userId, actionType: scoreData.actionType },
+        (verified) => [
+          scoreRepository.buildRecordQuery({
+            user_id: verified.userId,
+            action_token: hashActionToken(scoreData.actionToken),
+            action_type: verified.actionType,
+            score_increase: verified.scoreValue,
+            client_ip: req.ip,
+            session_id: scoreData.metadata?.sessionId,
+          }),
+        ]
+      );
+
+      const standing = await scoreRepository.getUserStanding(userId);
+      if (!standing) {
+        throw new ApiError(
+          "Failed to compute user standing",
+          500,
+          "INTERNAL_ERROR"
+        );
+      }
+
+      scoreEvents.emitScoreUpdated({
+        userId,
+        newScore: standing.score,
+        oldRank: previousStanding?.rank ?? null,
+        newRank: standing.rank,
+        scoreIncrease: claims.scoreValue,
+      });
+
+      const response: ApiResponse<ScoreUpdateResult> = {
+        success: true,
+        data: {
+          newScore: standing.score,
+          rank: standing.rank,
+          scoreIncrease: claims.scoreValue,
+        },
+        message: "Score updated successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  static getTopScores = asyncHandler(
+    async (_req: Request, res: Response): Promise<void> => {
+      const leaderboard = await scoreRepository.getTopScores(LEADERBOARD_SIZE);
+
+      const lastUpdated = leaderboard.reduce<string | null>(
+        (latest, entry) =>
+          latest === null || entry.lastUpdated > latest
+            ? entry.lastUpdated
+            : latest,
+        null
+      );
+
+      const response: ApiResponse<Leaderboard> = {
+        success: true,
+        data: {
+          leaderboard,
+          lastUpdated,
+        },
+      };
+
+      res.json(response);
+    }
+  );
+}
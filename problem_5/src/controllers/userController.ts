@@ -1,26 +1,72 @@
 import { Request, Response } from "express";
 import { userRepository } from "../repositories";
 import { ApiError, asyncHandler } from "../middleware/errorHandler";
+import { parseFilters } from "../repositories/BaseRepository";
+import { parseFields } from "../validation/queryParams";
+import { FORBIDDEN } from "../middleware/auth";
+import { preconditionFailed, setVersionETag } from "../middleware/conditional";
+import { validateValue } from "../middleware/validation";
+import {
+  createUserSchema,
+  patchedUserSchema,
+  updateUserSchema,
+} from "../validation/schemas";
+import { runBulk } from "../services/bulkService";
+import { hashPassword } from "../services/passwordService";
+import {
+  applyPatch,
+  patchChanges,
+  PATCH_MEDIA_TYPES,
+  toPatchDocument,
+} from "../services/patchService";
 import {
   User,
   CreateUserRequest,
   UpdateUserRequest,
   ApiResponse,
   PaginatedResponse,
+  CursorPaginatedResponse,
   UserFilters,
+  UserStats,
+  BulkOperation,
+  BulkResult,
 } from "../types";
+import { TransactionQuery } from "../database/connection";
+
+// Passwords are changed with PUT; they are not part of the representation
+const PATCHABLE_FIELDS = ["name", "email", "age", "status", "role"];
+
+// Status is how accounts are deactivated, so like roles only admins may
+// change it; otherwise a soft-deleted user could reactivate themselves
+const assertAdminOnlyChanges = (
+  req: Request,
+  changes: Partial<UpdateUserRequest>
+): void => {
+  if (req.user?.role === "admin") {
+    return;
+  }
+  if (changes.role !== undefined) {
+    throw new ApiError("Only admins can change roles", 403, FORBIDDEN);
+  }
+  if (changes.status !== undefined) {
+    throw new ApiError("Only admins can change status", 403, FORBIDDEN);
+  }
+};
 
 export class UserController {
   static createUser = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
       const userData: CreateUserRequest = req.body;
 
-      const createdUser = await userRepository.createUser({
-        name: userData.name,
-        email: userData.email,
-        age: userData.age,
-        status: userData.status || "active",
-      });
+      const createdUser = await userRepository.createUser(
+        {
+          name: userData.name,
+          email: userData.email,
+          age: userData.age,
+          status: userData.status || "active",
+        },
+        userData.password ? await hashPassword(userData.password) : undefined
+      );
 
       const response: ApiResponse<User> = {
         success: true,
@@ -34,27 +80,56 @@ export class UserController {
 
   static getUsers = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
+      const query = req.validatedQuery ?? {};
+      const { page = 1, limit = 10 } = query;
       const filters: UserFilters = {
-        name: req.query.name as string,
-        email: req.query.email as string,
-        status: req.query.status as "active" | "inactive",
-        age_min: req.query.age_min
-          ? parseInt(req.query.age_min as string)
-          : undefined,
-        age_max: req.query.age_max
-          ? parseInt(req.query.age_max as string)
-          : undefined,
+        name: query.name,
+        email: query.email,
+        status: query.status,
+        age_min: query.age_min,
+        age_max: query.age_max,
+        conditions: parseFilters(query),
       };
 
-      const result = await userRepository.findUsersWithFilters(
+      const fields = query.fields ? parseFields(query.fields) : undefined;
+
+      // Any cursor parameter, even an empty one for the first page, switches
+      // to keyset pagination
+      if (query.cursor !== undefined) {
+        const page = await userRepository.findUsersWithCursor<Partial<User>>(
+          filters,
+          {
+            cursor: query.cursor || undefined,
+            limit,
+            includeTotal: query.include_total === true,
+          },
+          fields
+        );
+
+        const response: CursorPaginatedResponse<Partial<User>> = {
+          success: true,
+          data: page.data,
+          pagination: {
+            limit: page.limit,
+            nextCursor: page.nextCursor,
+            prevCursor: page.prevCursor,
+            ...(page.total !== undefined && { total: page.total }),
+          },
+        };
+
+        res.json(response);
+        return;
+      }
+
+      const result = await userRepository.findUsersWithFilters<Partial<User>>(
         filters,
         page,
-        limit
+        limit,
+        query.sort,
+        fields
       );
 
-      const response: PaginatedResponse<User> = {
+      const response: PaginatedResponse<Partial<User>> = {
         success: true,
         data: result.data,
         pagination: {
@@ -74,20 +149,36 @@ export class UserController {
       const { id } = req.params;
 
       if (!id || isNaN(Number(id))) {
-        throw new ApiError("Invalid user ID", 400);
+        throw new ApiError("Invalid user ID", 422, "VALIDATION_ERROR");
       }
 
-      const user = await userRepository.findById(Number(id));
+      const query = req.validatedQuery ?? {};
+      const fields = query.fields ? parseFields(query.fields) : undefined;
+      const user = await userRepository.findById(Number(id), fields);
 
       if (!user) {
-        throw new ApiError("User not found", 404);
+        throw new ApiError("User not found", 404, "NOT_FOUND");
       }
 
-      const response: ApiResponse<User> = {
+      const response: ApiResponse<Partial<User>> = {
         success: true,
         data: user,
       };
 
+      setVersionETag(res, user);
+      res.json(response);
+    }
+  );
+
+  static getUserStats = asyncHandler(
+    async (_req: Request, res: Response): Promise<void> => {
+      const stats = await userRepository.getUserStats();
+
+      const response: ApiResponse<UserStats> = {
+        success: true,
+        data: stats,
+      };
+
       res.json(response);
     }
   );
@@ -98,18 +189,30 @@ export class UserController {
       const updateData: UpdateUserRequest = req.body;
 
       if (!id || isNaN(Number(id))) {
-        throw new ApiError("Invalid user ID", 400);
+        throw new ApiError("Invalid user ID", 422, "VALIDATION_ERROR");
       }
 
-      const updatedUser = await userRepository.updateUser(Number(id), {
+      assertAdminOnlyChanges(req, updateData);
+
+      const profile = {
         name: updateData.name,
         email: updateData.email,
         age: updateData.age,
         status: updateData.status,
-      });
+        role: updateData.role,
+      };
+
+      const updatedUser = await userRepository.updateUser(
+        Number(id),
+        profile,
+        req.ifMatch,
+        updateData.password
+          ? await hashPassword(updateData.password)
+          : undefined
+      );
 
       if (!updatedUser) {
-        throw new ApiError("User not found", 404);
+        throw new ApiError("User not found", 404, "NOT_FOUND");
       }
 
       const response: ApiResponse<User> = {
@@ -118,6 +221,118 @@ export class UserController {
         message: "User updated successfully",
       };
 
+      setVersionETag(res, updatedUser);
+      res.json(response);
+    }
+  );
+
+  // Applies a JSON Merge Patch or JSON Patch to the stored user. The result
+  // is validated as a whole and only written if the user has not changed
+  // since it was read.
+  static patchUser = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      if (!id || isNaN(Number(id))) {
+        throw new ApiError("Invalid user ID", 422, "VALIDATION_ERROR");
+      }
+
+      const current = await userRepository.findById(Number(id));
+
+      if (!current) {
+        throw new ApiError("User not found", 404, "NOT_FOUND");
+      }
+
+      if (req.ifMatch && !req.ifMatch.includes(current.version)) {
+        throw preconditionFailed();
+      }
+
+      const document = toPatchDocument(current, PATCHABLE_FIELDS);
+      const patched = validateValue(
+        patchedUserSchema,
+        applyPatch(req.is(PATCH_MEDIA_TYPES) as string, document, req.body)
+      );
+      const changes = patchChanges(document, patched, PATCHABLE_FIELDS);
+
+      assertAdminOnlyChanges(req, changes as Partial<UpdateUserRequest>);
+
+      const user = Object.keys(changes).length
+        ? await userRepository.updateUser(
+            current.id,
+            changes as UpdateUserRequest,
+            [current.version]
+          )
+        : current;
+
+      if (!user) {
+        throw new ApiError("User not found", 404, "NOT_FOUND");
+      }
+
+      const response: ApiResponse<User> = {
+        success: true,
+        data: user,
+        message: "User updated successfully",
+      };
+
+      setVersionETag(res, user);
+      res.json(response);
+    }
+  );
+
+  // Admin only, so role and status changes need no extra check
+  static bulkUsers = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { mode, operations } = req.body;
+
+      const result = await runBulk(operations, mode, {
+        createSchema: createUserSchema,
+        updateSchema: updateUserSchema,
+        buildQueries: async ({
+          op,
+          id,
+          data,
+        }: BulkOperation): Promise<TransactionQuery[]> => {
+          if (op === "delete") {
+            return [userRepository.buildSoftDeleteQuery(id as number)];
+          }
+
+          const { password, ...profile } = data as CreateUserRequest;
+          const passwordHash = password
+            ? await hashPassword(password)
+            : undefined;
+
+          if (op === "create") {
+            return userRepository.buildCreateQueries(
+              profile as CreateUserRequest,
+              passwordHash
+            );
+          }
+
+          const fields = Object.keys(profile);
+          return [
+            // Also run for password-only updates, so a missing user fails
+            userRepository.buildUpdateQuery(
+              id as number,
+              profile as UpdateUserRequest,
+              fields
+            ),
+            ...(passwordHash
+              ? [
+                  userRepository.buildPasswordHashQuery(
+                    id as number,
+                    passwordHash
+                  ),
+                ]
+              : []),
+          ];
+        },
+      });
+
+      const response: ApiResponse<BulkResult> = {
+        success: true,
+        data: result,
+      };
+
       res.json(response);
     }
   );
@@ -127,18 +342,59 @@ export class UserController {
       const { id } = req.params;
 
       if (!id || isNaN(Number(id))) {
-        throw new ApiError("Invalid user ID", 400);
+        throw new ApiError("Invalid user ID", 422, "VALIDATION_ERROR");
+      }
+
+      // Deleting deactivates the account; only admins can remove the row
+      const hard = req.validatedQuery?.hard === true;
+      if (hard && req.user?.role !== "admin") {
+        throw new ApiError(
+          "Only admins can permanently delete users",
+          403,
+          FORBIDDEN
+        );
       }
 
-      const deleted = await userRepository.delete(Number(id));
+      const deleted = hard
+        ? await userRepository.delete(Number(id))
+        : await userRepository.softDelete(Number(id));
 
       if (!deleted) {
-        throw new ApiError("User not found", 404);
+        throw new ApiError("User not found", 404, "NOT_FOUND");
       }
 
       const response: ApiResponse = {
         success: true,
-        message: "User deleted successfully",
+        message: hard
+          ? "User permanently deleted"
+          : "User deactivated successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  static reactivateUser = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      if (!id || isNaN(Number(id))) {
+        throw new ApiError("Invalid user ID", 422, "VALIDATION_ERROR");
+      }
+
+      const reactivated = await userRepository.reactivate(Number(id));
+      const user = reactivated
+        ? await userRepository.findById(Number(id))
+        : null;
+
+      if (!user) {
+        throw new ApiError("User not found", 404, "NOT_FOUND");
+      }
+
+      const response: ApiResponse<User> = {
+        success: true,
+        data: user,
+        message: "User reactivated successfully",
       };
 
       res.json(response);
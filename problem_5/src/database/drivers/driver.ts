@@ -0,0 +1,36 @@
+import { DatabaseResult } from "../../types";
+
+export type Dialect = "sqlite" | "postgres";
+
+// One connection to one database. Statements use `?` placeholders whatever
+// the dialect; drivers translate them where needed. Database builds
+// transactions on top with BEGIN, SAVEPOINT and friends.
+export interface DatabaseDriver {
+  readonly dialect: Dialect;
+  readonly connected: boolean;
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  query<T = any>(sql: string, params: any[]): Promise<T[]>;
+  get<T = any>(sql: string, params: any[]): Promise<T | undefined>;
+  // A write; `lastID` is the rowid (SQLite) or the `id` column of the first
+  // RETURNING row
+  run(sql: string, params: any[]): Promise<DatabaseResult>;
+  // Runs every statement in `sql`, without parameters
+  exec(sql: string): Promise<void>;
+}
+
+// Codes follow SQLite's names for every driver, e.g. a Postgres unique
+// violation is SQLITE_CONSTRAINT_UNIQUE, so callers branch on one set
+export class DatabaseError extends Error {
+  public code: string;
+  public errno?: number;
+
+  constructor(message: string, code: string, errno?: number) {
+    super(message);
+    this.name = "DatabaseError";
+    this.code = code;
+    this.errno = errno;
+  }
+}
+
+export const notConnected = (): Error => new Error("Database not connected");
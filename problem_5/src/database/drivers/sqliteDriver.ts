@@ -0,0 +1,197 @@
+import sqlite3 from "sqlite3";
+import fs from "fs";
+import path from "path";
+import { DatabaseResult } from "../../types";
+import { DatabaseDriver, DatabaseError, notConnected } from "./driver";
+
+const sqlite = sqlite3.verbose();
+
+const PRAGMA_VALUE = /^[\w-]+$/;
+
+export const MEMORY_DB_PATH = ":memory:";
+
+export interface SqliteConfig {
+  // A file path, or ":memory:" for a private in-memory database
+  path: string;
+  readOnly: boolean;
+  // How long a statement waits on another connection's lock before failing
+  // with SQLITE_BUSY
+  busyTimeoutMs: number;
+  // Set with `PRAGMA name = value` on connect
+  pragmas: Record<string, string | number>;
+}
+
+// node-sqlite3 only exposes primary result codes, so every constraint
+// violation arrives as SQLITE_CONSTRAINT. The extended code is recovered
+// from SQLite's error text here so callers can branch on `code` alone.
+const EXTENDED_CONSTRAINT_CODES: [string, string][] = [
+  ["UNIQUE constraint failed", "SQLITE_CONSTRAINT_UNIQUE"],
+  ["FOREIGN KEY constraint failed", "SQLITE_CONSTRAINT_FOREIGNKEY"],
+  ["NOT NULL constraint failed", "SQLITE_CONSTRAINT_NOTNULL"],
+  ["CHECK constraint failed", "SQLITE_CONSTRAINT_CHECK"],
+];
+
+const toDatabaseError = (
+  err: Error & { code?: string; errno?: number }
+): DatabaseError => {
+  let code = err.code || "SQLITE_ERROR";
+
+  if (code === "SQLITE_CONSTRAINT") {
+    const match = EXTENDED_CONSTRAINT_CODES.find(([text]) =>
+      err.message.includes(text)
+    );
+    code = match ? match[1] : code;
+  }
+
+  return new DatabaseError(err.message, code, err.errno);
+};
+
+export class SqliteDriver implements DatabaseDriver {
+  readonly dialect = "sqlite";
+  private db: sqlite3.Database | null = null;
+
+  constructor(private config: SqliteConfig) {}
+
+  get connected(): boolean {
+    return this.db !== null;
+  }
+
+  async connect(): Promise<void> {
+    const { path: file, readOnly, busyTimeoutMs } = this.config;
+
+    if (!readOnly && file !== MEMORY_DB_PATH) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.db = new sqlite.Database(
+        file,
+        readOnly
+          ? sqlite3.OPEN_READONLY
+          : sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE,
+        (err) => {
+          if (err) {
+            console.error("Error opening database:", err.message);
+            reject(err);
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+
+    this.db!.configure("busyTimeout", busyTimeoutMs);
+    await this.applyPragmas();
+    console.log(`Connected to SQLite database at ${file}`);
+  }
+
+  private async applyPragmas(): Promise<void> {
+    const { pragmas, readOnly } = this.config;
+
+    for (const [name, value] of Object.entries(pragmas)) {
+      // Switching the journal mode writes to the file
+      if (readOnly && name === "journal_mode") {
+        continue;
+      }
+      if (!PRAGMA_VALUE.test(name) || !PRAGMA_VALUE.test(String(value))) {
+        throw new Error(`Invalid PRAGMA ${name} = ${value}`);
+      }
+
+      await this.run(`PRAGMA ${name} = ${value}`, []);
+    }
+  }
+
+  async close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.db) {
+        this.db.close((err) => {
+          if (err) {
+            console.error("Error closing database:", err.message);
+            reject(err);
+          } else {
+            console.log("Database connection closed");
+            this.db = null;
+            resolve();
+          }
+        });
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  query<T>(sql: string, params: any[]): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(notConnected());
+        return;
+      }
+
+      this.db.all(sql, params, (err, rows) => {
+        if (err) {
+          console.error("Query error:", err.message);
+          reject(toDatabaseError(err));
+        } else {
+          resolve(rows as T[]);
+        }
+      });
+    });
+  }
+
+  get<T>(sql: string, params: any[]): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(notConnected());
+        return;
+      }
+
+      this.db.get(sql, params, (err, row) => {
+        if (err) {
+          console.error("Get error:", err.message);
+          reject(toDatabaseError(err));
+        } else {
+          resolve(row as T);
+        }
+      });
+    });
+  }
+
+  run(sql: string, params: any[]): Promise<DatabaseResult> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(notConnected());
+        return;
+      }
+
+      this.db.run(sql, params, function (err) {
+        if (err) {
+          console.error("Run error:", err.message);
+          reject(toDatabaseError(err));
+        } else {
+          resolve({
+            lastID: this.lastID,
+            changes: this.changes,
+          });
+        }
+      });
+    });
+  }
+
+  exec(sql: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(notConnected());
+        return;
+      }
+
+      this.db.exec(sql, (err) => {
+        if (err) {
+          console.error("Exec error:", err.message);
+          reject(toDatabaseError(err));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { database } from "./connection";
+import { database, DatabaseClient, Dialect } from "./connection";
 import fs from "fs";
 import path from "path";
 
@@ -10,27 +10,33 @@ export interface Migration {
   timestamp: number;
 }
 
+const MIGRATIONS_ROOT = path.join(__dirname, "migrations");
+const DIALECTS: readonly Dialect[] = ["sqlite", "postgres"];
+
 export class MigrationRunner {
-  private migrationsPath: string;
+  constructor(private db: DatabaseClient = database) {}
 
-  constructor() {
-    this.migrationsPath = path.join(__dirname, "migrations");
+  // Each dialect keeps its own migrations, e.g. migrations/postgres, so
+  // SQLite-only statements never reach a Postgres database
+  private get migrationsPath(): string {
+    return path.join(MIGRATIONS_ROOT, this.db.dialect);
   }
 
+  // Written to run unchanged on every dialect
   async initializeMigrationsTable(): Promise<void> {
     const sql = `
             CREATE TABLE IF NOT EXISTS migrations (
                 id TEXT PRIMARY KEY,
                 name TEXT NOT NULL,
-                executed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
             )
         `;
-    await database.run(sql);
+    await this.db.run(sql);
     console.log("Migrations table initialized");
   }
 
   async getExecutedMigrations(): Promise<string[]> {
-    const migrations = await database.query<{ id: string }>(
+    const migrations = await this.db.query<{ id: string }>(
       "SELECT id FROM migrations ORDER BY executed_at ASC"
     );
     return migrations.map((m) => m.id);
@@ -38,8 +44,7 @@ export class MigrationRunner {
 
   async getAvailableMigrations(): Promise<Migration[]> {
     if (!fs.existsSync(this.migrationsPath)) {
-      fs.mkdirSync(this.migrationsPath, { recursive: true });
-      return [];
+      throw new Error(`No migrations found for ${this.db.dialect}`);
     }
 
     const files = fs
@@ -102,13 +107,13 @@ export class MigrationRunner {
       try {
         console.log(`Running migration: ${migration.name}`);
 
-        await database.transaction([
-          { sql: migration.up },
-          {
-            sql: "INSERT INTO migrations (id, name) VALUES (?, ?)",
-            params: [migration.id, migration.name],
-          },
-        ]);
+        await this.db.withTransaction(async (tx) => {
+          await tx.exec(migration.up);
+          await tx.run("INSERT INTO migrations (id, name) VALUES (?, ?)", [
+            migration.id,
+            migration.name,
+          ]);
+        });
 
         console.log(`✓ Migration completed: ${migration.name}`);
       } catch (error) {
@@ -139,13 +144,10 @@ export class MigrationRunner {
     try {
       console.log(`Rolling back migration: ${migration.name}`);
 
-      await database.transaction([
-        { sql: migration.down },
-        {
-          sql: "DELETE FROM migrations WHERE id = ?",
-          params: [migration.id],
-        },
-      ]);
+      await this.db.withTransaction(async (tx) => {
+        await tx.exec(migration.down);
+        await tx.run("DELETE FROM migrations WHERE id = ?", [migration.id]);
+      });
 
       console.log(`✓ Rollback completed: ${migration.name}`);
     } catch (error) {
@@ -167,12 +169,13 @@ export class MigrationRunner {
     return { executed, pending };
   }
 
-  createMigrationFile(name: string): string {
+  // Creates the migration for every dialect under the same id; each file is
+  // then written in its dialect's SQL
+  createMigrationFile(name: string): string[] {
     const timestamp = Date.now();
     const fileName = `${timestamp}_${name
       .toLowerCase()
       .replace(/\s+/g, "_")}.sql`;
-    const filePath = path.join(this.migrationsPath, fileName);
 
     const template = `-- UP
 -- Add your migration SQL here
@@ -183,14 +186,16 @@ export class MigrationRunner {
 
 `;
 
-    if (!fs.existsSync(this.migrationsPath)) {
-      fs.mkdirSync(this.migrationsPath, { recursive: true });
-    }
+    return DIALECTS.map((dialect) => {
+      const directory = path.join(MIGRATIONS_ROOT, dialect);
+      const filePath = path.join(directory, fileName);
 
-    fs.writeFileSync(filePath, template);
-    console.log(`Migration file created: ${fileName}`);
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(filePath, template);
+      console.log(`Migration file created: ${dialect}/${fileName}`);
 
-    return filePath;
+      return filePath;
+    });
   }
 }
 
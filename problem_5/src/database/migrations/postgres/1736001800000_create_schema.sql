@@ -0,0 +1,111 @@
+-- UP
+-- The schema the SQLite migrations build up to, without the full-text
+-- index, which is SQLite-only. Timestamps keep whole seconds in UTC like
+-- SQLite's CURRENT_TIMESTAMP. Token expiry and use times are ISO 8601
+-- strings written and compared by the app, so they stay TEXT.
+CREATE TABLE users (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT UNIQUE NOT NULL,
+    age INTEGER,
+    status TEXT DEFAULT 'active' CHECK(status IN ('active', 'inactive')),
+    role TEXT NOT NULL DEFAULT 'user' CHECK(role IN ('user', 'editor', 'admin')),
+    created_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP,
+    version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE INDEX idx_users_email ON users(email);
+CREATE INDEX idx_users_status ON users(status);
+CREATE INDEX idx_users_created_at_id ON users(created_at, id);
+
+CREATE TABLE products (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    price NUMERIC(10,2) NOT NULL,
+    category TEXT,
+    stock_quantity INTEGER DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP,
+    deleted_at TIMESTAMP(0),
+    version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE INDEX idx_products_name ON products(name);
+CREATE INDEX idx_products_category ON products(category);
+CREATE INDEX idx_products_price ON products(price);
+CREATE INDEX idx_products_is_active ON products(is_active);
+CREATE INDEX idx_products_created_at_id ON products(created_at, id);
+
+CREATE TABLE score_updates (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    action_token TEXT UNIQUE NOT NULL,
+    action_type TEXT NOT NULL,
+    score_increase INTEGER NOT NULL CHECK(score_increase > 0),
+    client_ip TEXT,
+    session_id TEXT,
+    created_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_score_updates_user_id ON score_updates(user_id);
+CREATE INDEX idx_score_updates_created_at ON score_updates(created_at);
+
+CREATE TABLE action_tokens (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    action_type TEXT NOT NULL,
+    score_value INTEGER NOT NULL CHECK(score_value > 0),
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    created_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_action_tokens_user_id ON action_tokens(user_id);
+CREATE INDEX idx_action_tokens_expires_at ON action_tokens(expires_at);
+
+CREATE TABLE user_credentials (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE refresh_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash TEXT UNIQUE NOT NULL,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    created_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(0) DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+
+-- Millisecond epochs outgrow INTEGER
+CREATE TABLE rate_limit_hits (
+    id SERIAL PRIMARY KEY,
+    key TEXT NOT NULL,
+    hit_at BIGINT NOT NULL
+);
+
+CREATE INDEX idx_rate_limit_hits_key_hit_at ON rate_limit_hits(key, hit_at);
+
+CREATE TABLE rate_limit_suspensions (
+    key TEXT PRIMARY KEY,
+    suspended_until BIGINT NOT NULL
+);
+
+-- DOWN
+DROP TABLE IF EXISTS rate_limit_suspensions;
+DROP TABLE IF EXISTS rate_limit_hits;
+DROP TABLE IF EXISTS refresh_tokens;
+DROP TABLE IF EXISTS user_credentials;
+DROP TABLE IF EXISTS action_tokens;
+DROP TABLE IF EXISTS score_updates;
+DROP TABLE IF EXISTS products;
+DROP TABLE IF EXISTS users;
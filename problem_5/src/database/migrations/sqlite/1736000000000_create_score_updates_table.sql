@@ -0,0 +1,20 @@
+-- UP
+CREATE TABLE score_updates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    action_token TEXT UNIQUE NOT NULL,
+    action_type TEXT NOT NULL,
+    score_increase INTEGER NOT NULL CHECK(score_increase > 0),
+    client_ip TEXT,
+    session_id TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_score_updates_user_id ON score_updates(user_id);
+CREATE INDEX idx_score_updates_created_at ON score_updates(created_at);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_score_updates_created_at;
+DROP INDEX IF EXISTS idx_score_updates_user_id;
+DROP TABLE IF EXISTS score_updates;
@@ -0,0 +1,18 @@
+-- UP
+CREATE TABLE action_tokens (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    action_type TEXT NOT NULL,
+    score_value INTEGER NOT NULL CHECK(score_value > 0),
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_action_tokens_user_id ON action_tokens(user_id);
+CREATE INDEX idx_action_tokens_expires_at ON action_tokens(expires_at);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_action_tokens_expires_at;
+DROP INDEX IF EXISTS idx_action_tokens_user_id;
+DROP TABLE IF EXISTS action_tokens;
@@ -0,0 +1,12 @@
+-- UP
+CREATE TABLE rate_limit_hits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key TEXT NOT NULL,
+    hit_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_rate_limit_hits_key_hit_at ON rate_limit_hits(key, hit_at);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_rate_limit_hits_key_hit_at;
+DROP TABLE IF EXISTS rate_limit_hits;
@@ -0,0 +1,8 @@
+-- UP
+CREATE TABLE rate_limit_suspensions (
+    key TEXT PRIMARY KEY,
+    suspended_until INTEGER NOT NULL
+);
+
+-- DOWN
+DROP TABLE IF EXISTS rate_limit_suspensions;
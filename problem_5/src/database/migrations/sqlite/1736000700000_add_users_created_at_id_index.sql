@@ -0,0 +1,5 @@
+-- UP
+CREATE INDEX idx_users_created_at_id ON users(created_at, id);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_users_created_at_id;
@@ -0,0 +1,5 @@
+-- UP
+CREATE INDEX idx_products_created_at_id ON products(created_at, id);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_products_created_at_id;
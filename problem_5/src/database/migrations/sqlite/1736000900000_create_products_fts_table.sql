@@ -0,0 +1,12 @@
+-- UP
+CREATE VIRTUAL TABLE products_fts USING fts5(
+    name,
+    description,
+    category,
+    content='products',
+    content_rowid='id',
+    tokenize='unicode61 remove_diacritics 2'
+);
+
+-- DOWN
+DROP TABLE IF EXISTS products_fts;
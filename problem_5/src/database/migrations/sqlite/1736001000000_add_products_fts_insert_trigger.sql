@@ -0,0 +1,8 @@
+-- UP
+CREATE TRIGGER products_fts_after_insert AFTER INSERT ON products BEGIN
+    INSERT INTO products_fts(rowid, name, description, category)
+    VALUES (new.id, new.name, new.description, new.category);
+END;
+
+-- DOWN
+DROP TRIGGER IF EXISTS products_fts_after_insert;
@@ -0,0 +1,8 @@
+-- UP
+CREATE TRIGGER products_fts_after_delete AFTER DELETE ON products BEGIN
+    INSERT INTO products_fts(products_fts, rowid, name, description, category)
+    VALUES ('delete', old.id, old.name, old.description, old.category);
+END;
+
+-- DOWN
+DROP TRIGGER IF EXISTS products_fts_after_delete;
@@ -0,0 +1,10 @@
+-- UP
+CREATE TRIGGER products_fts_after_update AFTER UPDATE OF name, description, category ON products BEGIN
+    INSERT INTO products_fts(products_fts, rowid, name, description, category)
+    VALUES ('delete', old.id, old.name, old.description, old.category);
+    INSERT INTO products_fts(rowid, name, description, category)
+    VALUES (new.id, new.name, new.description, new.category);
+END;
+
+-- DOWN
+DROP TRIGGER IF EXISTS products_fts_after_update;
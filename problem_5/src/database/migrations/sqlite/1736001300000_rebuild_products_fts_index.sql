@@ -0,0 +1,5 @@
+-- UP
+INSERT INTO products_fts(products_fts) VALUES ('rebuild');
+
+-- DOWN
+INSERT INTO products_fts(products_fts) VALUES ('delete-all');
@@ -0,0 +1,5 @@
+-- UP
+ALTER TABLE products ADD COLUMN deleted_at DATETIME;
+
+-- DOWN
+ALTER TABLE products DROP COLUMN deleted_at;
@@ -0,0 +1,5 @@
+-- UP
+ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- DOWN
+ALTER TABLE users DROP COLUMN version;
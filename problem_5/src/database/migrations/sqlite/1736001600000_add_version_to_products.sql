@@ -0,0 +1,5 @@
+-- UP
+ALTER TABLE products ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- DOWN
+ALTER TABLE products DROP COLUMN version;
@@ -0,0 +1,18 @@
+-- UP
+-- Migrations used to run only their first statement, so databases created
+-- before that was fixed are missing these indexes
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_users_status ON users(status);
+CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
+CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
+CREATE INDEX IF NOT EXISTS idx_products_price ON products(price);
+CREATE INDEX IF NOT EXISTS idx_products_is_active ON products(is_active);
+CREATE INDEX IF NOT EXISTS idx_score_updates_user_id ON score_updates(user_id);
+CREATE INDEX IF NOT EXISTS idx_score_updates_created_at ON score_updates(created_at);
+CREATE INDEX IF NOT EXISTS idx_action_tokens_user_id ON action_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_action_tokens_expires_at ON action_tokens(expires_at);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_hit_at ON rate_limit_hits(key, hit_at);
+
+-- DOWN
+-- The indexes belong to the migrations that create their tables
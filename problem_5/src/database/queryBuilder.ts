@@ -0,0 +1,358 @@
+// Builds parameterized SELECT statements from an entity type, e.g.
+//
+//   selectFrom<Product>("products")
+//     .select("category")
+//     .count()
+//     .where("is_active", true)
+//     .groupBy("category")
+//     .orderBy("count", "DESC")
+//     .toSQL();
+//
+// Values always travel as `?` parameters. Column and table names are
+// checked to be plain identifiers; only the *Raw methods take SQL as is.
+// Every method returns a new query, so a query can be shared and extended
+// without the copies affecting each other.
+
+// Column names of T, e.g. "id" | "name"
+export type Column<T> = Extract<keyof T, string>;
+
+// A column, optionally qualified with its table as in "products.id"
+export type ColumnRef<T> = Column<T> | `${string}.${Column<T>}`;
+
+type ValueOf<T, C> = C extends `${string}.${infer K}`
+  ? K extends keyof T
+    ? T[K]
+    : never
+  : C extends keyof T
+  ? T[C]
+  : never;
+
+type Nothing = Record<never, never>;
+
+// The row a query returns: the whole entity until columns are selected
+export type ResultRow<T, R> = [keyof R] extends [never] ? T : R;
+
+const COMPARISON_OPERATORS = ["=", "!=", "<", "<=", ">", ">="] as const;
+export type ComparisonOperator = (typeof COMPARISON_OPERATORS)[number];
+export type Direction = "ASC" | "DESC";
+
+export interface CompiledQuery {
+  sql: string;
+  params: any[];
+}
+
+interface Fragment {
+  sql: string;
+  params: readonly unknown[];
+}
+
+interface QueryState {
+  table: string;
+  // The FROM source: the table, or a subquery with its parameters
+  from: Fragment;
+  columns: string[];
+  distinct: boolean;
+  joins: string[];
+  where: Fragment[];
+  groupBy: string[];
+  orderBy: string[];
+  limit?: number;
+  offset?: number;
+}
+
+const IDENTIFIER = /^[A-Za-z_]\w*(\.([A-Za-z_]\w*|\*))?$/;
+
+const identifier = (name: string): string => {
+  if (!IDENTIFIER.test(name)) {
+    throw new Error(`Invalid SQL identifier "${name}"`);
+  }
+  return name;
+};
+
+export class SelectQuery<T, R = Nothing> {
+  private constructor(private readonly state: QueryState) {}
+
+  static from<T>(table: string): SelectQuery<T> {
+    return new SelectQuery<T>({
+      table: identifier(table),
+      from: { sql: table, params: [] },
+      columns: [],
+      distinct: false,
+      joins: [],
+      where: [],
+      groupBy: [],
+      orderBy: [],
+    });
+  }
+
+  private with<R2 = R>(changes: Partial<QueryState>): SelectQuery<T, R2> {
+    return new SelectQuery<T, R2>({ ...this.state, ...changes });
+  }
+
+  select<K extends Column<T>>(...columns: K[]): SelectQuery<T, R & Pick<T, K>> {
+    return this.with({
+      columns: [...this.state.columns, ...columns.map(identifier)],
+    });
+  }
+
+  // Every column of the table, as `table.*` so joined columns stay out
+  selectAll(): SelectQuery<T, R & T> {
+    return this.with({
+      columns: [...this.state.columns, `${this.state.table}.*`],
+    });
+  }
+
+  // An SQL expression the builder does not model, e.g. a function call;
+  // pass the alias and value types: selectRaw<"total", number>(...)
+  selectRaw<A extends string, V = unknown>(
+    expression: string,
+    alias: A
+  ): SelectQuery<T, R & Record<A, V>> {
+    return this.with({
+      columns: [...this.state.columns, `${expression} AS ${identifier(alias)}`],
+    });
+  }
+
+  count<A extends string = "count">(
+    alias: A = "count" as A
+  ): SelectQuery<T, R & Record<A, number>> {
+    return this.selectRaw<A, number>("COUNT(*)", alias);
+  }
+
+  // SUM, AVG, MIN and MAX are NULL when no rows match
+  sum<A extends string>(
+    column: ColumnRef<T>,
+    alias: A
+  ): SelectQuery<T, R & Record<A, number | null>> {
+    return this.selectRaw<A, number | null>(
+      `SUM(${identifier(column)})`,
+      alias
+    );
+  }
+
+  avg<A extends string>(
+    column: ColumnRef<T>,
+    alias: A
+  ): SelectQuery<T, R & Record<A, number | null>> {
+    return this.selectRaw<A, number | null>(
+      `AVG(${identifier(column)})`,
+      alias
+    );
+  }
+
+  min<A extends string>(
+    column: ColumnRef<T>,
+    alias: A
+  ): SelectQuery<T, R & Record<A, number | null>> {
+    return this.selectRaw<A, number | null>(
+      `MIN(${identifier(column)})`,
+      alias
+    );
+  }
+
+  max<A extends string>(
+    column: ColumnRef<T>,
+    alias: A
+  ): SelectQuery<T, R & Record<A, number | null>> {
+    return this.selectRaw<A, number | null>(
+      `MAX(${identifier(column)})`,
+      alias
+    );
+  }
+
+  distinct(): SelectQuery<T, R> {
+    return this.with({ distinct: true });
+  }
+
+  // `left` is a column of this query, `right` the joined table's column,
+  // e.g. join("products_fts", "products.id", "products_fts.rowid")
+  join(
+    table: string,
+    left: ColumnRef<T>,
+    right: `${string}.${string}`
+  ): SelectQuery<T, R> {
+    return this.addJoin("JOIN", table, left, right);
+  }
+
+  leftJoin(
+    table: string,
+    left: ColumnRef<T>,
+    right: `${string}.${string}`
+  ): SelectQuery<T, R> {
+    return this.addJoin("LEFT JOIN", table, left, right);
+  }
+
+  private addJoin(
+    kind: string,
+    table: string,
+    left: string,
+    right: string
+  ): SelectQuery<T, R> {
+    return this.with({
+      joins: [
+        ...this.state.joins,
+        `${kind} ${identifier(table)} ON ${identifier(left)} = ${identifier(
+          right
+        )}`,
+      ],
+    });
+  }
+
+  private addWhere(sql: string, params: readonly unknown[]): SelectQuery<T, R> {
+    return this.with({ where: [...this.state.where, { sql, params }] });
+  }
+
+  // Conditions are combined with AND
+  where<C extends ColumnRef<T>>(
+    column: C,
+    value: ValueOf<T, C>
+  ): SelectQuery<T, R>;
+  where<C extends ColumnRef<T>>(
+    column: C,
+    operator: ComparisonOperator,
+    value: ValueOf<T, C>
+  ): SelectQuery<T, R>;
+  where(column: string, ...args: unknown[]): SelectQuery<T, R> {
+    const [operator, value] = args.length === 1 ? ["=", args[0]] : args;
+    if (!COMPARISON_OPERATORS.includes(operator as ComparisonOperator)) {
+      throw new Error(`Invalid comparison operator "${operator}"`);
+    }
+    return this.addWhere(`${identifier(column)} ${operator} ?`, [value]);
+  }
+
+  whereIn<C extends ColumnRef<T>>(
+    column: C,
+    values: readonly ValueOf<T, C>[]
+  ): SelectQuery<T, R> {
+    // IN () is a syntax error; an empty list matches nothing
+    if (values.length === 0) {
+      return this.addWhere("1 = 0", []);
+    }
+
+    return this.addWhere(
+      `${identifier(column)} IN (${values.map(() => "?").join(", ")})`,
+      values
+    );
+  }
+
+  whereLike(column: ColumnRef<T>, pattern: string): SelectQuery<T, R> {
+    return this.addWhere(`${identifier(column)} LIKE ?`, [pattern]);
+  }
+
+  whereNull(column: ColumnRef<T>): SelectQuery<T, R> {
+    return this.addWhere(`${identifier(column)} IS NULL`, []);
+  }
+
+  whereNotNull(column: ColumnRef<T>): SelectQuery<T, R> {
+    return this.addWhere(`${identifier(column)} IS NOT NULL`, []);
+  }
+
+  // A condition in SQL with `?` placeholders for `params`. It is wrapped in
+  // parentheses, so an OR inside cannot widen the other conditions.
+  whereRaw(sql: string, params: readonly unknown[] = []): SelectQuery<T, R> {
+    return sql ? this.addWhere(`(${sql})`, params) : this;
+  }
+
+  groupBy(...columns: ColumnRef<T>[]): SelectQuery<T, R> {
+    return this.with({
+      groupBy: [...this.state.groupBy, ...columns.map(identifier)],
+    });
+  }
+
+  // Also accepts the aliases of selected expressions, e.g. "count"
+  orderBy(
+    column: ColumnRef<T> | Column<R>,
+    direction: Direction = "ASC"
+  ): SelectQuery<T, R> {
+    return this.orderByRaw(
+      `${identifier(column)} ${direction === "DESC" ? "DESC" : "ASC"}`
+    );
+  }
+
+  orderByRaw(sql: string): SelectQuery<T, R> {
+    return this.with({ orderBy: [...this.state.orderBy, sql] });
+  }
+
+  limit(limit: number): SelectQuery<T, R> {
+    return this.with({ limit });
+  }
+
+  // Only applied together with limit(), which SQLite requires
+  offset(offset: number): SelectQuery<T, R> {
+    return this.with({ offset });
+  }
+
+  // Counts the rows this query would return, ignoring its columns, order
+  // and page
+  countQuery(): SelectQuery<T, { count: number }> {
+    const { distinct, groupBy } = this.state;
+
+    if (distinct || groupBy.length > 0) {
+      const { sql, params } = this.with({
+        orderBy: [],
+        limit: undefined,
+        offset: undefined,
+      }).toSQL();
+
+      return new SelectQuery<T, Nothing>({
+        ...SelectQuery.from<T>(this.state.table).state,
+        from: { sql: `(${sql}) AS counted`, params },
+      }).count();
+    }
+
+    return this.with<Nothing>({
+      columns: [],
+      orderBy: [],
+      limit: undefined,
+      offset: undefined,
+    }).count();
+  }
+
+  toSQL(): CompiledQuery {
+    const { table, from, columns, distinct, joins, where, groupBy, orderBy } =
+      this.state;
+    const params: any[] = [...from.params];
+
+    const selectList =
+      columns.length > 0
+        ? columns.join(", ")
+        : joins.length > 0
+        ? `${table}.*`
+        : "*";
+    let sql = `SELECT ${distinct ? "DISTINCT " : ""}${selectList} FROM ${
+      from.sql
+    }`;
+
+    if (joins.length > 0) {
+      sql += ` ${joins.join(" ")}`;
+    }
+
+    if (where.length > 0) {
+      sql += ` WHERE ${where.map((condition) => condition.sql).join(" AND ")}`;
+      where.forEach((condition) => params.push(...condition.params));
+    }
+
+    if (groupBy.length > 0) {
+      sql += ` GROUP BY ${groupBy.join(", ")}`;
+    }
+
+    if (orderBy.length > 0) {
+      sql += ` ORDER BY ${orderBy.join(", ")}`;
+    }
+
+    if (this.state.limit !== undefined) {
+      sql += " LIMIT ?";
+      params.push(this.state.limit);
+
+      if (this.state.offset !== undefined) {
+        sql += " OFFSET ?";
+        params.push(this.state.offset);
+      }
+    }
+
+    return { sql, params };
+  }
+}
+
+export const selectFrom = <T>(table: string): SelectQuery<T> =>
+  SelectQuery.from<T>(table);
@@ -22,7 +22,7 @@ export class DatabaseSchema {
     await migrationRunner.rollbackLastMigration();
   }
 
-  createMigration(name: string): string {
+  createMigration(name: string): string[] {
     return migrationRunner.createMigrationFile(name);
   }
 }
@@ -0,0 +1,17 @@
+import { EventEmitter } from "events";
+import { ScoreUpdatedEvent } from "../types";
+
+export const SCORE_UPDATED = "score_updated";
+
+class ScoreEvents extends EventEmitter {
+  emitScoreUpdated(event: ScoreUpdatedEvent): void {
+    this.emit(SCORE_UPDATED, event);
+  }
+
+  onScoreUpdated(listener: (event: ScoreUpdatedEvent) => void): () => void {
+    this.on(SCORE_UPDATED, listener);
+    return () => this.off(SCORE_UPDATED, listener);
+  }
+}
+
+export const scoreEvents = new ScoreEvents();
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiError } from "./errorHandler";
+import { UNAUTHORIZED, verifyAccessToken } from "../services/jwtService";
+import { userRepository } from "../repositories";
+import { AuthenticatedUser, UserRole } from "../types";
+
+export const FORBIDDEN = "FORBIDDEN";
+
+const forbidden = () =>
+  new ApiError("Insufficient permissions", 403, FORBIDDEN);
+
+const getAuthenticatedUser = (req: Request): AuthenticatedUser => {
+  if (!req.user) {
+    throw new ApiError("Authentication required", 401, UNAUTHORIZED);
+  }
+  return req.user;
+};
+
+export const requireAuth = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const header = req.headers.authorization;
+  const [scheme, token] = header ? header.split(" ") : [];
+
+  if (scheme !== "Bearer" || !token) {
+    throw new ApiError("Authentication required", 401, UNAUTHORIZED);
+  }
+
+  const user = verifyAccessToken(token);
+
+  // Access tokens outlive a deactivation, so the account is checked on
+  // every request
+  if (!(await userRepository.isActive(user.id))) {
+    throw new ApiError("Account is inactive", 401, UNAUTHORIZED);
+  }
+
+  req.user = user;
+  next();
+};
+
+// Must run after requireAuth
+export const requireRole =
+  (...roles: UserRole[]) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    if (!roles.includes(getAuthenticatedUser(req).role)) {
+      throw forbidden();
+    }
+    next();
+  };
+
+// Lets users act on their own :id resource; anyone else needs one of the
+// given roles. Must run after requireAuth and validateIdParam.
+export const requireSelfOrRole =
+  (...roles: UserRole[]) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    const user = getAuthenticatedUser(req);
+    if (Number(req.params.id) !== user.id && !roles.includes(user.role)) {
+      throw forbidden();
+    }
+    next();
+  };
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiError } from "./errorHandler";
+
+export const PRECONDITION_FAILED = "PRECONDITION_FAILED";
+
+const VERSION_ETAG = /^"(\d+)"$/;
+
+export const preconditionFailed = (
+  message: string = "The resource has been modified since it was read"
+): ApiError => new ApiError(message, 412, PRECONDITION_FAILED);
+
+// Strong entity tag for a row version, e.g. "3"
+export const versionETag = (version: number): string => `"${version}"`;
+
+// Records projected without their version keep Express's default
+// body-based ETag. Express answers If-None-Match with 304 for either.
+export const setVersionETag = (
+  res: Response,
+  record: { version?: number }
+): void => {
+  if (typeof record.version === "number") {
+    res.setHeader("ETag", versionETag(record.version));
+  }
+};
+
+// Reads If-Match into req.ifMatch, the versions a write may replace. "*"
+// only asks for an existing record, which updates check anyway. Weak tags
+// never match under the strong comparison If-Match requires.
+export const parseIfMatch = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  const header = req.get("If-Match");
+  if (header === undefined || header.trim() === "*") {
+    next();
+    return;
+  }
+
+  const versions = header
+    .split(",")
+    .map((tag) => VERSION_ETAG.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]));
+
+  if (versions.length === 0) {
+    throw preconditionFailed("If-Match does not match the current version");
+  }
+
+  req.ifMatch = versions;
+  next();
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      ifMatch?: number[];
+    }
+  }
+}
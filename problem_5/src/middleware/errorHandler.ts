@@ -1,65 +1,153 @@
 import { Request, Response, NextFunction } from "express";
-import { ApiResponse } from "../types";
+import { DatabaseError } from "../database/connection";
+import { VersionMismatchError } from "../repositories/errors";
+import { ApiErrorBody, ApiResponse, ErrorCode } from "../types";
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  412: "PRECONDITION_FAILED",
+  415: "UNSUPPORTED_MEDIA_TYPE",
+  422: "VALIDATION_ERROR",
+  429: "RATE_LIMIT_EXCEEDED",
+  501: "NOT_IMPLEMENTED",
+  503: "SERVICE_UNAVAILABLE",
+};
 
 export class ApiError extends Error {
   public statusCode: number;
+  public code: ErrorCode;
+  public details?: Record<string, unknown>;
   public isOperational: boolean;
 
   constructor(
     message: string,
     statusCode: number = 500,
+    code?: ErrorCode,
+    details?: Record<string, unknown>,
     isOperational: boolean = true
   ) {
     super(message);
     this.statusCode = statusCode;
+    this.code = code || STATUS_CODES[statusCode] || "INTERNAL_ERROR";
+    this.details = details;
     this.isOperational = isOperational;
 
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+const DATABASE_ERRORS: Record<
+  string,
+  { statusCode: number; code: ErrorCode; message: string }
+> = {
+  SQLITE_CONSTRAINT_UNIQUE: {
+    statusCode: 409,
+    code: "CONFLICT",
+    message: "Resource already exists with this unique field",
+  },
+  SQLITE_CONSTRAINT_FOREIGNKEY: {
+    statusCode: 400,
+    code: "INVALID_REFERENCE",
+    message: "Invalid reference to related resource",
+  },
+  SQLITE_CONSTRAINT_NOTNULL: {
+    statusCode: 422,
+    code: "VALIDATION_ERROR",
+    message: "A required field is missing",
+  },
+  SQLITE_CONSTRAINT_CHECK: {
+    statusCode: 422,
+    code: "VALIDATION_ERROR",
+    message: "A field has an invalid value",
+  },
+  SQLITE_BUSY: {
+    statusCode: 503,
+    code: "SERVICE_UNAVAILABLE",
+    message: "Database is busy, please try again",
+  },
+};
+
+// Normalises anything thrown below the controllers. Known database errors
+// are mapped by their code; anything else becomes a 500, prefixed with
+// `context` when given.
+export const toApiError = (error: unknown, context?: string): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof VersionMismatchError) {
+    return new ApiError(error.message, 412, "PRECONDITION_FAILED");
+  }
+
+  if (error instanceof DatabaseError && DATABASE_ERRORS[error.code]) {
+    const { statusCode, code, message } = DATABASE_ERRORS[error.code];
+    return new ApiError(message, statusCode, code);
+  }
+
+  const message = context
+    ? `${context}: ${error}`
+    : error instanceof Error && error.message
+    ? error.message
+    : "Internal Server Error";
+
+  return new ApiError(message, 500, "INTERNAL_ERROR", undefined, false);
+};
+
+const buildErrorBody = (
+  req: Request,
+  code: ErrorCode,
+  message: string,
+  details?: Record<string, unknown>
+): ApiErrorBody => ({
+  code,
+  message,
+  details: {
+    ...details,
+    timestamp: new Date().toISOString(),
+    requestId: req.requestId,
+  },
+});
+
 export const errorHandler = (
   error: Error | ApiError,
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  let statusCode = 500;
-  let message = "Internal Server Error";
-
-  if (error instanceof ApiError) {
-    statusCode = error.statusCode;
-    message = error.message;
-  } else if (error.message.includes("UNIQUE constraint failed")) {
-    statusCode = 409;
-    message = "Resource already exists with this unique field";
-  } else if (error.message.includes("FOREIGN KEY constraint failed")) {
-    statusCode = 400;
-    message = "Invalid reference to related resource";
-  } else if (error.message.includes("validation")) {
-    statusCode = 400;
-    message = error.message;
-  } else if (error.message) {
-    message = error.message;
-  }
+  const apiError = toApiError(error);
 
-  console.error(`Error ${statusCode}: ${message}`);
+  console.error(
+    `Error ${apiError.statusCode} ${apiError.code}: ${apiError.message}`
+  );
   if (process.env.NODE_ENV === "development") {
     console.error(error.stack);
   }
 
   const response: ApiResponse = {
     success: false,
-    error: message,
+    error: buildErrorBody(
+      req,
+      apiError.code,
+      apiError.message,
+      apiError.details
+    ),
   };
 
-  res.status(statusCode).json(response);
+  res.status(apiError.statusCode).json(response);
 };
 
 export const notFoundHandler = (req: Request, res: Response): void => {
   const response: ApiResponse = {
     success: false,
-    error: `Route ${req.originalUrl} not found`,
+    error: buildErrorBody(
+      req,
+      "NOT_FOUND",
+      `Route ${req.originalUrl} not found`
+    ),
   };
 
   res.status(404).json(response);
@@ -67,6 +155,6 @@ export const notFoundHandler = (req: Request, res: Response): void => {
 
 export const asyncHandler = (fn: Function) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+    return Promise.resolve(fn(req, res, next)).catch(next);
   };
 };
@@ -0,0 +1,116 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiError, asyncHandler } from "./errorHandler";
+import {
+  getDefaultRateLimitStore,
+  RateLimitStore,
+} from "../services/rateLimitStore";
+
+export const RATE_LIMIT_EXCEEDED = "RATE_LIMIT_EXCEEDED";
+
+export interface RateLimitOptions {
+  // Namespaces the keys so each limited route has its own budget
+  name: string;
+  limit: number;
+  windowMs: number;
+  // "user" falls back to the client IP for unauthenticated requests
+  keyBy?: "user" | "ip" | ((req: Request) => string);
+  // Suspends keys that exceed the limit `violations` times within
+  // `windowMs` for `durationMs`
+  suspension?: {
+    violations: number;
+    windowMs: number;
+    durationMs: number;
+  };
+  store?: RateLimitStore;
+}
+
+const resolveKey = (req: Request, keyBy: RateLimitOptions["keyBy"]) => {
+  if (typeof keyBy === "function") {
+    return keyBy(req);
+  }
+  if (keyBy !== "ip" && req.user) {
+    return `user:${req.user.id}`;
+  }
+  return `ip:${req.ip}`;
+};
+
+const secondsUntil = (timestamp: number, now: number): number =>
+  Math.max(0, Math.ceil((timestamp - now) / 1000));
+
+const tooManyRequests = (
+  res: Response,
+  retryAt: number,
+  now: number,
+  message: string
+): ApiError => {
+  res.setHeader("Retry-After", String(secondsUntil(retryAt, now)));
+  return new ApiError(message, 429, RATE_LIMIT_EXCEEDED);
+};
+
+// Sliding window limiter. Sets RateLimit-Limit, RateLimit-Remaining and
+// RateLimit-Reset on every response, plus Retry-After when rejecting.
+export const rateLimit = (options: RateLimitOptions) => {
+  const { name, limit, windowMs, keyBy = "user", suspension } = options;
+
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const store = options.store || getDefaultRateLimitStore();
+      const key = `${name}:${resolveKey(req, keyBy)}`;
+      const now = Date.now();
+
+      if (suspension) {
+        const suspendedUntil = await store.getSuspendedUntil(key, now);
+        if (suspendedUntil) {
+          throw tooManyRequests(
+            res,
+            suspendedUntil,
+            now,
+            "Too many requests, temporarily suspended"
+          );
+        }
+      }
+
+      const window = await store.hit(key, limit, windowMs, now);
+
+      res.setHeader("RateLimit-Limit", String(limit));
+      res.setHeader("RateLimit-Remaining", String(limit - window.count));
+      res.setHeader(
+        "RateLimit-Reset",
+        String(secondsUntil(window.resetAt, now))
+      );
+
+      if (window.allowed) {
+        return next();
+      }
+
+      if (suspension) {
+        // Violations are counted with the same sliding window under their
+        // own key
+        const violations = await store.hit(
+          `${key}:violations`,
+          Number.MAX_SAFE_INTEGER,
+          suspension.windowMs,
+          now
+        );
+
+        if (violations.count >= suspension.violations) {
+          const suspendedUntil = now + suspension.durationMs;
+          await store.suspend(key, suspendedUntil);
+          throw tooManyRequests(
+            res,
+            suspendedUntil,
+            now,
+            "Too many requests, temporarily suspended"
+          );
+        }
+      }
+
+      throw tooManyRequests(
+        res,
+        window.resetAt,
+        now,
+        "Too many requests, please try again later"
+      );
+    }
+  );
+};
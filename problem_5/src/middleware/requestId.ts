@@ -0,0 +1,31 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Accept caller supplied ids only if they are short and log-safe
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export const requestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+
+  req.requestId =
+    incoming && VALID_REQUEST_ID.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
 import { ApiError } from "./errorHandler";
+import { ValidationErrorDetail } from "../types";
+import { PATCH_MEDIA_TYPES } from "../services/patchService";
 import {
   createUserSchema,
   updateUserSchema,
@@ -8,34 +10,73 @@ import {
   updateProductSchema,
   userFiltersSchema,
   productFiltersSchema,
+  userFieldsSchema,
+  productFieldsSchema,
+  productSearchSchema,
+  lowStockQuerySchema,
+  updateStockSchema,
+  deleteQuerySchema,
+  trashQuerySchema,
+  bulkSchema,
   idParamSchema,
+  scoreUpdateSchema,
+  loginSchema,
+  refreshTokenSchema,
 } from "../validation/schemas";
 
+// Keeps the joined message for existing clients and lists each failing
+// path under details.errors so forms can show errors next to their fields
+const toValidationError = (
+  error: Joi.ValidationError,
+  target: "body" | "query" | "params"
+): ApiError => {
+  const errors: ValidationErrorDetail[] = error.details.map((detail) => ({
+    field: detail.path.join(".") || target,
+    message: detail.message,
+    type: detail.type,
+  }));
+
+  return new ApiError(
+    errors.map((detail) => detail.message).join("; "),
+    422,
+    "VALIDATION_ERROR",
+    { location: target, errors }
+  );
+};
+
+// Validates outside the request pipeline, e.g. an entity after a PATCH
+export const validateValue = <V = any>(
+  schema: Joi.ObjectSchema,
+  input: unknown,
+  target: "body" | "query" | "params" = "body"
+): V => {
+  const { error, value } = schema.validate(input, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true,
+  });
+
+  if (error) {
+    throw toValidationError(error, target);
+  }
+  return value;
+};
+
 export const validate = (
   schema: Joi.ObjectSchema,
   target: "body" | "query" | "params" = "body"
 ) => {
   return (req: Request, _res: Response, next: NextFunction): void => {
-    const { error, value } = schema.validate(req[target], {
-      abortEarly: false,
-      stripUnknown: true,
-      convert: true,
-    });
-
-    if (error) {
-      const errorMessage = error.details
-        .map((detail) => detail.message)
-        .join("; ");
-
-      throw new ApiError(errorMessage, 400);
-    }
+    const value = validateValue(schema, req[target], target);
 
     if (target === "body") {
       req.body = value;
     } else if (target === "params") {
       req.params = value;
     } else if (target === "query") {
-      Object.assign(req.query, value);
+      // req.query is re-parsed on every access in Express 5, so the
+      // converted values are kept on the request instead
+      req.validatedQuery = { ...req.validatedQuery, ...value };
     }
     next();
   };
@@ -53,8 +94,47 @@ export const validateUserQuery = validate(userFiltersSchema, "query");
 
 export const validateProductQuery = validate(productFiltersSchema, "query");
 
+export const validateProductSearch = validate(productSearchSchema, "query");
+
+export const validateLowStockQuery = validate(lowStockQuerySchema, "query");
+
+export const validateUpdateStock = validate(updateStockSchema, "body");
+
+export const validateDeleteQuery = validate(deleteQuerySchema, "query");
+
+export const validateTrashQuery = validate(trashQuerySchema, "query");
+
+export const validateUserFields = validate(userFieldsSchema, "query");
+
+export const validateProductFields = validate(productFieldsSchema, "query");
+
+export const validateBulkOperations = validate(bulkSchema, "body");
+
 export const validateIdParam = validate(idParamSchema, "params");
 
+export const validateScoreUpdate = validate(scoreUpdateSchema, "body");
+
+export const validateLogin = validate(loginSchema, "body");
+
+export const validateRefreshToken = validate(refreshTokenSchema, "body");
+
+// PATCH bodies must say which patch format they use (RFC 5789)
+export const validatePatchMediaType = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.is(PATCH_MEDIA_TYPES)) {
+    res.setHeader("Accept-Patch", PATCH_MEDIA_TYPES.join(", "));
+    throw new ApiError(
+      `PATCH requires one of: ${PATCH_MEDIA_TYPES.join(", ")}`,
+      415,
+      "UNSUPPORTED_MEDIA_TYPE"
+    );
+  }
+  next();
+};
+
 export const validatePagination = (
   req: Request,
   _res: Response,
@@ -75,6 +155,8 @@ declare global {
         page: number;
         limit: number;
       };
+      // Query values after Joi conversion, defaults and stripping
+      validatedQuery?: Record<string, any>;
     }
   }
 }
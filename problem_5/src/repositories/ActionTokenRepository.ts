@@ -0,0 +1,67 @@
+import { BaseRepository, toSqlTimestamp } from "./BaseRepository";
+import { ActionToken } from "../types";
+import { TransactionQuery } from "../database/connection";
+import { toApiError } from "../middleware/errorHandler";
+
+export interface CreateActionTokenData {
+  token_hash: string;
+  user_id: number;
+  action_type: string;
+  score_value: number;
+  expires_at: string;
+}
+
+export class ActionTokenRepository extends BaseRepository<ActionToken> {
+  constructor() {
+    super("action_tokens");
+  }
+
+  async createToken(data: CreateActionTokenData): Promise<void> {
+    try {
+      // Keyed by the hash, so there is no id to return
+      const { sql, params } = this.buildInsertQuery(
+        data,
+        ["token_hash", "user_id", "action_type", "score_value", "expires_at"],
+        "token_hash"
+      );
+
+      await this.executeCommand(sql, params);
+    } catch (error) {
+      throw toApiError(error, "Error creating action token");
+    }
+  }
+
+  async hasIssuedSince(
+    userId: number,
+    actionType: string,
+    since: Date
+  ): Promise<boolean> {
+    try {
+      const row = await this.executeQuerySingle(
+        `SELECT 1 AS issued FROM action_tokens
+         WHERE user_id = ? AND action_type = ? AND created_at >= ?`,
+        [userId, actionType, toSqlTimestamp(since)]
+      );
+      return row !== null;
+    } catch (error) {
+      throw toApiError(error, "Error finding action tokens");
+    }
+  }
+
+  // Guarded so the surrounding transaction rolls back when the token is
+  // unknown, expired, already used or issued for another user/action.
+  buildConsumeQuery(
+    tokenHash: string,
+    userId: number,
+    actionType: string,
+    now: string
+  ): TransactionQuery {
+    return {
+      sql: `UPDATE action_tokens SET used_at = ?
+            WHERE token_hash = ? AND user_id = ? AND action_type = ?
+              AND used_at IS NULL AND expires_at > ?`,
+      params: [now, tokenHash, userId, actionType, now],
+      expectChanges: 1,
+    };
+  }
+}
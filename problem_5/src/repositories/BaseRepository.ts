@@ -1,161 +1,610 @@
-import { database } from "../database/connection";
-import { ApiError } from "../middleware/errorHandler";
+import { database, TransactionQuery } from "../database/connection";
+import { ApiError, toApiError } from "../middleware/errorHandler";
+import {
+  Column,
+  ResultRow,
+  SelectQuery,
+  selectFrom,
+} from "../database/queryBuilder";
+import { VersionMismatchError } from "./errors";
+import {
+  CursorPage,
+  CursorPaginationParams,
+  FilterColumnType,
+  FilterCondition,
+  FilterOperator,
+} from "../types";
+import { parseSort, SortField } from "../validation/queryParams";
+
+interface CursorPosition {
+  createdAt: string;
+  id: number;
+  // "next" pages move towards older rows, "prev" pages towards newer ones
+  direction: "next" | "prev";
+}
+
+interface CursorRow {
+  id: number;
+  created_at: string;
+}
+
+export const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(
+    JSON.stringify([position.createdAt, position.id, position.direction])
+  ).toString("base64url");
+
+export const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const [createdAt, id, direction] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+
+    if (
+      typeof createdAt === "string" &&
+      Number.isInteger(id) &&
+      (direction === "next" || direction === "prev")
+    ) {
+      return { createdAt, id, direction };
+    }
+  } catch {
+    // Falls through to the validation error below
+  }
+
+  throw new ApiError("Invalid cursor", 422, "VALIDATION_ERROR", {
+    location: "query",
+    errors: [{ field: "cursor", message: "Invalid cursor", type: "cursor" }],
+  });
+};
+
+const NEWEST_FIRST: readonly SortField[] = [
+  { column: "created_at", descending: true },
+];
+
+const FILTER_KEY = /^filter\[(\w+)\](?:\[(\w+)\])?$/;
+
+const FILTER_OPERATORS: readonly FilterOperator[] = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "nin",
+  "contains",
+  "startsWith",
+  "isNull",
+];
+
+const COMPARISON_OPERATORS: Partial<Record<FilterOperator, string>> = {
+  eq: "=",
+  ne: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+const MAX_FILTER_VALUES = 100;
+
+const filterError = (message: string): ApiError =>
+  new ApiError(message, 422, "VALIDATION_ERROR", {
+    location: "query",
+    errors: [{ field: "filter", message, type: "filter" }],
+  });
+
+// Collects filter[field][operator]=value query params; filter[field]=value
+// is shorthand for eq. Columns are checked when the filter is compiled.
+export const parseFilters = (
+  query: Record<string, unknown>
+): FilterCondition[] =>
+  Object.entries(query).flatMap(([key, raw]) => {
+    const match = FILTER_KEY.exec(key);
+    if (!match) {
+      return [];
+    }
+
+    const [, field, operator = "eq"] = match;
+    if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+      throw filterError(`Unknown filter operator "${operator}"`);
+    }
+
+    const values = (Array.isArray(raw) ? raw : [raw]).map(String);
+    return [
+      {
+        field,
+        operator: operator as FilterOperator,
+        value: values.length === 1 ? values[0] : values,
+      },
+    ];
+  });
+
+const parseFlag = (raw: string): boolean | undefined =>
+  raw === "true" || raw === "1"
+    ? true
+    : raw === "false" || raw === "0"
+    ? false
+    : undefined;
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, "\\$&");
+
+// Formats like CURRENT_TIMESTAMP does (UTC, "YYYY-MM-DD HH:MM:SS"), so the
+// value compares correctly against stored timestamps on every driver
+export const toSqlTimestamp = (date: Date): string =>
+  date.toISOString().slice(0, 19).replace("T", " ");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RepositoryOptions {
+  // Columns clients may request with `fields`; nothing else reaches SELECT
+  selectableColumns?: readonly string[];
+  // Columns clients may sort by; nothing else reaches ORDER BY
+  sortableColumns?: readonly string[];
+  // Columns clients may filter on, with the type their values are parsed as
+  filterableColumns?: Readonly<Record<string, FilterColumnType>>;
+  // Table has a nullable deleted_at column; delete() moves rows to the trash
+  softDeletes?: boolean;
+  // Table has an integer version column, bumped on every write and used
+  // for optimistic concurrency checks
+  versioned?: boolean;
+}
+
+// Which rows soft-deleting repositories see: live rows only (default),
+// live and trashed rows, or trashed rows only
+export type TrashedMode = "without" | "with" | "only";
 
 export abstract class BaseRepository<T> {
   protected tableName: string;
-
-  constructor(tableName: string) {
+  protected selectableColumns: readonly string[];
+  protected sortableColumns: readonly string[];
+  protected filterableColumns: Readonly<Record<string, FilterColumnType>>;
+  protected softDeletes: boolean;
+  protected versioned: boolean;
+  protected trashed: TrashedMode = "without";
+
+  constructor(
+    tableName: string,
+    {
+      selectableColumns = [],
+      sortableColumns = [],
+      filterableColumns = {},
+      softDeletes = false,
+      versioned = false,
+    }: RepositoryOptions = {}
+  ) {
     this.tableName = tableName;
+    this.selectableColumns = selectableColumns;
+    this.sortableColumns = sortableColumns;
+    this.filterableColumns = filterableColumns;
+    this.softDeletes = softDeletes;
+    this.versioned = versioned;
   }
 
-  async findById(id: number): Promise<T | null> {
-    try {
-      const result = await database.get<T>(
-        `SELECT * FROM ${this.tableName} WHERE id = ?`,
-        [id]
-      );
-      return result || null;
-    } catch (error) {
-      throw new ApiError(
-        `Error finding ${this.tableName} by ID: ${error}`,
-        500
-      );
+  // Returns a copy of the repository whose queries include trashed rows,
+  // e.g. productRepository.withTrashed().findById(id)
+  withTrashed(): this {
+    return this.withTrashedMode("with");
+  }
+
+  // Returns a copy of the repository whose queries only see trashed rows
+  onlyTrashed(): this {
+    return this.withTrashedMode("only");
+  }
+
+  private withTrashedMode(mode: TrashedMode): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+      trashed: mode,
+    });
+  }
+
+  // The deleted_at condition for the current mode, or "" when every row is
+  // visible. Custom queries in subclasses should include it as well.
+  protected trashedCondition(column: string = "deleted_at"): string {
+    if (!this.softDeletes || this.trashed === "with") {
+      return "";
     }
+    return this.trashed === "only"
+      ? `${column} IS NOT NULL`
+      : `${column} IS NULL`;
   }
 
-  async findAll(
+  protected scopeWhere(
     whereClause: string = "",
-    params: any[] = [],
-    orderBy: string = "created_at DESC",
-    limit?: number,
-    offset?: number
-  ): Promise<T[]> {
-    try {
-      let sql = `SELECT * FROM ${this.tableName}`;
+    column: string = "deleted_at"
+  ): string {
+    const condition = this.trashedCondition(column);
+    if (!condition) {
+      return whereClause;
+    }
+    return whereClause ? `(${whereClause}) AND ${condition}` : condition;
+  }
 
-      if (whereClause) {
-        sql += ` WHERE ${whereClause}`;
-      }
+  // scopeWhere as a " WHERE ..." suffix, or "" when there is no condition
+  protected whereSql(
+    whereClause: string = "",
+    column: string = "deleted_at"
+  ): string {
+    const where = this.scopeWhere(whereClause, column);
+    return where ? ` WHERE ${where}` : "";
+  }
+
+  // SET assignments every write must include: refreshes updated_at and, for
+  // versioned tables, moves the row to its next version
+  protected touchColumns(): string {
+    return this.versioned
+      ? "updated_at = CURRENT_TIMESTAMP, version = version + 1"
+      : "updated_at = CURRENT_TIMESTAMP";
+  }
 
-      if (orderBy) {
-        sql += ` ORDER BY ${orderBy}`;
+  // Compiles filter conditions into a parameterized WHERE fragment. Field
+  // names only reach the SQL after the whitelist check; values never do.
+  buildFilterClause(conditions: readonly FilterCondition[]): {
+    whereClause: string;
+    params: any[];
+  } {
+    const clauses: string[] = [];
+    const params: any[] = [];
+
+    for (const { field, operator, value } of conditions) {
+      const type = Object.prototype.hasOwnProperty.call(
+        this.filterableColumns,
+        field
+      )
+        ? this.filterableColumns[field]
+        : undefined;
+      if (!type) {
+        throw filterError(`Cannot filter by "${field}"`);
       }
 
-      if (limit !== undefined) {
-        sql += ` LIMIT ?`;
-        params.push(limit);
+      const single = (): string => {
+        if (Array.isArray(value)) {
+          throw filterError(
+            `filter[${field}][${operator}] expects a single value`
+          );
+        }
+        return value;
+      };
+
+      const coerce = (raw: string): string | number | boolean => {
+        if (type === "number") {
+          const number = Number(raw);
+          if (raw.trim() === "" || !Number.isFinite(number)) {
+            throw filterError(`filter[${field}] expects a number`);
+          }
+          return number;
+        }
+        if (type === "boolean") {
+          const flag = parseFlag(raw);
+          if (flag === undefined) {
+            throw filterError(`filter[${field}] expects true or false`);
+          }
+          // sqlite3 binds booleans as 1 and 0; Postgres needs a boolean
+          return flag;
+        }
+        return raw;
+      };
+
+      if (operator === "isNull") {
+        const isNull = parseFlag(single());
+        if (isNull === undefined) {
+          throw filterError(`filter[${field}][isNull] expects true or false`);
+        }
+        clauses.push(`${field} IS ${isNull ? "" : "NOT "}NULL`);
+      } else if (operator === "in" || operator === "nin") {
+        const list = (Array.isArray(value) ? value : [value])
+          .flatMap((item) => item.split(","))
+          .map((item) => item.trim())
+          .filter(Boolean);
+
+        if (list.length === 0 || list.length > MAX_FILTER_VALUES) {
+          throw filterError(
+            `filter[${field}][${operator}] expects 1 to ${MAX_FILTER_VALUES} values`
+          );
+        }
+
+        const placeholders = list.map(() => "?").join(", ");
+        clauses.push(
+          `${field} ${operator === "nin" ? "NOT IN" : "IN"} (${placeholders})`
+        );
+        params.push(...list.map(coerce));
+      } else if (operator === "contains" || operator === "startsWith") {
+        if (type !== "string") {
+          throw filterError(`filter[${field}][${operator}] needs a text field`);
+        }
 
-        if (offset !== undefined) {
-          sql += ` OFFSET ?`;
-          params.push(offset);
+        const pattern = escapeLike(single());
+        clauses.push(`${field} LIKE ? ESCAPE '\\'`);
+        params.push(operator === "contains" ? `%${pattern}%` : `${pattern}%`);
+      } else {
+        if (type === "boolean" && operator !== "eq" && operator !== "ne") {
+          throw filterError(
+            `filter[${field}][${operator}] needs an ordered field`
+          );
         }
+
+        clauses.push(`${field} ${COMPARISON_OPERATORS[operator]} ?`);
+        params.push(coerce(single()));
       }
+    }
 
-      return await database.query<T>(sql, params);
-    } catch (error) {
-      throw new ApiError(
-        `Error finding ${this.tableName} records: ${error}`,
-        500
+    return { whereClause: clauses.join(" AND "), params };
+  }
+
+  // A query on the table that sees the same rows as the finders, e.g.
+  // this.findAll(this.query().where("category", "Lighting"))
+  query(): SelectQuery<T> {
+    const query = selectFrom<T>(this.tableName);
+    // Every soft-deleting table has this column, whatever T declares
+    const deletedAt = "deleted_at" as Column<T>;
+
+    if (!this.softDeletes || this.trashed === "with") {
+      return query;
+    }
+    return this.trashed === "only"
+      ? query.whereNotNull(deletedAt)
+      : query.whereNull(deletedAt);
+  }
+
+  // Selects `fields`, checked against selectableColumns, or every column
+  // when none are given. `id` is always selected so partial rows can still
+  // be addressed.
+  selectFields<R>(
+    query: SelectQuery<T, R>,
+    fields?: readonly string[]
+  ): SelectQuery<T, any> {
+    if (!fields || fields.length === 0) {
+      return query;
+    }
+
+    const invalid = fields.find(
+      (field) => !this.selectableColumns.includes(field)
+    );
+    if (invalid) {
+      const message = `Unknown field "${invalid}"`;
+      throw new ApiError(message, 422, "VALIDATION_ERROR", {
+        location: "query",
+        errors: [{ field: "fields", message, type: "fields.column" }],
+      });
+    }
+
+    return query.select(
+      ...(Array.from(new Set(["id", ...fields])) as Column<T>[])
+    );
+  }
+
+  // Orders the query by a `sort` param such as "-price,name", checked
+  // against sortableColumns, or by `fallback` when there is none
+  sortBy<R>(
+    query: SelectQuery<T, R>,
+    sort: string | undefined,
+    fallback: readonly SortField[] = NEWEST_FIRST
+  ): SelectQuery<T, R> {
+    let fields = fallback;
+
+    if (sort) {
+      fields = parseSort(sort);
+      const invalid = fields.find(
+        ({ column }) => !this.sortableColumns.includes(column)
       );
+
+      if (fields.length === 0 || invalid) {
+        const message = `Cannot sort by "${invalid?.column ?? sort}"`;
+        throw new ApiError(message, 422, "VALIDATION_ERROR", {
+          location: "query",
+          errors: [{ field: "sort", message, type: "sort.column" }],
+        });
+      }
     }
+
+    return fields.reduce(
+      (sorted, { column, descending }) =>
+        sorted.orderBy(column as Column<T>, descending ? "DESC" : "ASC"),
+      query
+    );
   }
 
-  async count(whereClause: string = "", params: any[] = []): Promise<number> {
+  findById(id: number): Promise<T | null>;
+  findById(
+    id: number,
+    fields: readonly string[] | undefined
+  ): Promise<Partial<T> | null>;
+  async findById(
+    id: number,
+    fields?: readonly string[]
+  ): Promise<Partial<T> | null> {
     try {
-      let sql = `SELECT COUNT(*) as count FROM ${this.tableName}`;
+      const { sql, params } = this.selectFields(this.query(), fields)
+        .whereRaw("id = ?", [id])
+        .toSQL();
 
-      if (whereClause) {
-        sql += ` WHERE ${whereClause}`;
-      }
+      const result = await database.get<T>(sql, params);
+      return result || null;
+    } catch (error) {
+      throw toApiError(error, `Error finding ${this.tableName} by ID`);
+    }
+  }
+
+  // Without a query, every visible row, newest first
+  findAll(): Promise<T[]>;
+  findAll<E, R>(query: SelectQuery<E, R>): Promise<ResultRow<E, R>[]>;
+  async findAll(
+    query: SelectQuery<any, any> = this.sortBy(this.query(), undefined)
+  ): Promise<unknown[]> {
+    try {
+      const { sql, params } = query.toSQL();
+      return await database.query(sql, params);
+    } catch (error) {
+      throw toApiError(error, `Error finding ${this.tableName} records`);
+    }
+  }
+
+  async findOne<E, R>(
+    query: SelectQuery<E, R>
+  ): Promise<ResultRow<E, R> | null> {
+    try {
+      const { sql, params } = query.toSQL();
+      const result = await database.get<ResultRow<E, R>>(sql, params);
+      return result || null;
+    } catch (error) {
+      throw toApiError(error, `Error finding ${this.tableName} record`);
+    }
+  }
+
+  // Counts the rows `query` matches, ignoring its columns, order and page
+  async count(query: SelectQuery<T, any> = this.query()): Promise<number> {
+    try {
+      const { sql, params } = query.countQuery().toSQL();
 
       const result = await database.get<{ count: number }>(sql, params);
       return result?.count || 0;
     } catch (error) {
-      throw new ApiError(
-        `Error counting ${this.tableName} records: ${error}`,
-        500
-      );
+      throw toApiError(error, `Error counting ${this.tableName} records`);
     }
   }
 
-  async create(data: Partial<T>, fields: string[]): Promise<T> {
-    try {
-      const placeholders = fields.map(() => "?").join(", ");
-      const values = fields.map((field) => (data as any)[field]);
+  // RETURNING id gives drivers without a last insert id (Postgres) the new
+  // row's id as lastID
+  buildInsertQuery(
+    data: Partial<T>,
+    fields: string[],
+    returning: string = "id"
+  ): TransactionQuery {
+    const placeholders = fields.map(() => "?").join(", ");
+    const values = fields.map((field) => (data as any)[field]);
 
-      const sql = `
+    const sql = `
                 INSERT INTO ${this.tableName} (${fields.join(", ")}) 
                 VALUES (${placeholders})
+                RETURNING ${returning}
             `;
 
-      const result = await database.run(sql, values);
+    return { sql, params: values };
+  }
 
-      if (!result.lastID) {
-        throw new ApiError(`Failed to create ${this.tableName} record`, 500);
-      }
+  // Guarded so a transaction fails when the row does not exist or is trashed
+  buildUpdateQuery(
+    id: number,
+    data: Partial<T>,
+    fields: string[]
+  ): TransactionQuery {
+    const setClause = [
+      ...fields.map((field) => `${field} = ?`),
+      this.touchColumns(),
+    ].join(", ");
+    const values = fields.map((field) => (data as any)[field]);
+
+    return {
+      sql: `UPDATE ${this.tableName} SET ${setClause}${this.whereSql(
+        "id = ?"
+      )}`,
+      params: [...values, id],
+      expectChanges: 1,
+    };
+  }
+
+  // Trashes or removes the row like delete(), guarded like buildUpdateQuery
+  buildDeleteQuery(id: number): TransactionQuery {
+    return {
+      sql: this.softDeletes
+        ? `UPDATE ${
+            this.tableName
+          } SET deleted_at = CURRENT_TIMESTAMP, ${this.touchColumns()} WHERE id = ? AND deleted_at IS NULL`
+        : `DELETE FROM ${this.tableName} WHERE id = ?`,
+      params: [id],
+      expectChanges: 1,
+    };
+  }
+
+  async create(data: Partial<T>, fields: string[]): Promise<T> {
+    try {
+      const { sql, params } = this.buildInsertQuery(data, fields, "*");
+      const created = await database.get<T>(sql, params);
 
-      const created = await this.findById(result.lastID);
       if (!created) {
-        throw new ApiError(
-          `Failed to retrieve created ${this.tableName} record`,
-          500
-        );
+        throw new ApiError(`Failed to create ${this.tableName} record`, 500);
       }
 
       return created;
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError(
-        `Error creating ${this.tableName} record: ${error}`,
-        500
-      );
+      throw toApiError(error, `Error creating ${this.tableName} record`);
     }
   }
 
+  // With expectedVersions (from If-Match) the write only happens while the
+  // row is still at one of those versions; otherwise it throws
+  // VersionMismatchError
   async update(
     id: number,
     data: Partial<T>,
-    fields: string[]
+    fields: string[],
+    expectedVersions?: readonly number[]
   ): Promise<T | null> {
     try {
-      const existing = await this.findById(id);
-      if (!existing) {
-        return null;
-      }
+      return await database.withTransaction(async (tx) => {
+        const existing = await this.findById(id);
+        if (!existing) {
+          return null;
+        }
 
-      const setClause = fields.map((field) => `${field} = ?`).join(", ");
-      const values = fields.map((field) => (data as any)[field]);
-      values.push(id);
+        const setClause = fields.map((field) => `${field} = ?`).join(", ");
+        const values = fields.map((field) => (data as any)[field]);
+        values.push(id);
 
-      const sql = `
-                UPDATE ${this.tableName} 
-                SET ${setClause}, updated_at = CURRENT_TIMESTAMP 
-                WHERE id = ?
-            `;
+        let versionCheck = "";
+        if (this.versioned && expectedVersions) {
+          versionCheck = ` AND version IN (${expectedVersions
+            .map(() => "?")
+            .join(", ")})`;
+          values.push(...expectedVersions);
+        }
 
-      const result = await database.run(sql, values);
+        const sql = `
+                  UPDATE ${this.tableName} 
+                  SET ${setClause}, ${this.touchColumns()} 
+                  WHERE id = ?${versionCheck}
+              `;
 
-      if (result.changes === 0) {
-        throw new ApiError(`Failed to update ${this.tableName} record`, 500);
-      }
+        const result = await tx.run(sql, values);
+
+        if (result.changes === 0 && versionCheck) {
+          throw new VersionMismatchError(this.tableName);
+        }
 
-      return await this.findById(id);
+        if (result.changes === 0) {
+          throw new ApiError(`Failed to update ${this.tableName} record`, 500);
+        }
+
+        return this.findById(id);
+      });
     } catch (error) {
-      if (error instanceof ApiError) {
+      if (error instanceof VersionMismatchError) {
         throw error;
       }
-      throw new ApiError(
-        `Error updating ${this.tableName} record: ${error}`,
-        500
-      );
+      throw toApiError(error, `Error updating ${this.tableName} record`);
     }
   }
 
+  // Moves the row to the trash when the repository soft-deletes,
+  // otherwise removes it
   async delete(id: number): Promise<boolean> {
+    if (!this.softDeletes) {
+      return this.forceDelete(id);
+    }
+
+    try {
+      const { sql, params } = this.buildDeleteQuery(id);
+      const result = await database.run(sql, params);
+
+      return result.changes > 0;
+    } catch (error) {
+      throw toApiError(error, `Error deleting ${this.tableName} record`);
+    }
+  }
+
+  // Removes the row whether or not it is in the trash
+  async forceDelete(id: number): Promise<boolean> {
     try {
-      const existing = await this.findById(id);
+      const existing = await this.withTrashed().findById(id);
       if (!existing) {
         return false;
       }
@@ -167,36 +616,57 @@ export abstract class BaseRepository<T> {
 
       return result.changes > 0;
     } catch (error) {
-      throw new ApiError(
-        `Error deleting ${this.tableName} record: ${error}`,
-        500
-      );
+      throw toApiError(error, `Error deleting ${this.tableName} record`);
     }
   }
 
-  async exists(id: number): Promise<boolean> {
+  async restore(id: number): Promise<boolean> {
     try {
-      const result = await database.get<{ count: number }>(
-        `SELECT COUNT(*) as count FROM ${this.tableName} WHERE id = ?`,
+      const result = await database.run(
+        `UPDATE ${
+          this.tableName
+        } SET deleted_at = NULL, ${this.touchColumns()} WHERE id = ? AND deleted_at IS NOT NULL`,
         [id]
       );
-      return (result?.count || 0) > 0;
+
+      return result.changes > 0;
     } catch (error) {
-      throw new ApiError(
-        `Error checking ${this.tableName} existence: ${error}`,
-        500
+      throw toApiError(error, `Error restoring ${this.tableName} record`);
+    }
+  }
+
+  // Permanently removes rows that have been in the trash for at least
+  // `days` days. Returns the number of purged rows.
+  async purgeTrashed(days: number): Promise<number> {
+    try {
+      const result = await database.run(
+        `DELETE FROM ${this.tableName} WHERE deleted_at IS NOT NULL AND deleted_at <= ?`,
+        [toSqlTimestamp(new Date(Date.now() - days * DAY_MS))]
       );
+
+      return result.changes;
+    } catch (error) {
+      throw toApiError(error, `Error purging trashed ${this.tableName}`);
+    }
+  }
+
+  async exists(id: number): Promise<boolean> {
+    try {
+      return (await this.count(this.query().whereRaw("id = ?", [id]))) > 0;
+    } catch (error) {
+      throw toApiError(error, `Error checking ${this.tableName} existence`);
     }
   }
 
-  async findWithPagination(
+  // Pass R = Partial<T> when selecting a subset of `fields`. The page is
+  // taken from `query`, newest first unless it is ordered.
+  async findWithPagination<R = T>(
     page: number = 1,
     limit: number = 10,
-    whereClause: string = "",
-    params: any[] = [],
-    orderBy: string = "created_at DESC"
+    query: SelectQuery<T, any> = this.sortBy(this.query(), undefined),
+    fields?: readonly string[]
   ): Promise<{
-    data: T[];
+    data: R[];
     total: number;
     page: number;
     limit: number;
@@ -205,16 +675,9 @@ export abstract class BaseRepository<T> {
     try {
       const offset = (page - 1) * limit;
 
-      // Get total count
-      const total = await this.count(whereClause, params);
-
-      // Get paginated data
+      const total = await this.count(query);
       const data = await this.findAll(
-        whereClause,
-        params,
-        orderBy,
-        limit,
-        offset
+        this.selectFields(query, fields).limit(limit).offset(offset)
       );
 
       return {
@@ -225,9 +688,99 @@ export abstract class BaseRepository<T> {
         totalPages: Math.ceil(total / limit),
       };
     } catch (error) {
-      throw new ApiError(
-        `Error finding ${this.tableName} with pagination: ${error}`,
-        500
+      throw toApiError(
+        error,
+        `Error finding ${this.tableName} with pagination`
+      );
+    }
+  }
+
+  // Keyset pagination over (created_at, id), newest first. Unlike
+  // findWithPagination, pages stay stable while rows are inserted and the
+  // COUNT(*) only runs when includeTotal is set. `query` must not be
+  // ordered; the cursor decides the order.
+  async findWithCursor<R = T>(
+    { cursor, limit = 10, includeTotal = false }: CursorPaginationParams,
+    query: SelectQuery<T, any> = this.query(),
+    fields?: readonly string[]
+  ): Promise<CursorPage<R>> {
+    try {
+      const position = cursor ? decodeCursor(cursor) : null;
+      const backwards = position?.direction === "prev";
+      const createdAt = "created_at" as Column<T>;
+      const id = "id" as Column<T>;
+
+      let page = query;
+      if (position) {
+        const op = backwards ? ">" : "<";
+        page = page.whereRaw(
+          `created_at ${op} ? OR (created_at = ? AND id ${op} ?)`,
+          [position.createdAt, position.createdAt, position.id]
+        );
+      }
+
+      const order = backwards ? "ASC" : "DESC";
+      // The cursor is built from created_at, so it is selected even when
+      // not requested and stripped again below
+      const stripCreatedAt =
+        fields !== undefined &&
+        fields.length > 0 &&
+        !fields.includes("created_at");
+
+      // One extra row tells whether another page exists
+      const { sql, params } = this.selectFields(
+        page,
+        stripCreatedAt ? [...fields, "created_at"] : fields
+      )
+        .orderBy(createdAt, order)
+        .orderBy(id, order)
+        .limit(limit + 1)
+        .toSQL();
+
+      const rows = await database.query<R & CursorRow>(sql, params);
+      const hasMore = rows.length > limit;
+      const data = rows.slice(0, limit);
+      if (backwards) {
+        data.reverse();
+      }
+
+      const first = data[0];
+      const last = data[data.length - 1];
+      const hasNext = backwards ? position !== null : hasMore;
+      const hasPrev = backwards ? hasMore : position !== null;
+
+      const result: CursorPage<R> = {
+        data: stripCreatedAt
+          ? data.map(({ created_at, ...row }) => row as unknown as R)
+          : data,
+        limit,
+        nextCursor:
+          hasNext && last
+            ? encodeCursor({
+                createdAt: last.created_at,
+                id: last.id,
+                direction: "next",
+              })
+            : null,
+        prevCursor:
+          hasPrev && first
+            ? encodeCursor({
+                createdAt: first.created_at,
+                id: first.id,
+                direction: "prev",
+              })
+            : null,
+      };
+
+      if (includeTotal) {
+        result.total = await this.count(query);
+      }
+
+      return result;
+    } catch (error) {
+      throw toApiError(
+        error,
+        `Error finding ${this.tableName} with cursor pagination`
       );
     }
   }
@@ -239,7 +792,7 @@ export abstract class BaseRepository<T> {
     try {
       return await database.query<R>(sql, params);
     } catch (error) {
-      throw new ApiError(`Error executing query: ${error}`, 500);
+      throw toApiError(error, "Error executing query");
     }
   }
 
@@ -251,7 +804,7 @@ export abstract class BaseRepository<T> {
       const result = await database.get<R>(sql, params);
       return result || null;
     } catch (error) {
-      throw new ApiError(`Error executing single query: ${error}`, 500);
+      throw toApiError(error, "Error executing single query");
     }
   }
 
@@ -262,7 +815,7 @@ export abstract class BaseRepository<T> {
     try {
       return await database.run(sql, params);
     } catch (error) {
-      throw new ApiError(`Error executing command: ${error}`, 500);
+      throw toApiError(error, "Error executing command");
     }
   }
 }
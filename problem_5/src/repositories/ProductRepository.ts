@@ -4,45 +4,78 @@ import {
   ProductFilters,
   CreateProductRequest,
   UpdateProductRequest,
+  CursorPage,
+  CursorPaginationParams,
+  ProductSearchResult,
+  ProductStats,
 } from "../types";
-import { ApiError } from "../middleware/errorHandler";
+import { database, TransactionQuery } from "../database/connection";
+import { SelectQuery } from "../database/queryBuilder";
+import { ApiError, toApiError } from "../middleware/errorHandler";
+import {
+  PRODUCT_COLUMNS,
+  PRODUCT_FILTERABLE_COLUMNS,
+  PRODUCT_SORTABLE_COLUMNS,
+} from "../validation/queryParams";
 
 export type CreateProductData = CreateProductRequest;
 export type UpdateProductData = UpdateProductRequest;
 
+// Turns user input into an FTS5 query: every word becomes a quoted prefix
+// term, so operators and quotes typed by the user are never interpreted.
+// Returns null when the input has no searchable words.
+export const buildFtsQuery = (text: string): string | null => {
+  const terms = text.match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map((term) => `"${term}"*`).join(" ") : null;
+};
+
+const PRODUCT_CREATE_FIELDS = [
+  "name",
+  "description",
+  "price",
+  "category",
+  "stock_quantity",
+  "is_active",
+];
+
+const withCreateDefaults = (productData: CreateProductData) => ({
+  ...productData,
+  is_active: productData.is_active !== undefined ? productData.is_active : true,
+});
+
 export class ProductRepository extends BaseRepository<Product> {
   constructor() {
-    super("products");
+    super("products", {
+      selectableColumns: PRODUCT_COLUMNS,
+      sortableColumns: PRODUCT_SORTABLE_COLUMNS,
+      filterableColumns: PRODUCT_FILTERABLE_COLUMNS,
+      softDeletes: true,
+      versioned: true,
+    });
   }
 
   async createProduct(productData: CreateProductData): Promise<Product> {
     try {
-      const fields = [
-        "name",
-        "description",
-        "price",
-        "category",
-        "stock_quantity",
-        "is_active",
-      ];
-      const data = {
-        ...productData,
-        is_active:
-          productData.is_active !== undefined ? productData.is_active : true,
-      };
-
-      return await this.create(data, fields);
+      return await this.create(
+        withCreateDefaults(productData),
+        PRODUCT_CREATE_FIELDS
+      );
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError(`Error creating product: ${error}`, 500);
+      throw toApiError(error, "Error creating product");
     }
   }
 
+  buildCreateQuery(productData: CreateProductData): TransactionQuery {
+    return this.buildInsertQuery(
+      withCreateDefaults(productData),
+      PRODUCT_CREATE_FIELDS
+    );
+  }
+
   async updateProduct(
     id: number,
-    productData: UpdateProductData
+    productData: UpdateProductData,
+    expectedVersions?: readonly number[]
   ): Promise<Product | null> {
     try {
       const fields = Object.keys(productData).filter(
@@ -53,49 +86,81 @@ export class ProductRepository extends BaseRepository<Product> {
         throw new ApiError("No valid fields to update", 400);
       }
 
-      return await this.update(id, productData, fields);
+      return await this.update(id, productData, fields, expectedVersions);
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError(`Error updating product: ${error}`, 500);
+      throw toApiError(error, "Error updating product");
     }
   }
 
-  async findProductsWithFilters(
+  // Pass R = Partial<Product> when selecting a subset of `fields`
+  async findProductsWithFilters<R extends Partial<Product> = Product>(
     filters: ProductFilters,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    sort?: string,
+    fields?: readonly string[]
   ): Promise<{
-    data: Product[];
+    data: R[];
     total: number;
     page: number;
     limit: number;
     totalPages: number;
   }> {
     try {
-      const { whereClause, params } = this.buildWhereClause(filters);
-
-      return await this.findWithPagination(
+      return await this.findWithPagination<R>(
         page,
         limit,
-        whereClause,
-        params,
-        "created_at DESC"
+        this.sortBy(this.filtered(filters), sort),
+        fields
+      );
+    } catch (error) {
+      throw toApiError(error, "Error finding products with filters");
+    }
+  }
+
+  async findProductsWithCursor<R extends Partial<Product> = Product>(
+    filters: ProductFilters,
+    pagination: CursorPaginationParams,
+    fields?: readonly string[]
+  ): Promise<CursorPage<R>> {
+    try {
+      return await this.findWithCursor<R>(
+        pagination,
+        this.filtered(filters),
+        fields
       );
     } catch (error) {
-      throw new ApiError(`Error finding products with filters: ${error}`, 500);
+      throw toApiError(error, "Error finding products with cursor");
     }
   }
 
+  // Most recently trashed first
+  async findTrashed(
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    data: Product[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const trashed = this.onlyTrashed();
+
+    return trashed.findWithPagination(
+      page,
+      limit,
+      trashed.query().orderBy("deleted_at", "DESC")
+    );
+  }
+
   async findByCategory(category: string): Promise<Product[]> {
     try {
-      return await this.executeQuery<Product>(
-        "SELECT * FROM products WHERE category = ? ORDER BY name ASC",
-        [category]
+      return await this.findAll(
+        this.query().where("category", category).orderBy("name", "ASC")
       );
     } catch (error) {
-      throw new ApiError(`Error finding products by category: ${error}`, 500);
+      throw toApiError(error, "Error finding products by category");
     }
   }
 
@@ -104,122 +169,180 @@ export class ProductRepository extends BaseRepository<Product> {
     maxPrice?: number
   ): Promise<Product[]> {
     try {
-      let sql = "SELECT * FROM products WHERE 1=1";
-      const params: any[] = [];
+      let query = this.query();
 
       if (minPrice !== undefined) {
-        sql += " AND price >= ?";
-        params.push(minPrice);
+        query = query.where("price", ">=", minPrice);
       }
 
       if (maxPrice !== undefined) {
-        sql += " AND price <= ?";
-        params.push(maxPrice);
+        query = query.where("price", "<=", maxPrice);
       }
 
-      sql += " ORDER BY price ASC";
-
-      return await this.executeQuery<Product>(sql, params);
+      return await this.findAll(query.orderBy("price", "ASC"));
     } catch (error) {
-      throw new ApiError(
-        `Error finding products by price range: ${error}`,
-        500
-      );
+      throw toApiError(error, "Error finding products by price range");
     }
   }
 
   async findActiveProducts(): Promise<Product[]> {
     try {
-      return await this.executeQuery<Product>(
-        "SELECT * FROM products WHERE is_active = 1 ORDER BY created_at DESC"
+      return await this.findAll(
+        this.query().where("is_active", true).orderBy("created_at", "DESC")
       );
     } catch (error) {
-      throw new ApiError(`Error finding active products: ${error}`, 500);
+      throw toApiError(error, "Error finding active products");
     }
   }
 
   async findLowStockProducts(threshold: number = 10): Promise<Product[]> {
     try {
-      return await this.executeQuery<Product>(
-        "SELECT * FROM products WHERE stock_quantity <= ? AND is_active = 1 ORDER BY stock_quantity ASC",
-        [threshold]
+      return await this.findAll(
+        this.query()
+          .where("stock_quantity", "<=", threshold)
+          .where("is_active", true)
+          .orderBy("stock_quantity", "ASC")
       );
     } catch (error) {
-      throw new ApiError(`Error finding low stock products: ${error}`, 500);
+      throw toApiError(error, "Error finding low stock products");
     }
   }
 
+  // Products whose full-text index entry matches `match`. The index is an
+  // FTS5 table, which only SQLite has.
+  private matching(match: string): SelectQuery<Product> {
+    if (database.dialect !== "sqlite") {
+      throw new ApiError(
+        `Product search is not available on ${database.dialect}`,
+        501,
+        "NOT_IMPLEMENTED"
+      );
+    }
+
+    return this.query()
+      .join("products_fts", "products.id", "products_fts.rowid")
+      .whereRaw("products_fts MATCH ?", [match]);
+  }
+
   async searchByName(name: string): Promise<Product[]> {
     try {
-      return await this.executeQuery<Product>(
-        "SELECT * FROM products WHERE name LIKE ? ORDER BY name ASC",
-        [`%${name}%`]
+      const match = buildFtsQuery(name);
+      if (!match) {
+        return [];
+      }
+
+      return await this.findAll(
+        this.matching(`name : (${match})`).orderByRaw("bm25(products_fts) ASC")
       );
     } catch (error) {
-      throw new ApiError(`Error searching products by name: ${error}`, 500);
+      throw toApiError(error, "Error searching products by name");
     }
   }
 
-  async getProductStats(): Promise<{
+  // Ranks name matches above category and description matches
+  async searchProducts(
+    text: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    data: ProductSearchResult[];
     total: number;
-    active: number;
-    inactive: number;
-    categories: { category: string; count: number }[];
-    averagePrice: number;
-    totalValue: number;
+    page: number;
+    limit: number;
+    totalPages: number;
   }> {
     try {
-      const totalResult = await this.executeQuerySingle<{ count: number }>(
-        "SELECT COUNT(*) as count FROM products"
-      );
-
-      const activeResult = await this.executeQuerySingle<{ count: number }>(
-        "SELECT COUNT(*) as count FROM products WHERE is_active = 1"
-      );
+      const match = buildFtsQuery(text);
+      if (!match) {
+        return { data: [], total: 0, page, limit, totalPages: 0 };
+      }
 
-      const inactiveResult = await this.executeQuerySingle<{ count: number }>(
-        "SELECT COUNT(*) as count FROM products WHERE is_active = 0"
+      const matches = this.matching(match);
+      const total = await this.count(matches);
+
+      const data = await this.findAll(
+        matches
+          .selectAll()
+          .selectRaw<"snippet", string>(
+            "snippet(products_fts, -1, '<mark>', '</mark>', '…', 12)",
+            "snippet"
+          )
+          .selectRaw<"rank", number>(
+            "bm25(products_fts, 10.0, 1.0, 5.0)",
+            "rank"
+          )
+          .orderBy("rank", "ASC")
+          .limit(limit)
+          .offset((page - 1) * limit)
       );
 
-      const categoriesResult = await this.executeQuery<{
-        category: string;
-        count: number;
-      }>(
-        "SELECT category, COUNT(*) as count FROM products GROUP BY category ORDER BY count DESC"
-      );
+      return {
+        data,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      throw toApiError(error, "Error searching products");
+    }
+  }
 
-      const avgPriceResult = await this.executeQuerySingle<{
-        avg_price: number;
-      }>("SELECT AVG(price) as avg_price FROM products WHERE is_active = 1");
+  async getProductStats(): Promise<ProductStats> {
+    try {
+      const products = this.query();
+      const active = products.where("is_active", true);
 
-      const totalValueResult = await this.executeQuerySingle<{
-        total_value: number;
-      }>(
-        "SELECT SUM(price * stock_quantity) as total_value FROM products WHERE is_active = 1"
+      const totalResult = await this.findOne(products.count());
+      const activeResult = await this.findOne(active.count());
+      const inactiveResult = await this.findOne(
+        products.where("is_active", false).count()
+      );
+      const categoriesResult = await this.findAll(
+        products
+          .select("category")
+          .count()
+          .groupBy("category")
+          .orderBy("count", "DESC")
+      );
+      const avgPriceResult = await this.findOne(
+        active.avg("price", "avg_price")
+      );
+      const totalValueResult = await this.findOne(
+        active.selectRaw<"total_value", number | null>(
+          "SUM(price * stock_quantity)",
+          "total_value"
+        )
       );
 
       return {
         total: totalResult?.count || 0,
         active: activeResult?.count || 0,
         inactive: inactiveResult?.count || 0,
-        categories: categoriesResult || [],
+        categories: categoriesResult as ProductStats["categories"],
         averagePrice: Math.round((avgPriceResult?.avg_price || 0) * 100) / 100,
         totalValue:
           Math.round((totalValueResult?.total_value || 0) * 100) / 100,
       };
     } catch (error) {
-      throw new ApiError(`Error getting product statistics: ${error}`, 500);
+      throw toApiError(error, "Error getting product statistics");
     }
   }
 
   async updateStock(id: number, quantity: number): Promise<Product | null> {
     try {
       if (quantity < 0) {
-        throw new ApiError("Stock quantity cannot be negative", 400);
+        throw new ApiError(
+          "Stock quantity cannot be negative",
+          422,
+          "VALIDATION_ERROR"
+        );
       }
 
       const result = await this.executeCommand(
-        "UPDATE products SET stock_quantity = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        `UPDATE products SET stock_quantity = ?, ${this.touchColumns()}${this.whereSql(
+          "id = ?"
+        )}`,
         [quantity, id]
       );
 
@@ -229,85 +352,86 @@ export class ProductRepository extends BaseRepository<Product> {
 
       return await this.findById(id);
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError(`Error updating product stock: ${error}`, 500);
+      throw toApiError(error, "Error updating product stock");
     }
   }
 
   async deactivate(id: number): Promise<boolean> {
     try {
       const result = await this.executeCommand(
-        "UPDATE products SET is_active = 0, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        `UPDATE products SET is_active = FALSE, ${this.touchColumns()}${this.whereSql(
+          "id = ?"
+        )}`,
         [id]
       );
 
       return result.changes > 0;
     } catch (error) {
-      throw new ApiError(`Error deactivating product: ${error}`, 500);
+      throw toApiError(error, "Error deactivating product");
     }
   }
 
   async activate(id: number): Promise<boolean> {
     try {
       const result = await this.executeCommand(
-        "UPDATE products SET is_active = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        `UPDATE products SET is_active = TRUE, ${this.touchColumns()}${this.whereSql(
+          "id = ?"
+        )}`,
         [id]
       );
 
       return result.changes > 0;
     } catch (error) {
-      throw new ApiError(`Error activating product: ${error}`, 500);
+      throw toApiError(error, "Error activating product");
     }
   }
 
   async getCategories(): Promise<string[]> {
     try {
-      const result = await this.executeQuery<{ category: string }>(
-        "SELECT DISTINCT category FROM products WHERE category IS NOT NULL ORDER BY category ASC"
+      const result = await this.findAll(
+        this.query()
+          .select("category")
+          .distinct()
+          .whereNotNull("category")
+          .orderBy("category", "ASC")
       );
 
-      return result.map((row) => row.category);
+      return result.map((row) => row.category as string);
     } catch (error) {
-      throw new ApiError(`Error getting product categories: ${error}`, 500);
+      throw toApiError(error, "Error getting product categories");
     }
   }
 
-  private buildWhereClause(filters: ProductFilters): {
-    whereClause: string;
-    params: any[];
-  } {
-    const conditions: string[] = [];
-    const params: any[] = [];
+  private filtered(filters: ProductFilters): SelectQuery<Product> {
+    let query = this.query();
 
     if (filters.name) {
-      conditions.push("name LIKE ?");
-      params.push(`%${filters.name}%`);
+      query = query.whereLike("name", `%${filters.name}%`);
     }
 
     if (filters.category) {
-      conditions.push("category = ?");
-      params.push(filters.category);
+      query = query.where("category", filters.category);
     }
 
     if (filters.price_min !== undefined) {
-      conditions.push("price >= ?");
-      params.push(filters.price_min);
+      query = query.where("price", ">=", filters.price_min);
     }
 
     if (filters.price_max !== undefined) {
-      conditions.push("price <= ?");
-      params.push(filters.price_max);
+      query = query.where("price", "<=", filters.price_max);
     }
 
     if (filters.is_active !== undefined) {
-      conditions.push("is_active = ?");
-      params.push(filters.is_active ? 1 : 0);
+      query = query.where("is_active", filters.is_active);
     }
 
-    const whereClause = conditions.length > 0 ? conditions.join(" AND ") : "";
+    if (filters.conditions?.length) {
+      const { whereClause, params } = this.buildFilterClause(
+        filters.conditions
+      );
+      query = query.whereRaw(whereClause, params);
+    }
 
-    return { whereClause, params };
+    return query;
   }
 }
@@ -0,0 +1,78 @@
+import { BaseRepository } from "./BaseRepository";
+import { RefreshToken } from "../types";
+import { TransactionQuery } from "../database/connection";
+import { toApiError } from "../middleware/errorHandler";
+
+export interface CreateRefreshTokenData {
+  user_id: number;
+  token_hash: string;
+  expires_at: string;
+}
+
+const REFRESH_TOKEN_FIELDS = ["user_id", "token_hash", "expires_at"];
+
+export class RefreshTokenRepository extends BaseRepository<RefreshToken> {
+  constructor() {
+    super("refresh_tokens");
+  }
+
+  async createToken(data: CreateRefreshTokenData): Promise<RefreshToken> {
+    try {
+      return await this.create(data, REFRESH_TOKEN_FIELDS);
+    } catch (error) {
+      throw toApiError(error, "Error creating refresh token");
+    }
+  }
+
+  buildCreateQuery(data: CreateRefreshTokenData): TransactionQuery {
+    return this.buildInsertQuery(data, REFRESH_TOKEN_FIELDS);
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    try {
+      return await this.executeQuerySingle<RefreshToken>(
+        "SELECT * FROM refresh_tokens WHERE token_hash = ?",
+        [tokenHash]
+      );
+    } catch (error) {
+      throw toApiError(error, "Error finding refresh token");
+    }
+  }
+
+  // Guarded so a rotation rolls back if the token was revoked or expired
+  // after it was read, e.g. by a concurrent refresh with the same token.
+  buildRevokeQuery(tokenHash: string, now: string): TransactionQuery {
+    return {
+      sql: `UPDATE refresh_tokens SET revoked_at = ?, updated_at = CURRENT_TIMESTAMP
+            WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > ?`,
+      params: [now, tokenHash, now],
+      expectChanges: 1,
+    };
+  }
+
+  async revokeToken(tokenHash: string, now: string): Promise<boolean> {
+    try {
+      const result = await this.executeCommand(
+        "UPDATE refresh_tokens SET revoked_at = ?, updated_at = CURRENT_TIMESTAMP WHERE token_hash = ? AND revoked_at IS NULL",
+        [now, tokenHash]
+      );
+
+      return result.changes > 0;
+    } catch (error) {
+      throw toApiError(error, "Error revoking refresh token");
+    }
+  }
+
+  async revokeAllForUser(userId: number, now: string): Promise<number> {
+    try {
+      const result = await this.executeCommand(
+        "UPDATE refresh_tokens SET revoked_at = ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL",
+        [now, userId]
+      );
+
+      return result.changes;
+    } catch (error) {
+      throw toApiError(error, "Error revoking refresh tokens");
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { BaseRepository } from "./BaseRepository";
+import { ScoreUpdate, LeaderboardEntry } from "../types";
+import { TransactionQuery } from "../database/connection";
+import { toApiError } from "../middleware/errorHandler";
+
+export interface CreateScoreUpdateData {
+  user_id: number;
+  action_token: string;
+  action_type: string;
+  score_increase: number;
+  client_ip?: string;
+  session_id?: string;
+}
+
+const SCORE_UPDATE_FIELDS = [
+  "user_id",
+  "action_token",
+  "action_type",
+  "score_increase",
+  "client_ip",
+  "session_id",
+];
+
+export interface UserStanding {
+  score: number;
+  rank: number;
+}
+
+// Per-user totals ranked by score; ties go to whoever reached the score first.
+const RANKED_TOTALS_SQL = `
+  SELECT
+    user_id,
+    score,
+    last_updated,
+    ROW_NUMBER() OVER (ORDER BY score DESC, last_updated ASC, user_id ASC) AS rank
+  FROM (
+    SELECT user_id, SUM(score_increase) AS score, MAX(created_at) AS last_updated
+    FROM score_updates
+    GROUP BY user_id
+  ) AS totals
+`;
+
+export class ScoreRepository extends BaseRepository<ScoreUpdate> {
+  constructor() {
+    super("score_updates");
+  }
+
+  async recordScoreUpdate(data: CreateScoreUpdateData): Promise<ScoreUpdate> {
+    try {
+      return await this.create(data, SCORE_UPDATE_FIELDS);
+    } catch (error) {
+      throw toApiError(error, "Error recording score update");
+    }
+  }
+
+  buildRecordQuery(data: CreateScoreUpdateData): TransactionQuery {
+    return this.buildInsertQuery(data, SCORE_UPDATE_FIELDS);
+  }
+
+  async findByActionToken(actionToken: string): Promise<ScoreUpdate | null> {
+    try {
+      return await this.executeQuerySingle<ScoreUpdate>(
+        "SELECT * FROM score_updates WHERE action_token = ?",
+        [actionToken]
+      );
+    } catch (error) {
+      throw toApiError(error, "Error finding score update by token");
+    }
+  }
+
+  async getUserStanding(userId: number): Promise<UserStanding | null> {
+    try {
+      return await this.executeQuerySingle<UserStanding>(
+        `SELECT score, rank FROM (${RANKED_TOTALS_SQL}) AS ranked WHERE user_id = ?`,
+        [userId]
+      );
+    } catch (error) {
+      throw toApiError(error, "Error getting user standing");
+    }
+  }
+
+  async getTopScores(limit: number = 10): Promise<LeaderboardEntry[]> {
+    try {
+      const rows = await this.executeQuery<{
+        rank: number;
+        user_id: number;
+        username: string;
+        score: number;
+        last_updated: string;
+      }>(
+        `SELECT ranked.rank, ranked.user_id, users.name AS username, ranked.score, ranked.last_updated
+         FROM (${RANKED_TOTALS_SQL}) AS ranked
+         JOIN users ON users.id = ranked.user_id
+         ORDER BY ranked.rank ASC
+         LIMIT ?`,
+        [limit]
+      );
+
+      return rows.map((row) => ({
+        rank: row.rank,
+        userId: row.user_id,
+        username: row.username,
+        score: row.score,
+        lastUpdated: row.last_updated,
+      }));
+    } catch (error) {
+      throw toApiError(error, "Error getting top scores");
+    }
+  }
+}
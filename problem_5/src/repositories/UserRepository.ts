@@ -4,172 +4,305 @@ import {
   UserFilters,
   CreateUserRequest,
   UpdateUserRequest,
+  CursorPage,
+  CursorPaginationParams,
+  UserStats,
 } from "../types";
-import { ApiError } from "../middleware/errorHandler";
+import { database, TransactionQuery } from "../database/connection";
+import { SelectQuery, selectFrom } from "../database/queryBuilder";
+import { ApiError, toApiError } from "../middleware/errorHandler";
+import { VersionMismatchError } from "./errors";
+import {
+  USER_COLUMNS,
+  USER_FILTERABLE_COLUMNS,
+  USER_SORTABLE_COLUMNS,
+} from "../validation/queryParams";
 
 export type CreateUserData = CreateUserRequest;
 export type UpdateUserData = UpdateUserRequest;
 
+interface UserCredentials {
+  user_id: number;
+  password_hash: string;
+}
+
+const USER_CREATE_FIELDS = ["name", "email", "age", "status"];
+
+const withCreateDefaults = (userData: CreateUserData) => ({
+  ...userData,
+  status: userData.status || "active",
+});
+
 export class UserRepository extends BaseRepository<User> {
   constructor() {
-    super("users");
+    super("users", {
+      selectableColumns: USER_COLUMNS,
+      sortableColumns: USER_SORTABLE_COLUMNS,
+      filterableColumns: USER_FILTERABLE_COLUMNS,
+      versioned: true,
+    });
   }
 
-  async createUser(userData: CreateUserData): Promise<User> {
+  async createUser(
+    userData: CreateUserData,
+    passwordHash?: string
+  ): Promise<User> {
     try {
-      // Check if email already exists
-      const existingUser = await this.findByEmail(userData.email);
-      if (existingUser) {
-        throw new ApiError("Email already exists", 400);
-      }
+      // The check and the insert share a transaction so another request
+      // cannot take the email in between, and the password is saved with
+      // the user or not at all
+      return await database.withTransaction(async () => {
+        const existingUser = await this.findByEmail(userData.email);
+        if (existingUser) {
+          throw new ApiError("Email already exists", 409, "CONFLICT");
+        }
 
-      const fields = ["name", "email", "age", "status"];
-      const data = {
-        ...userData,
-        status: userData.status || "active",
-      };
+        const user = await this.create(
+          withCreateDefaults(userData),
+          USER_CREATE_FIELDS
+        );
 
-      return await this.create(data, fields);
+        if (passwordHash) {
+          await this.setPasswordHash(user.id, passwordHash);
+        }
+
+        return user;
+      });
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError(`Error creating user: ${error}`, 500);
+      throw toApiError(error, "Error creating user");
     }
   }
 
-  async updateUser(id: number, userData: UpdateUserData): Promise<User | null> {
+  // The profile and the new password, if any, are saved together or not at
+  // all
+  async updateUser(
+    id: number,
+    userData: UpdateUserData,
+    expectedVersions?: readonly number[],
+    passwordHash?: string
+  ): Promise<User | null> {
     try {
-      // If email is being updated, check for conflicts
-      if (userData.email) {
-        const existingUser = await this.findByEmail(userData.email);
-        if (existingUser && existingUser.id !== id) {
-          throw new ApiError("Email already exists", 400);
-        }
-      }
-
       const fields = Object.keys(userData).filter(
         (key) => userData[key as keyof UpdateUserData] !== undefined
       );
 
-      if (fields.length === 0) {
+      if (fields.length === 0 && !passwordHash) {
         throw new ApiError("No valid fields to update", 400);
       }
 
-      return await this.update(id, userData, fields);
+      return await database.withTransaction(async () => {
+        // If email is being updated, check for conflicts
+        if (userData.email) {
+          const existingUser = await this.findByEmail(userData.email);
+          if (existingUser && existingUser.id !== id) {
+            throw new ApiError("Email already exists", 409, "CONFLICT");
+          }
+        }
+
+        // A password-only update leaves the users row untouched, so its
+        // version is checked here rather than by update()
+        const user =
+          fields.length > 0
+            ? await this.update(id, userData, fields, expectedVersions)
+            : await this.findById(id);
+
+        if (!user) {
+          return null;
+        }
+
+        if (
+          fields.length === 0 &&
+          expectedVersions &&
+          !expectedVersions.includes(user.version)
+        ) {
+          throw new VersionMismatchError(this.tableName);
+        }
+
+        if (passwordHash) {
+          await this.setPasswordHash(user.id, passwordHash);
+        }
+
+        return user;
+      });
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError(`Error updating user: ${error}`, 500);
+      throw toApiError(error, "Error updating user");
     }
   }
 
   async findByEmail(email: string): Promise<User | null> {
     try {
-      return await this.executeQuerySingle<User>(
-        "SELECT * FROM users WHERE email = ?",
-        [email]
+      return await this.findOne(this.query().where("email", email));
+    } catch (error) {
+      throw toApiError(error, "Error finding user by email");
+    }
+  }
+
+  async isActive(id: number): Promise<boolean> {
+    try {
+      return (
+        (await this.count(
+          this.query().where("id", id).where("status", "active")
+        )) > 0
       );
     } catch (error) {
-      throw new ApiError(`Error finding user by email: ${error}`, 500);
+      throw toApiError(error, "Error checking user status");
     }
   }
 
-  async findUsersWithFilters(
+  async findPasswordHash(userId: number): Promise<string | null> {
+    try {
+      const result = await this.findOne(
+        selectFrom<UserCredentials>("user_credentials")
+          .select("password_hash")
+          .where("user_id", userId)
+      );
+
+      return result?.password_hash || null;
+    } catch (error) {
+      throw toApiError(error, "Error finding user credentials");
+    }
+  }
+
+  // Unlike createUser, email conflicts surface as the UNIQUE constraint
+  // failing when the queries run
+  buildCreateQueries(
+    userData: CreateUserData,
+    passwordHash?: string
+  ): TransactionQuery[] {
+    const insert = this.buildInsertQuery(
+      withCreateDefaults(userData),
+      USER_CREATE_FIELDS
+    );
+
+    return passwordHash
+      ? [
+          insert,
+          this.buildPasswordHashQuery({ email: userData.email }, passwordHash),
+        ]
+      : [insert];
+  }
+
+  // Pass { email } for a user inserted earlier in the same transaction,
+  // whose id is not known yet
+  buildPasswordHashQuery(
+    user: number | { email: string },
+    passwordHash: string
+  ): TransactionQuery {
+    const byEmail = typeof user !== "number";
+
+    return {
+      sql: `INSERT INTO user_credentials (user_id, password_hash) VALUES (${
+        byEmail ? "(SELECT id FROM users WHERE email = ?)" : "?"
+      }, ?)
+         ON CONFLICT(user_id) DO UPDATE SET
+           password_hash = excluded.password_hash,
+           updated_at = CURRENT_TIMESTAMP`,
+      params: [byEmail ? user.email : user, passwordHash],
+    };
+  }
+
+  async setPasswordHash(userId: number, passwordHash: string): Promise<void> {
+    try {
+      const { sql, params } = this.buildPasswordHashQuery(userId, passwordHash);
+      await this.executeCommand(sql, params);
+    } catch (error) {
+      throw toApiError(error, "Error saving user credentials");
+    }
+  }
+
+  // Pass R = Partial<User> when selecting a subset of `fields`
+  async findUsersWithFilters<R extends Partial<User> = User>(
     filters: UserFilters,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    sort?: string,
+    fields?: readonly string[]
   ): Promise<{
-    data: User[];
+    data: R[];
     total: number;
     page: number;
     limit: number;
     totalPages: number;
   }> {
     try {
-      const { whereClause, params } = this.buildWhereClause(filters);
-
-      return await this.findWithPagination(
+      return await this.findWithPagination<R>(
         page,
         limit,
-        whereClause,
-        params,
-        "created_at DESC"
+        this.sortBy(this.filtered(filters), sort),
+        fields
       );
     } catch (error) {
-      throw new ApiError(`Error finding users with filters: ${error}`, 500);
+      throw toApiError(error, "Error finding users with filters");
+    }
+  }
+
+  async findUsersWithCursor<R extends Partial<User> = User>(
+    filters: UserFilters,
+    pagination: CursorPaginationParams,
+    fields?: readonly string[]
+  ): Promise<CursorPage<R>> {
+    try {
+      return await this.findWithCursor<R>(
+        pagination,
+        this.filtered(filters),
+        fields
+      );
+    } catch (error) {
+      throw toApiError(error, "Error finding users with cursor");
     }
   }
 
   async findByStatus(status: "active" | "inactive"): Promise<User[]> {
     try {
-      return await this.executeQuery<User>(
-        "SELECT * FROM users WHERE status = ? ORDER BY created_at DESC",
-        [status]
+      return await this.findAll(
+        this.query().where("status", status).orderBy("created_at", "DESC")
       );
     } catch (error) {
-      throw new ApiError(`Error finding users by status: ${error}`, 500);
+      throw toApiError(error, "Error finding users by status");
     }
   }
 
   async findByAgeRange(minAge?: number, maxAge?: number): Promise<User[]> {
     try {
-      let sql = "SELECT * FROM users WHERE 1=1";
-      const params: any[] = [];
+      let query = this.query();
 
       if (minAge !== undefined) {
-        sql += " AND age >= ?";
-        params.push(minAge);
+        query = query.where("age", ">=", minAge);
       }
 
       if (maxAge !== undefined) {
-        sql += " AND age <= ?";
-        params.push(maxAge);
+        query = query.where("age", "<=", maxAge);
       }
 
-      sql += " ORDER BY age ASC";
-
-      return await this.executeQuery<User>(sql, params);
+      return await this.findAll(query.orderBy("age", "ASC"));
     } catch (error) {
-      throw new ApiError(`Error finding users by age range: ${error}`, 500);
+      throw toApiError(error, "Error finding users by age range");
     }
   }
 
   async searchByName(name: string): Promise<User[]> {
     try {
-      return await this.executeQuery<User>(
-        "SELECT * FROM users WHERE name LIKE ? ORDER BY name ASC",
-        [`%${name}%`]
+      return await this.findAll(
+        this.query().whereLike("name", `%${name}%`).orderBy("name", "ASC")
       );
     } catch (error) {
-      throw new ApiError(`Error searching users by name: ${error}`, 500);
+      throw toApiError(error, "Error searching users by name");
     }
   }
 
-  async getUserStats(): Promise<{
-    total: number;
-    active: number;
-    inactive: number;
-    averageAge: number;
-  }> {
+  async getUserStats(): Promise<UserStats> {
     try {
-      const totalResult = await this.executeQuerySingle<{ count: number }>(
-        "SELECT COUNT(*) as count FROM users"
-      );
+      const users = this.query();
 
-      const activeResult = await this.executeQuerySingle<{ count: number }>(
-        "SELECT COUNT(*) as count FROM users WHERE status = ?",
-        ["active"]
+      const totalResult = await this.findOne(users.count());
+      const activeResult = await this.findOne(
+        users.count().where("status", "active")
       );
-
-      const inactiveResult = await this.executeQuerySingle<{ count: number }>(
-        "SELECT COUNT(*) as count FROM users WHERE status = ?",
-        ["inactive"]
+      const inactiveResult = await this.findOne(
+        users.count().where("status", "inactive")
       );
-
-      const avgAgeResult = await this.executeQuerySingle<{ avg_age: number }>(
-        "SELECT AVG(age) as avg_age FROM users WHERE age IS NOT NULL"
+      const avgAgeResult = await this.findOne(
+        users.avg("age", "avg_age").whereNotNull("age")
       );
 
       return {
@@ -179,70 +312,73 @@ export class UserRepository extends BaseRepository<User> {
         averageAge: Math.round(avgAgeResult?.avg_age || 0),
       };
     } catch (error) {
-      throw new ApiError(`Error getting user statistics: ${error}`, 500);
+      throw toApiError(error, "Error getting user statistics");
     }
   }
 
+  // Users are deactivated rather than trashed; guarded like buildUpdateQuery
+  buildSoftDeleteQuery(id: number): TransactionQuery {
+    return {
+      sql: `UPDATE users SET status = ?, ${this.touchColumns()} WHERE id = ?`,
+      params: ["inactive", id],
+      expectChanges: 1,
+    };
+  }
+
   async softDelete(id: number): Promise<boolean> {
     try {
-      const result = await this.executeCommand(
-        "UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
-        ["inactive", id]
-      );
+      const { sql, params } = this.buildSoftDeleteQuery(id);
+      const result = await this.executeCommand(sql, params);
 
       return result.changes > 0;
     } catch (error) {
-      throw new ApiError(`Error soft deleting user: ${error}`, 500);
+      throw toApiError(error, "Error soft deleting user");
     }
   }
 
   async reactivate(id: number): Promise<boolean> {
     try {
       const result = await this.executeCommand(
-        "UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        `UPDATE users SET status = ?, ${this.touchColumns()} WHERE id = ?`,
         ["active", id]
       );
 
       return result.changes > 0;
     } catch (error) {
-      throw new ApiError(`Error reactivating user: ${error}`, 500);
+      throw toApiError(error, "Error reactivating user");
     }
   }
 
-  private buildWhereClause(filters: UserFilters): {
-    whereClause: string;
-    params: any[];
-  } {
-    const conditions: string[] = [];
-    const params: any[] = [];
+  private filtered(filters: UserFilters): SelectQuery<User> {
+    let query = this.query();
 
     if (filters.name) {
-      conditions.push("name LIKE ?");
-      params.push(`%${filters.name}%`);
+      query = query.whereLike("name", `%${filters.name}%`);
     }
 
     if (filters.email) {
-      conditions.push("email LIKE ?");
-      params.push(`%${filters.email}%`);
+      query = query.whereLike("email", `%${filters.email}%`);
     }
 
     if (filters.status) {
-      conditions.push("status = ?");
-      params.push(filters.status);
+      query = query.where("status", filters.status);
     }
 
     if (filters.age_min !== undefined) {
-      conditions.push("age >= ?");
-      params.push(filters.age_min);
+      query = query.where("age", ">=", filters.age_min);
     }
 
     if (filters.age_max !== undefined) {
-      conditions.push("age <= ?");
-      params.push(filters.age_max);
+      query = query.where("age", "<=", filters.age_max);
     }
 
-    const whereClause = conditions.length > 0 ? conditions.join(" AND ") : "";
+    if (filters.conditions?.length) {
+      const { whereClause, params } = this.buildFilterClause(
+        filters.conditions
+      );
+      query = query.whereRaw(whereClause, params);
+    }
 
-    return { whereClause, params };
+    return query;
   }
 }
@@ -0,0 +1,8 @@
+// Thrown by versioned updates when the row is no longer at any of the
+// versions the caller read; toApiError answers it with 412
+export class VersionMismatchError extends Error {
+  constructor(public tableName: string) {
+    super(`The ${tableName} record has been modified since it was read`);
+    this.name = "VersionMismatchError";
+  }
+}
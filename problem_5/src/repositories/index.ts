@@ -1,9 +1,19 @@
 export { BaseRepository } from "./BaseRepository";
 export { UserRepository } from "./UserRepository";
 export { ProductRepository } from "./ProductRepository";
+export { ScoreRepository } from "./ScoreRepository";
+export { ActionTokenRepository } from "./ActionTokenRepository";
+export { RefreshTokenRepository } from "./RefreshTokenRepository";
+export { VersionMismatchError } from "./errors";
 
 import { UserRepository } from "./UserRepository";
 import { ProductRepository } from "./ProductRepository";
+import { ScoreRepository } from "./ScoreRepository";
+import { ActionTokenRepository } from "./ActionTokenRepository";
+import { RefreshTokenRepository } from "./RefreshTokenRepository";
 
 export const userRepository = new UserRepository();
 export const productRepository = new ProductRepository();
+export const scoreRepository = new ScoreRepository();
+export const actionTokenRepository = new ActionTokenRepository();
+export const refreshTokenRepository = new RefreshTokenRepository();
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import { AuthController } from "../controllers/authController";
+import { validateLogin, validateRefreshToken } from "../middleware/validation";
+import { rateLimit } from "../middleware/rateLimit";
+
+const router = Router();
+
+// Slows down password guessing from a single client
+const loginRateLimit = rateLimit({
+  name: "login",
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+  keyBy: "ip",
+});
+
+router.post("/login", loginRateLimit, validateLogin, AuthController.login);
+
+router.post("/refresh", validateRefreshToken, AuthController.refresh);
+
+router.post("/logout", validateRefreshToken, AuthController.logout);
+
+export default router;
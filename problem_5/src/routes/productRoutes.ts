@@ -1,22 +1,54 @@
 import { Router } from 'express';
 import { ProductController } from '../controllers/productController';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { parseIfMatch } from '../middleware/conditional';
 import {
     validateCreateProduct,
     validateUpdateProduct,
     validateProductQuery,
-    validateIdParam
+    validateIdParam,
+    validateProductFields,
+    validateProductSearch,
+    validateLowStockQuery,
+    validateUpdateStock,
+    validateTrashQuery,
+    validateDeleteQuery,
+    validatePatchMediaType,
+    validateBulkOperations
 } from '../middleware/validation';
 
 const router = Router();
 
 router.get('/', validateProductQuery, ProductController.getProducts);
 
-router.post('/', validateCreateProduct, ProductController.createProduct);
+router.post('/', requireAuth, requireRole('admin', 'editor'), validateCreateProduct, ProductController.createProduct);
 
-router.get('/:id', validateIdParam, ProductController.getProductById);
+router.get('/search', validateProductSearch, ProductController.searchProducts);
 
-router.put('/:id', validateIdParam, validateUpdateProduct, ProductController.updateProduct);
+router.get('/categories', ProductController.getCategories);
 
-router.delete('/:id', validateIdParam, ProductController.deleteProduct);
+router.get('/stats', requireAuth, requireRole('admin', 'editor'), ProductController.getProductStats);
+
+router.get('/low-stock', requireAuth, requireRole('admin', 'editor'), validateLowStockQuery, ProductController.getLowStockProducts);
+
+router.post('/bulk', requireAuth, requireRole('admin', 'editor'), validateBulkOperations, ProductController.bulkProducts);
+
+router.get('/trash', requireAuth, requireRole('admin', 'editor'), validateTrashQuery, ProductController.getTrashedProducts);
+
+router.get('/:id', validateIdParam, validateProductFields, ProductController.getProductById);
+
+router.put('/:id', requireAuth, validateIdParam, requireRole('admin', 'editor'), parseIfMatch, validateUpdateProduct, ProductController.updateProduct);
+
+router.patch('/:id', requireAuth, validateIdParam, requireRole('admin', 'editor'), parseIfMatch, validatePatchMediaType, ProductController.patchProduct);
+
+router.patch('/:id/stock', requireAuth, validateIdParam, requireRole('admin', 'editor'), validateUpdateStock, ProductController.updateStock);
+
+router.post('/:id/activate', requireAuth, validateIdParam, requireRole('admin', 'editor'), ProductController.activateProduct);
+
+router.post('/:id/deactivate', requireAuth, validateIdParam, requireRole('admin', 'editor'), ProductController.deactivateProduct);
+
+router.post('/:id/restore', requireAuth, validateIdParam, requireRole('admin', 'editor'), ProductController.restoreProduct);
+
+router.delete('/:id', requireAuth, validateIdParam, requireRole('admin', 'editor'), validateDeleteQuery, ProductController.deleteProduct);
 
 export default router;
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { ScoreController } from "../controllers/scoreController";
+import { validateScoreUpdate } from "../middleware/validation";
+import { requireAuth } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+
+const router = Router();
+
+const MINUTE_MS = 60 * 1000;
+
+// At most 10 score updates per minute per user; three violations within
+// ten minutes suspend the user for fifteen minutes
+const scoreUpdateRateLimit = rateLimit({
+  name: "score-update",
+  limit: 10,
+  windowMs: MINUTE_MS,
+  keyBy: "user",
+  suspension: {
+    violations: 3,
+    windowMs: 10 * MINUTE_MS,
+    durationMs: 15 * MINUTE_MS,
+  },
+});
+
+router.post(
+  "/scores/update",
+  requireAuth,
+  scoreUpdateRateLimit,
+  validateScoreUpdate,
+  ScoreController.updateScore
+);
+
+router.get("/scoreboard/top10", ScoreController.getTopScores);
+
+export default router;
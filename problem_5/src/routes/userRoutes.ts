@@ -1,26 +1,86 @@
 import { Router } from "express";
 import { UserController } from "../controllers/userController";
+import {
+  requireAuth,
+  requireRole,
+  requireSelfOrRole,
+} from "../middleware/auth";
+import { parseIfMatch } from "../middleware/conditional";
 import {
   validateCreateUser,
   validateUpdateUser,
   validateIdParam,
+  validateUserFields,
+  validateDeleteQuery,
+  validateUserQuery,
+  validatePatchMediaType,
+  validateBulkOperations,
 } from "../middleware/validation";
 
 const router = Router();
 
-router.get("/", UserController.getUsers);
+router.get("/", requireAuth, validateUserQuery, UserController.getUsers);
 
 router.post("/", validateCreateUser, UserController.createUser);
 
-router.get("/:id", validateIdParam, UserController.getUserById);
+router.post(
+  "/bulk",
+  requireAuth,
+  requireRole("admin"),
+  validateBulkOperations,
+  UserController.bulkUsers
+);
+
+router.get(
+  "/stats",
+  requireAuth,
+  requireRole("admin"),
+  UserController.getUserStats
+);
+
+router.get(
+  "/:id",
+  requireAuth,
+  validateIdParam,
+  validateUserFields,
+  UserController.getUserById
+);
 
 router.put(
   "/:id",
+  requireAuth,
   validateIdParam,
+  requireSelfOrRole("admin"),
+  parseIfMatch,
   validateUpdateUser,
   UserController.updateUser
 );
 
-router.delete("/:id", validateIdParam, UserController.deleteUser);
+router.patch(
+  "/:id",
+  requireAuth,
+  validateIdParam,
+  requireSelfOrRole("admin"),
+  parseIfMatch,
+  validatePatchMediaType,
+  UserController.patchUser
+);
+
+router.delete(
+  "/:id",
+  requireAuth,
+  validateIdParam,
+  requireSelfOrRole("admin"),
+  validateDeleteQuery,
+  UserController.deleteUser
+);
+
+router.post(
+  "/:id/reactivate",
+  requireAuth,
+  validateIdParam,
+  requireRole("admin"),
+  UserController.reactivateUser
+);
 
 export default router;
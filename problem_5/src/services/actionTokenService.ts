@@ -0,0 +1,198 @@
+import crypto from "crypto";
+import {
+  database,
+  TransactionGuardError,
+  TransactionQuery,
+} from "../database/connection";
+import { actionTokenRepository } from "../repositories";
+import { ApiError } from "../middleware/errorHandler";
+import { ActionTokenClaims, IssuedActionToken } from "../types";
+
+export const INVALID_ACTION_TOKEN = "INVALID_ACTION_TOKEN";
+export const INVALID_ACTION_TYPE = "INVALID_ACTION_TYPE";
+
+// What each action is worth. Clients only name the action they completed;
+// the score value is decided here and sealed into the token.
+export const DAILY_LOGIN = "daily_login";
+
+export const ACTION_SCORE_VALUES: Readonly<Record<string, number>> = {
+  [DAILY_LOGIN]: 10,
+  quest_completed: 50,
+  level_completed: 100,
+};
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+export interface ActionTokenServiceOptions {
+  secret?: string;
+  ttlMs?: number;
+}
+
+const invalidToken = (message: string) =>
+  new ApiError(message, 400, INVALID_ACTION_TOKEN);
+
+export const hashActionToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export class ActionTokenService {
+  private secret?: string;
+  private ttlMs: number;
+
+  constructor(options: ActionTokenServiceOptions = {}) {
+    this.secret = options.secret;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  async issue(
+    userId: number,
+    actionType: string,
+    scoreValue: number
+  ): Promise<IssuedActionToken> {
+    const expiresAt = new Date(Date.now() + this.ttlMs);
+    const claims: ActionTokenClaims = {
+      userId,
+      actionType,
+      scoreValue,
+      expiresAt: expiresAt.getTime(),
+      nonce: crypto.randomBytes(16).toString("hex"),
+    };
+
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    const token = `${payload}.${this.sign(payload)}`;
+
+    await actionTokenRepository.createToken({
+      token_hash: hashActionToken(token),
+      user_id: userId,
+      action_type: actionType,
+      score_value: scoreValue,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    return { token, expiresAt: expiresAt.toISOString() };
+  }
+
+  // Issues a token for an action the user has just completed, worth the
+  // score value listed for its type in ACTION_SCORE_VALUES. Only call it
+  // once the server itself has confirmed the action; clients never choose
+  // what they are credited for.
+  async issueForAction(
+    userId: number,
+    actionType: string
+  ): Promise<IssuedActionToken> {
+    if (
+      !Object.prototype.hasOwnProperty.call(ACTION_SCORE_VALUES, actionType)
+    ) {
+      throw new ApiError(
+        `Unknown action type "${actionType}"`,
+        400,
+        INVALID_ACTION_TYPE
+      );
+    }
+
+    return this.issue(userId, actionType, ACTION_SCORE_VALUES[actionType]);
+  }
+
+  // Called on login: the first login of each UTC day earns a daily_login
+  // token, later ones that day get null. The check and the insert share a
+  // transaction, so concurrent logins cannot both earn one.
+  async issueDailyLogin(userId: number): Promise<IssuedActionToken | null> {
+    const dayStart = new Date();
+    dayStart.setUTCHours(0, 0, 0, 0);
+
+    return database.withTransaction(async () => {
+      if (
+        await actionTokenRepository.hasIssuedSince(
+          userId,
+          DAILY_LOGIN,
+          dayStart
+        )
+      ) {
+        return null;
+      }
+      return this.issueForAction(userId, DAILY_LOGIN);
+    });
+  }
+
+  verify(token: string): ActionTokenClaims {
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0) {
+      throw invalidToken("Malformed action token");
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      throw invalidToken("Invalid action token signature");
+    }
+
+    let claims: ActionTokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    } catch {
+      throw invalidToken("Malformed action token");
+    }
+
+    if (claims.expiresAt <= Date.now()) {
+      throw invalidToken("Action token has expired");
+    }
+
+    return claims;
+  }
+
+  // Verifies the token and marks it used in the same transaction as the
+  // statements produced by `buildQueries`, so a replayed or expired token
+  // never lets those statements through.
+  async consume(
+    token: string,
+    expected: { userId: number; actionType: string },
+    buildQueries: (claims: ActionTokenClaims) => TransactionQuery[] = () => []
+  ): Promise<ActionTokenClaims> {
+    const claims = this.verify(token);
+
+    if (
+      claims.userId !== expected.userId ||
+      claims.actionType !== expected.actionType
+    ) {
+      throw invalidToken("Action token was not issued for this action");
+    }
+
+    try {
+      await database.transaction([
+        actionTokenRepository.buildConsumeQuery(
+          hashActionToken(token),
+          claims.userId,
+          claims.actionType,
+          new Date().toISOString()
+        ),
+        ...buildQueries(claims),
+      ]);
+    } catch (error) {
+      if (error instanceof TransactionGuardError) {
+        throw invalidToken("The provided action token is invalid or expired");
+      }
+      throw error;
+    }
+
+    return claims;
+  }
+
+  private sign(payload: string): string {
+    return crypto
+      .createHmac("sha256", this.getSecret())
+      .update(payload)
+      .digest("base64url");
+  }
+
+  private getSecret(): string {
+    const secret = this.secret ?? process.env.ACTION_TOKEN_SECRET;
+    if (!secret) {
+      throw new ApiError("ACTION_TOKEN_SECRET is not configured", 500);
+    }
+    return secret;
+  }
+}
+
+export const actionTokenService = new ActionTokenService();
@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import { database, TransactionGuardError } from "../database/connection";
+import { refreshTokenRepository, userRepository } from "../repositories";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  getAccessTokenTtlSeconds,
+  signAccessToken,
+  UNAUTHORIZED,
+} from "./jwtService";
+import { verifyPassword } from "./passwordService";
+import { actionTokenService } from "./actionTokenService";
+import { AuthSession, AuthTokens, User } from "../types";
+
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const unauthorized = (message: string) =>
+  new ApiError(message, 401, UNAUTHORIZED);
+
+const hashRefreshToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const generateRefreshToken = (): string =>
+  crypto.randomBytes(48).toString("base64url");
+
+const getRefreshTokenExpiry = (): string => {
+  const days =
+    parseInt(process.env.JWT_REFRESH_TOKEN_TTL_DAYS || "") ||
+    DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+  return new Date(Date.now() + days * DAY_MS).toISOString();
+};
+
+export class AuthService {
+  async login(email: string, password: string): Promise<AuthSession> {
+    const user = await userRepository.findByEmail(email);
+    const passwordHash = user
+      ? await userRepository.findPasswordHash(user.id)
+      : null;
+
+    if (
+      !user ||
+      !passwordHash ||
+      !(await verifyPassword(password, passwordHash))
+    ) {
+      throw unauthorized("Invalid email or password");
+    }
+
+    if (user.status !== "active") {
+      throw unauthorized("Account is inactive");
+    }
+
+    const refreshToken = generateRefreshToken();
+    await refreshTokenRepository.createToken({
+      user_id: user.id,
+      token_hash: hashRefreshToken(refreshToken),
+      expires_at: getRefreshTokenExpiry(),
+    });
+
+    const dailyLoginToken = await actionTokenService.issueDailyLogin(user.id);
+
+    return { ...this.buildTokens(user, refreshToken), user, dailyLoginToken };
+  }
+
+  // Refresh tokens are single-use: each refresh revokes the presented token
+  // and issues a new one. Presenting an already revoked token is treated as
+  // theft and revokes every session the user has.
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const tokenHash = hashRefreshToken(refreshToken);
+    const now = new Date().toISOString();
+
+    const stored = await refreshTokenRepository.findByHash(tokenHash);
+    if (!stored) {
+      throw unauthorized("Invalid refresh token");
+    }
+
+    if (stored.revoked_at) {
+      await refreshTokenRepository.revokeAllForUser(stored.user_id, now);
+      throw unauthorized("Refresh token has been revoked");
+    }
+
+    if (stored.expires_at <= now) {
+      throw unauthorized("Refresh token has expired");
+    }
+
+    const user = await userRepository.findById(stored.user_id);
+    if (!user || user.status !== "active") {
+      throw unauthorized("Account is inactive");
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+
+    try {
+      await database.transaction([
+        refreshTokenRepository.buildRevokeQuery(tokenHash, now),
+        refreshTokenRepository.buildCreateQuery({
+          user_id: user.id,
+          token_hash: hashRefreshToken(nextRefreshToken),
+          expires_at: getRefreshTokenExpiry(),
+        }),
+      ]);
+    } catch (error) {
+      if (error instanceof TransactionGuardError) {
+        throw unauthorized("Refresh token has been revoked");
+      }
+      throw error;
+    }
+
+    return this.buildTokens(user, nextRefreshToken);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    await refreshTokenRepository.revokeToken(
+      hashRefreshToken(refreshToken),
+      new Date().toISOString()
+    );
+  }
+
+  private buildTokens(user: User, refreshToken: string): AuthTokens {
+    return {
+      accessToken: signAccessToken({
+        id: user.id,
+        email: user.email,
+        role: user.role,
+      }),
+      refreshToken,
+      tokenType: "Bearer",
+      expiresIn: getAccessTokenTtlSeconds(),
+    };
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,164 @@
+import Joi from "joi";
+import {
+  database,
+  TransactionGroupError,
+  TransactionGuardError,
+  TransactionQuery,
+} from "../database/connection";
+import { ApiError, toApiError } from "../middleware/errorHandler";
+import { validateValue } from "../middleware/validation";
+import {
+  BulkItemResult,
+  BulkMode,
+  BulkOperation,
+  BulkResult,
+  ValidationErrorDetail,
+} from "../types";
+
+export interface BulkPlan {
+  createSchema: Joi.ObjectSchema;
+  updateSchema: Joi.ObjectSchema;
+  // The queries for one validated operation; they commit or fail together
+  buildQueries(
+    operation: BulkOperation
+  ): TransactionQuery[] | Promise<TransactionQuery[]>;
+}
+
+interface PendingOperation {
+  index: number;
+  operation: BulkOperation;
+}
+
+const SUCCESS_STATUS = { create: 201, update: 200, delete: 200 };
+
+// Guarded update and delete queries only fail when the row is missing
+const toItemError = (error: unknown): ApiError =>
+  error instanceof TransactionGuardError
+    ? new ApiError("Record not found", 404, "NOT_FOUND")
+    : toApiError(error, "Error running bulk operation");
+
+const failure = (
+  index: number,
+  operation: BulkOperation,
+  error: ApiError
+): BulkItemResult => ({
+  index,
+  op: operation.op,
+  status: error.statusCode,
+  ...(operation.id !== undefined && { id: operation.id }),
+  error: {
+    code: error.code,
+    message: error.message,
+    ...(error.details && { details: error.details }),
+  },
+});
+
+const validateOperation = (
+  operation: BulkOperation,
+  plan: BulkPlan
+): BulkOperation =>
+  operation.op === "delete"
+    ? operation
+    : {
+        ...operation,
+        data: validateValue(
+          operation.op === "create" ? plan.createSchema : plan.updateSchema,
+          operation.data
+        ),
+      };
+
+// In atomic mode every invalid item is reported in one 422, with fields
+// named after their place in the request body. Errors about the data object
+// as a whole carry the "body" target as their field.
+const toBatchValidationError = (invalid: BulkItemResult[]): ApiError => {
+  const errors = invalid.flatMap(({ index, error }) =>
+    (error?.details?.errors as ValidationErrorDetail[]).map((detail) => ({
+      ...detail,
+      field:
+        detail.field === "body"
+          ? `operations.${index}.data`
+          : `operations.${index}.data.${detail.field}`,
+    }))
+  );
+
+  return new ApiError(
+    errors.map((detail) => detail.message).join("; "),
+    422,
+    "VALIDATION_ERROR",
+    { location: "body", errors }
+  );
+};
+
+export const runBulk = async (
+  operations: BulkOperation[],
+  mode: BulkMode,
+  plan: BulkPlan
+): Promise<BulkResult> => {
+  const results: BulkItemResult[] = [];
+  const pending: PendingOperation[] = [];
+
+  operations.forEach((operation, index) => {
+    try {
+      pending.push({ index, operation: validateOperation(operation, plan) });
+    } catch (error) {
+      results.push(failure(index, operation, toApiError(error)));
+    }
+  });
+
+  if (mode === "atomic" && results.length > 0) {
+    throw toBatchValidationError(results);
+  }
+
+  const groups: TransactionQuery[][] = [];
+  for (const { operation } of pending) {
+    groups.push(await plan.buildQueries(operation));
+  }
+
+  let outcomes;
+  try {
+    outcomes = await database.transactionGroups(groups, {
+      continueOnError: mode === "best_effort",
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionGroupError)) {
+      throw error;
+    }
+
+    const { index } = pending[error.index];
+    const cause = toItemError(error.error);
+    throw new ApiError(
+      `Operation ${index} failed, nothing was saved: ${cause.message}`,
+      cause.statusCode,
+      cause.code,
+      { index }
+    );
+  }
+
+  outcomes.forEach((outcome, position) => {
+    const { index, operation } = pending[position];
+
+    results.push(
+      outcome.results
+        ? {
+            index,
+            op: operation.op,
+            status: SUCCESS_STATUS[operation.op],
+            id:
+              operation.op === "create"
+                ? outcome.results[0].lastID
+                : operation.id,
+          }
+        : failure(index, operation, toItemError(outcome.error))
+    );
+  });
+
+  results.sort((a, b) => a.index - b.index);
+  const failed = results.filter((result) => result.error).length;
+
+  return {
+    mode,
+    succeeded: results.length - failed,
+    failed,
+    results,
+  };
+};
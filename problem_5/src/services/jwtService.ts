@@ -0,0 +1,56 @@
+import jwt from "jsonwebtoken";
+import { ApiError } from "../middleware/errorHandler";
+import { AuthenticatedUser, UserRole } from "../types";
+
+export const UNAUTHORIZED = "UNAUTHORIZED";
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const USER_ROLES: UserRole[] = ["user", "editor", "admin"];
+
+const getSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new ApiError("JWT_SECRET is not configured", 500);
+  }
+  return secret;
+};
+
+export const getAccessTokenTtlSeconds = (): number =>
+  parseInt(process.env.JWT_ACCESS_TOKEN_TTL || "") ||
+  DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+
+export const signAccessToken = (user: AuthenticatedUser): string =>
+  jwt.sign({ email: user.email, role: user.role }, getSecret(), {
+    algorithm: "HS256",
+    subject: String(user.id),
+    expiresIn: getAccessTokenTtlSeconds(),
+  });
+
+export const verifyAccessToken = (token: string): AuthenticatedUser => {
+  let payload: string | jwt.JwtPayload;
+
+  try {
+    payload = jwt.verify(token, getSecret(), { algorithms: ["HS256"] });
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new ApiError("Access token has expired", 401, UNAUTHORIZED);
+    }
+    throw new ApiError("Invalid access token", 401, UNAUTHORIZED);
+  }
+
+  if (typeof payload === "string") {
+    throw new ApiError("Invalid access token", 401, UNAUTHORIZED);
+  }
+
+  const userId = Number(payload.sub);
+  if (!Number.isInteger(userId) || userId <= 0) {
+    throw new ApiError("Invalid access token", 401, UNAUTHORIZED);
+  }
+
+  // Tokens without a recognised role get the least privileged one
+  const role: UserRole = USER_ROLES.includes(payload.role)
+    ? payload.role
+    : "user";
+
+  return { id: userId, email: payload.email, role };
+};
@@ -0,0 +1,37 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Stored as "scrypt$<salt hex>$<hash hex>"
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+export const verifyPassword = async (
+  password: string,
+  storedHash: string
+): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = storedHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scrypt(
+    password,
+    Buffer.from(saltHex, "hex"),
+    expected.length
+  );
+
+  return crypto.timingSafeEqual(expected, actual);
+};
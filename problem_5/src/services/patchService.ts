@@ -0,0 +1,252 @@
+import { isDeepStrictEqual } from "util";
+import { ApiError } from "../middleware/errorHandler";
+
+export const MERGE_PATCH = "application/merge-patch+json";
+export const JSON_PATCH = "application/json-patch+json";
+export const PATCH_MEDIA_TYPES = [MERGE_PATCH, JSON_PATCH];
+
+type JsonObject = Record<string, unknown>;
+
+interface PatchOperation {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+const OPERATIONS = ["add", "remove", "replace", "move", "copy", "test"];
+
+const invalidPatch = (message: string): ApiError =>
+  new ApiError(`Invalid patch document: ${message}`, 400, "BAD_REQUEST");
+
+// The patch is well-formed but does not fit the current entity
+const conflict = (message: string): ApiError =>
+  new ApiError(message, 409, "CONFLICT");
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const has = (object: JsonObject, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const clone = <V>(value: V): V =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+// RFC 7396: null removes a member, objects merge recursively and anything
+// else replaces the target value
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isObject(patch)) {
+    return clone(patch);
+  }
+
+  const result: JsonObject = isObject(target) ? clone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+};
+
+// RFC 6901 JSON Pointer, e.g. "/tags/0" or "/a~1b" for the key "a/b"
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw invalidPatch(`"${pointer}" is not a JSON Pointer`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+};
+
+const arrayIndex = (
+  array: unknown[],
+  token: string,
+  pointer: string,
+  allowEnd: boolean
+): number => {
+  if (allowEnd && token === "-") {
+    return array.length;
+  }
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+  if (
+    isNaN(index) ||
+    index > array.length ||
+    (!allowEnd && index === array.length)
+  ) {
+    throw conflict(`Path "${pointer}" does not exist`);
+  }
+  return index;
+};
+
+const resolve = (document: unknown, tokens: string[], pointer: string) => {
+  let current = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, pointer, false)];
+    } else if (isObject(current) && has(current, token)) {
+      current = current[token];
+    } else {
+      throw conflict(`Path "${pointer}" does not exist`);
+    }
+  }
+  return current;
+};
+
+const getValue = (document: unknown, pointer: string): unknown =>
+  resolve(document, parsePointer(pointer), pointer);
+
+// Returns the document with `value` added at `pointer`; the root is replaced
+const addValue = (document: unknown, pointer: string, value: unknown) => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return value;
+  }
+
+  const key = tokens.pop() as string;
+  const parent = resolve(document, tokens, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, true), 0, value);
+  } else if (isObject(parent)) {
+    parent[key] = value;
+  } else {
+    throw conflict(`Path "${pointer}" does not exist`);
+  }
+  return document;
+};
+
+const removeValue = (document: unknown, pointer: string): unknown => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw conflict("The whole document cannot be removed");
+  }
+
+  const key = tokens.pop() as string;
+  const parent = resolve(document, tokens, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, false), 1);
+  } else if (isObject(parent) && has(parent, key)) {
+    delete parent[key];
+  } else {
+    throw conflict(`Path "${pointer}" does not exist`);
+  }
+  return document;
+};
+
+const parseOperations = (patch: unknown): PatchOperation[] => {
+  if (!Array.isArray(patch)) {
+    throw invalidPatch("a JSON Patch must be an array of operations");
+  }
+
+  return patch.map((operation, index) => {
+    if (
+      !isObject(operation) ||
+      !OPERATIONS.includes(operation.op as string) ||
+      typeof operation.path !== "string"
+    ) {
+      throw invalidPatch(`operation ${index} needs a valid op and path`);
+    }
+    if (
+      ["move", "copy"].includes(operation.op as string) &&
+      typeof operation.from !== "string"
+    ) {
+      throw invalidPatch(`operation ${index} needs a from pointer`);
+    }
+    if (
+      ["add", "replace", "test"].includes(operation.op as string) &&
+      !has(operation, "value")
+    ) {
+      throw invalidPatch(`operation ${index} needs a value`);
+    }
+    return operation as unknown as PatchOperation;
+  });
+};
+
+// RFC 6902: operations are applied in order to a copy of the document and
+// the whole patch fails if any of them does
+export const applyJsonPatch = (document: unknown, patch: unknown): unknown => {
+  const operations = parseOperations(patch);
+  let result = clone(document);
+
+  for (const { op, path, from, value } of operations) {
+    switch (op) {
+      case "add":
+        result = addValue(result, path, clone(value));
+        break;
+      case "remove":
+        result = removeValue(result, path);
+        break;
+      case "replace":
+        getValue(result, path);
+        result =
+          path === ""
+            ? clone(value)
+            : addValue(removeValue(result, path), path, clone(value));
+        break;
+      case "move": {
+        if (path.startsWith(`${from}/`)) {
+          throw conflict(`Cannot move "${from}" into one of its children`);
+        }
+        const moved = getValue(result, from as string);
+        result = addValue(removeValue(result, from as string), path, moved);
+        break;
+      }
+      case "copy":
+        result = addValue(
+          result,
+          path,
+          clone(getValue(result, from as string))
+        );
+        break;
+      case "test":
+        if (!isDeepStrictEqual(getValue(result, path), value)) {
+          throw conflict(`Test failed for path "${path}"`);
+        }
+        break;
+    }
+  }
+  return result;
+};
+
+// The patchable representation of an entity: its editable fields, with NULL
+// columns left out as JSON Merge Patch expects
+export const toPatchDocument = (
+  entity: object,
+  fields: readonly string[]
+): JsonObject =>
+  Object.fromEntries(
+    fields
+      .map((field) => [field, (entity as JsonObject)[field]])
+      .filter(([, value]) => value !== null && value !== undefined)
+  );
+
+// Fields whose value the patch changed; fields it removed become null
+export const patchChanges = (
+  document: JsonObject,
+  patched: JsonObject,
+  fields: readonly string[]
+): JsonObject => {
+  const changes: JsonObject = {};
+  for (const field of fields) {
+    const value = patched[field] ?? null;
+    if (!isDeepStrictEqual(value, document[field] ?? null)) {
+      changes[field] = value;
+    }
+  }
+  return changes;
+};
+
+// `mediaType` is the request's Content-Type, one of PATCH_MEDIA_TYPES
+export const applyPatch = (
+  mediaType: string,
+  document: unknown,
+  patch: unknown
+): unknown =>
+  mediaType === JSON_PATCH
+    ? applyJsonPatch(document, patch)
+    : applyMergePatch(document, patch);
@@ -0,0 +1,153 @@
+import { database } from "../database/connection";
+
+export interface RateLimitWindow {
+  // Hits inside the window, including this one when it was allowed
+  count: number;
+  allowed: boolean;
+  // Epoch ms at which the oldest hit leaves the window
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  // Records a hit for the key unless `limit` hits already fall inside the
+  // sliding window ending at `now`. Rejected hits are not recorded.
+  hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): Promise<RateLimitWindow>;
+  getSuspendedUntil(key: string, now: number): Promise<number | null>;
+  suspend(key: string, until: number): Promise<void>;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, { timestamps: number[]; expiresAt: number }>();
+  private suspensions = new Map<string, number>();
+  private lastSweep = 0;
+
+  async hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): Promise<RateLimitWindow> {
+    this.sweep(now);
+
+    const windowStart = now - windowMs;
+    const timestamps = (this.hits.get(key)?.timestamps || []).filter(
+      (timestamp) => timestamp > windowStart
+    );
+
+    const allowed = timestamps.length < limit;
+    if (allowed) {
+      timestamps.push(now);
+    }
+
+    this.hits.set(key, { timestamps, expiresAt: now + windowMs });
+
+    return {
+      count: timestamps.length,
+      allowed,
+      resetAt: (timestamps[0] ?? now) + windowMs,
+    };
+  }
+
+  async getSuspendedUntil(key: string, now: number): Promise<number | null> {
+    const until = this.suspensions.get(key);
+    return until !== undefined && until > now ? until : null;
+  }
+
+  async suspend(key: string, until: number): Promise<void> {
+    this.suspensions.set(key, until);
+  }
+
+  // Drops keys that have not been hit for a whole window so idle clients
+  // do not accumulate in memory
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.hits) {
+      if (entry.expiresAt <= now) {
+        this.hits.delete(key);
+      }
+    }
+    for (const [key, until] of this.suspensions) {
+      if (until <= now) {
+        this.suspensions.delete(key);
+      }
+    }
+  }
+}
+
+// Shares limits across processes using the same database file
+export class SqliteRateLimitStore implements RateLimitStore {
+  async hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): Promise<RateLimitWindow> {
+    const windowStart = now - windowMs;
+
+    await database.run(
+      "DELETE FROM rate_limit_hits WHERE key = ? AND hit_at <= ?",
+      [key, windowStart]
+    );
+
+    // Count and insert in one statement so concurrent requests cannot both
+    // take the last slot
+    const result = await database.run(
+      `INSERT INTO rate_limit_hits (key, hit_at)
+       SELECT ?, ?
+       WHERE (SELECT COUNT(*) FROM rate_limit_hits WHERE key = ? AND hit_at > ?) < ?`,
+      [key, now, key, windowStart, limit]
+    );
+
+    const window = await database.get<{ count: number; oldest: number | null }>(
+      "SELECT COUNT(*) as count, MIN(hit_at) as oldest FROM rate_limit_hits WHERE key = ? AND hit_at > ?",
+      [key, windowStart]
+    );
+
+    return {
+      count: window?.count || 0,
+      allowed: result.changes > 0,
+      resetAt: (window?.oldest ?? now) + windowMs,
+    };
+  }
+
+  async getSuspendedUntil(key: string, now: number): Promise<number | null> {
+    const row = await database.get<{ suspended_until: number }>(
+      "SELECT suspended_until FROM rate_limit_suspensions WHERE key = ? AND suspended_until > ?",
+      [key, now]
+    );
+    return row ? row.suspended_until : null;
+  }
+
+  async suspend(key: string, until: number): Promise<void> {
+    await database.run(
+      `INSERT INTO rate_limit_suspensions (key, suspended_until) VALUES (?, ?)
+       ON CONFLICT(key) DO UPDATE SET suspended_until = excluded.suspended_until`,
+      [key, until]
+    );
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE=sqlite keeps limits in the database; anything else uses
+// a per-process in-memory store. Resolved lazily so .env is loaded first.
+export const getDefaultRateLimitStore = (): RateLimitStore => {
+  if (!defaultStore) {
+    defaultStore =
+      process.env.RATE_LIMIT_STORE === "sqlite"
+        ? new SqliteRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return defaultStore;
+};
@@ -0,0 +1,73 @@
+import { productRepository } from "../repositories";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface PurgeableRepository {
+  purgeTrashed(days: number): Promise<number>;
+}
+
+export interface TrashPurgerOptions {
+  // Trashed rows older than this are removed for good
+  retentionDays?: number;
+  intervalMs?: number;
+}
+
+// Periodically empties the trash of soft-deleting repositories
+export class TrashPurger {
+  private retentionDays: number;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private repositories: PurgeableRepository[],
+    options: TrashPurgerOptions = {}
+  ) {
+    this.retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () =>
+      this.purge().catch((error) =>
+        console.error("Failed to purge trashed records:", error)
+      );
+
+    run();
+    this.timer = setInterval(run, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async purge(): Promise<number> {
+    let purged = 0;
+    for (const repository of this.repositories) {
+      purged += await repository.purgeTrashed(this.retentionDays);
+    }
+
+    if (purged > 0) {
+      console.log(`Purged ${purged} trashed record(s)`);
+    }
+    return purged;
+  }
+}
+
+export const createTrashPurger = (): TrashPurger =>
+  new TrashPurger([productRepository], {
+    retentionDays:
+      parseInt(process.env.TRASH_RETENTION_DAYS || "") ||
+      DEFAULT_RETENTION_DAYS,
+    intervalMs:
+      parseInt(process.env.TRASH_PURGE_INTERVAL_MS || "") ||
+      DEFAULT_INTERVAL_MS,
+  });
@@ -1,11 +1,23 @@
+export type UserRole = "user" | "editor" | "admin";
+
 export interface User {
   id: number;
   name: string;
   email: string;
   age?: number;
   status: "active" | "inactive";
+  role: UserRole;
   created_at: string;
   updated_at: string;
+  // Bumped on every write; exposed as the ETag
+  version: number;
+}
+
+export interface UserStats {
+  total: number;
+  active: number;
+  inactive: number;
+  averageAge: number;
 }
 
 export interface CreateUserRequest {
@@ -13,6 +25,7 @@ export interface CreateUserRequest {
   email: string;
   age?: number;
   status?: "active" | "inactive";
+  password?: string;
 }
 
 export interface UpdateUserRequest {
@@ -20,6 +33,8 @@ export interface UpdateUserRequest {
   email?: string;
   age?: number;
   status?: "active" | "inactive";
+  role?: UserRole;
+  password?: string;
 }
 
 export interface Product {
@@ -32,6 +47,10 @@ export interface Product {
   is_active: boolean;
   created_at: string;
   updated_at: string;
+  // Bumped on every write; exposed as the ETag
+  version: number;
+  // Set while the product is in the trash
+  deleted_at?: string | null;
 }
 
 export interface CreateProductRequest {
@@ -52,11 +71,150 @@ export interface UpdateProductRequest {
   is_active?: boolean;
 }
 
+export interface ScoreUpdate {
+  id: number;
+  user_id: number;
+  action_token: string;
+  action_type: string;
+  score_increase: number;
+  client_ip?: string;
+  session_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScoreUpdateRequest {
+  actionToken: string;
+  actionType: string;
+  timestamp?: string;
+  metadata?: {
+    sessionId?: string;
+    clientFingerprint?: string;
+  };
+}
+
+export interface ScoreUpdateResult {
+  newScore: number;
+  rank: number;
+  scoreIncrease: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  score: number;
+  lastUpdated: string;
+}
+
+export interface Leaderboard {
+  leaderboard: LeaderboardEntry[];
+  lastUpdated: string | null;
+}
+
+export interface ActionToken {
+  token_hash: string;
+  user_id: number;
+  action_type: string;
+  score_value: number;
+  expires_at: string;
+  used_at?: string;
+  created_at: string;
+}
+
+export interface ActionTokenClaims {
+  userId: number;
+  actionType: string;
+  scoreValue: number;
+  expiresAt: number;
+  nonce: string;
+}
+
+export interface IssuedActionToken {
+  token: string;
+  expiresAt: string;
+}
+
+export interface AuthenticatedUser {
+  id: number;
+  email: string;
+  role: UserRole;
+}
+
+export interface RefreshToken {
+  id: number;
+  user_id: number;
+  token_hash: string;
+  expires_at: string;
+  revoked_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: "Bearer";
+  expiresIn: number;
+}
+
+export interface AuthSession extends AuthTokens {
+  user: User;
+  // Spent on POST /api/v1/scores/update; null after the day's first login
+  dailyLoginToken: IssuedActionToken | null;
+}
+
+export interface ScoreUpdatedEvent {
+  userId: number;
+  newScore: number;
+  oldRank: number | null;
+  newRank: number;
+  scoreIncrease: number;
+}
+
+export type ErrorCode =
+  | "BAD_REQUEST"
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "PRECONDITION_FAILED"
+  | "INVALID_REFERENCE"
+  | "INVALID_ACTION_TOKEN"
+  | "INVALID_ACTION_TYPE"
+  | "UNSUPPORTED_MEDIA_TYPE"
+  | "RATE_LIMIT_EXCEEDED"
+  | "SERVICE_UNAVAILABLE"
+  | "NOT_IMPLEMENTED"
+  | "INTERNAL_ERROR";
+
+export interface ValidationErrorDetail {
+  field: string;
+  message: string;
+  type: string;
+}
+
+export interface ApiErrorBody {
+  code: ErrorCode;
+  message: string;
+  details: {
+    timestamp: string;
+    requestId?: string;
+    [key: string]: unknown;
+  };
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   message?: string;
-  error?: string;
+  error?: ApiErrorBody;
 }
 
 export interface PaginatedResponse<T = any> {
@@ -70,12 +228,106 @@ export interface PaginatedResponse<T = any> {
   };
 }
 
+// atomic: all operations commit or none do; best_effort: each operation
+// commits on its own and failures are reported per item
+export type BulkMode = "atomic" | "best_effort";
+
+export interface BulkOperation {
+  op: "create" | "update" | "delete";
+  id?: number;
+  data?: Record<string, any>;
+}
+
+export interface BulkItemResult {
+  index: number;
+  op: BulkOperation["op"];
+  status: number;
+  id?: number;
+  error?: {
+    code: ErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+export interface BulkResult {
+  mode: BulkMode;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export interface CursorPaginatedResponse<T = any> {
+  success: boolean;
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    total?: number;
+  };
+}
+
+export interface CursorPage<T> {
+  data: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total?: number;
+}
+
+export interface CursorPaginationParams {
+  cursor?: string;
+  limit?: number;
+  includeTotal?: boolean;
+}
+
+export type FilterOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "nin"
+  | "contains"
+  | "startsWith"
+  | "isNull";
+
+// A single filter[field][operator]=value query condition
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: string | string[];
+}
+
+export type FilterColumnType = "string" | "number" | "boolean";
+
 export interface UserFilters {
   name?: string;
   email?: string;
   status?: "active" | "inactive";
   age_min?: number;
   age_max?: number;
+  conditions?: FilterCondition[];
+}
+
+export interface ProductStats {
+  total: number;
+  active: number;
+  inactive: number;
+  categories: { category: string; count: number }[];
+  averagePrice: number;
+  totalValue: number;
+}
+
+// A product matched by full-text search, best matches first
+export interface ProductSearchResult extends Product {
+  // Best matching fragment with <mark> around the matched terms
+  snippet: string;
+  // bm25 score; lower is more relevant
+  rank: number;
 }
 
 export interface ProductFilters {
@@ -84,6 +336,7 @@ export interface ProductFilters {
   price_min?: number;
   price_max?: number;
   is_active?: boolean;
+  conditions?: FilterCondition[];
 }
 
 export interface PaginationParams {
@@ -0,0 +1,101 @@
+// Column whitelists and parsers for the sort and fields query params, shared
+// by the request schemas and the repositories. Only imports types, so the
+// schemas do not depend on the database layer.
+import { FilterColumnType } from "../types";
+
+export const USER_COLUMNS = [
+  "id",
+  "name",
+  "email",
+  "age",
+  "status",
+  "role",
+  "created_at",
+  "updated_at",
+  "version",
+];
+
+export const USER_SORTABLE_COLUMNS = [
+  "name",
+  "email",
+  "age",
+  "status",
+  "role",
+  "created_at",
+  "updated_at",
+];
+
+export const USER_FILTERABLE_COLUMNS: Record<string, FilterColumnType> = {
+  id: "number",
+  name: "string",
+  email: "string",
+  age: "number",
+  status: "string",
+  role: "string",
+  created_at: "string",
+  updated_at: "string",
+};
+
+export const PRODUCT_COLUMNS = [
+  "id",
+  "name",
+  "description",
+  "price",
+  "category",
+  "stock_quantity",
+  "is_active",
+  "created_at",
+  "updated_at",
+  "deleted_at",
+  "version",
+];
+
+export const PRODUCT_SORTABLE_COLUMNS = [
+  "name",
+  "price",
+  "category",
+  "stock_quantity",
+  "is_active",
+  "created_at",
+  "updated_at",
+];
+
+export const PRODUCT_FILTERABLE_COLUMNS: Record<string, FilterColumnType> = {
+  id: "number",
+  name: "string",
+  description: "string",
+  price: "number",
+  category: "string",
+  stock_quantity: "number",
+  is_active: "boolean",
+  created_at: "string",
+  updated_at: "string",
+};
+
+export interface SortField {
+  column: string;
+  descending: boolean;
+}
+
+// Parses "-price,name" into [price DESC, name ASC]
+export const parseSort = (sort: string): SortField[] =>
+  sort
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean)
+    .map((field) =>
+      field.startsWith("-")
+        ? { column: field.slice(1), descending: true }
+        : { column: field, descending: false }
+    );
+
+// Parses "id,name,price" into unique column names
+export const parseFields = (fields: string): string[] =>
+  Array.from(
+    new Set(
+      fields
+        .split(",")
+        .map((field) => field.trim())
+        .filter(Boolean)
+    )
+  );
@@ -1,4 +1,12 @@
 import Joi from "joi";
+import {
+  parseFields,
+  parseSort,
+  PRODUCT_COLUMNS,
+  PRODUCT_SORTABLE_COLUMNS,
+  USER_COLUMNS,
+  USER_SORTABLE_COLUMNS,
+} from "./queryParams";
 
 export const createUserSchema = Joi.object({
   name: Joi.string().min(1).max(100).required().messages({
@@ -23,6 +31,11 @@ export const createUserSchema = Joi.object({
   status: Joi.string().valid("active", "inactive").default("active").messages({
     "any.only": 'Status must be either "active" or "inactive"',
   }),
+
+  password: Joi.string().min(8).max(128).optional().messages({
+    "string.min": "Password must be at least 8 characters long",
+    "string.max": "Password must be at most 128 characters long",
+  }),
 });
 
 export const updateUserSchema = Joi.object({
@@ -46,6 +59,15 @@ export const updateUserSchema = Joi.object({
   status: Joi.string().valid("active", "inactive").optional().messages({
     "any.only": 'Status must be either "active" or "inactive"',
   }),
+
+  role: Joi.string().valid("user", "editor", "admin").optional().messages({
+    "any.only": 'Role must be one of "user", "editor" or "admin"',
+  }),
+
+  password: Joi.string().min(8).max(128).optional().messages({
+    "string.min": "Password must be at least 8 characters long",
+    "string.max": "Password must be at most 128 characters long",
+  }),
 })
   .min(1)
   .messages({
@@ -120,6 +142,18 @@ export const updateProductSchema = Joi.object({
     "object.min": "At least one field must be provided for update",
   });
 
+// A patched entity is checked as a whole: the update schema, with the
+// columns every row must have made required
+export const patchedUserSchema = updateUserSchema.fork(
+  ["name", "email", "status", "role"],
+  (schema) => schema.required()
+);
+
+export const patchedProductSchema = updateProductSchema.fork(
+  ["name", "price", "stock_quantity", "is_active"],
+  (schema) => schema.required()
+);
+
 export const paginationSchema = Joi.object({
   page: Joi.number().integer().min(1).default(1).messages({
     "number.base": "Page must be a number",
@@ -133,23 +167,191 @@ export const paginationSchema = Joi.object({
     "number.min": "Limit must be at least 1",
     "number.max": "Limit must be at most 100",
   }),
+
+  // Opaque keyset cursor; an empty value requests the first page
+  cursor: Joi.string().allow("").max(512).optional(),
+
+  include_total: Joi.boolean().optional(),
 });
 
+// Comma separated columns, "-" prefix for descending, e.g. "-price,name"
+const sortSchema = (columns: readonly string[]) =>
+  Joi.string()
+    .custom((value: string, helpers) => {
+      const fields = parseSort(value);
+      const invalid = fields.find(({ column }) => !columns.includes(column));
+
+      if (fields.length === 0 || invalid) {
+        return helpers.error("sort.column", {
+          column: invalid?.column ?? value,
+        });
+      }
+      return value;
+    })
+    .optional()
+    .messages({
+      "sort.column": `Cannot sort by "{#column}". Allowed: ${columns.join(
+        ", "
+      )}`,
+    });
+
+// Cursor pages are always ordered newest first, so they take no sort
+const cursorSortMessages = {
+  "object.oxor": "Sort cannot be combined with cursor pagination",
+};
+
+// Comma separated columns to return, e.g. "id,name,price"
+const fieldsSchema = (columns: readonly string[]) =>
+  Joi.string()
+    .custom((value: string, helpers) => {
+      const fields = parseFields(value);
+      const invalid = fields.find((field) => !columns.includes(field));
+
+      if (fields.length === 0 || invalid) {
+        return helpers.error("fields.column", { column: invalid ?? value });
+      }
+      return value;
+    })
+    .optional()
+    .messages({
+      "fields.column": `Unknown field "{#column}". Allowed: ${columns.join(
+        ", "
+      )}`,
+    });
+
+export const userFieldsSchema = Joi.object({
+  fields: fieldsSchema(USER_COLUMNS),
+});
+
+export const productFieldsSchema = Joi.object({
+  fields: fieldsSchema(PRODUCT_COLUMNS),
+});
+
+// filter[field][operator]=value params; the repository checks the field
+// against its whitelist when compiling, so keys only need to be kept here
+const FILTER_PARAM = /^filter\[\w+\](\[\w+\])?$/;
+const filterValueSchema = Joi.alternatives(
+  Joi.string().allow(""),
+  Joi.array().items(Joi.string().allow(""))
+);
+
 export const userFiltersSchema = Joi.object({
   name: Joi.string().optional(),
   email: Joi.string().optional(),
   status: Joi.string().valid("active", "inactive").optional(),
   age_min: Joi.number().integer().min(0).optional(),
-  age_max: Joi.number().integer().min(0).optional(),
-}).concat(paginationSchema);
+  age_max: Joi.number()
+    .integer()
+    .min(0)
+    .when("age_min", {
+      is: Joi.exist(),
+      then: Joi.number().min(Joi.ref("age_min")).messages({
+        "number.min": "age_max must be greater than or equal to age_min",
+      }),
+    })
+    .optional(),
+  sort: sortSchema(USER_SORTABLE_COLUMNS),
+})
+  .pattern(FILTER_PARAM, filterValueSchema)
+  .concat(userFieldsSchema)
+  .concat(paginationSchema)
+  .oxor("cursor", "sort")
+  .messages(cursorSortMessages);
 
 export const productFiltersSchema = Joi.object({
   name: Joi.string().optional(),
   category: Joi.string().optional(),
   price_min: Joi.number().positive().optional(),
-  price_max: Joi.number().positive().optional(),
+  price_max: Joi.number()
+    .positive()
+    .when("price_min", {
+      is: Joi.exist(),
+      then: Joi.number().min(Joi.ref("price_min")).messages({
+        "number.min": "price_max must be greater than or equal to price_min",
+      }),
+    })
+    .optional(),
   is_active: Joi.boolean().optional(),
-}).concat(paginationSchema);
+  sort: sortSchema(PRODUCT_SORTABLE_COLUMNS),
+})
+  .pattern(FILTER_PARAM, filterValueSchema)
+  .concat(productFieldsSchema)
+  .concat(paginationSchema)
+  .oxor("cursor", "sort")
+  .messages(cursorSortMessages);
+
+export const productSearchSchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required().messages({
+    "string.empty": "Search query cannot be empty",
+    "string.max": "Search query cannot exceed 200 characters",
+    "any.required": "Search query is required",
+  }),
+  page: paginationSchema.extract("page"),
+  limit: paginationSchema.extract("limit"),
+});
+
+export const trashQuerySchema = Joi.object({
+  page: paginationSchema.extract("page"),
+  limit: paginationSchema.extract("limit"),
+});
+
+export const lowStockQuerySchema = Joi.object({
+  threshold: Joi.number().integer().min(0).default(10).messages({
+    "number.base": "Threshold must be a number",
+    "number.integer": "Threshold must be an integer",
+    "number.min": "Threshold cannot be negative",
+  }),
+});
+
+export const updateStockSchema = Joi.object({
+  stock_quantity: Joi.number().integer().min(0).required().messages({
+    "number.base": "Stock quantity must be a number",
+    "number.integer": "Stock quantity must be an integer",
+    "number.min": "Stock quantity cannot be negative",
+    "any.required": "Stock quantity is required",
+  }),
+});
+
+// hard=true removes the record instead of deactivating or trashing it
+export const deleteQuerySchema = Joi.object({
+  hard: Joi.boolean().sensitive().default(false).messages({
+    "boolean.base": "hard must be true or false",
+  }),
+});
+
+export const MAX_BULK_OPERATIONS = 1000;
+
+// Only the envelope is checked here; each item's data is validated against
+// the create or update schema when the batch runs
+export const bulkSchema = Joi.object({
+  mode: Joi.string().valid("atomic", "best_effort").default("atomic").messages({
+    "any.only": 'Mode must be either "atomic" or "best_effort"',
+  }),
+
+  operations: Joi.array()
+    .items(
+      Joi.object({
+        op: Joi.string().valid("create", "update", "delete").required(),
+        id: Joi.when("op", {
+          is: "create",
+          then: Joi.forbidden(),
+          otherwise: Joi.number().integer().positive().required(),
+        }),
+        data: Joi.when("op", {
+          is: "delete",
+          then: Joi.forbidden(),
+          otherwise: Joi.object().required(),
+        }),
+      })
+    )
+    .min(1)
+    .max(MAX_BULK_OPERATIONS)
+    .required()
+    .messages({
+      "array.min": "At least one operation is required",
+      "array.max": `At most ${MAX_BULK_OPERATIONS} operations can be sent at once`,
+    }),
+});
 
 export const idParamSchema = Joi.object({
   id: Joi.number().integer().positive().required().messages({
@@ -159,3 +361,45 @@ export const idParamSchema = Joi.object({
     "any.required": "ID is required",
   }),
 });
+
+export const scoreUpdateSchema = Joi.object({
+  actionToken: Joi.string().min(1).max(512).required().messages({
+    "string.empty": "actionToken is required",
+    "string.max": "actionToken must be at most 512 characters long",
+    "any.required": "actionToken is required",
+  }),
+
+  actionType: Joi.string().min(1).max(50).required().messages({
+    "string.empty": "actionType is required",
+    "string.max": "actionType must be at most 50 characters long",
+    "any.required": "actionType is required",
+  }),
+
+  timestamp: Joi.date().iso().optional().messages({
+    "date.format": "timestamp must be an ISO 8601 date",
+  }),
+
+  metadata: Joi.object({
+    sessionId: Joi.string().max(255).optional(),
+    clientFingerprint: Joi.string().max(255).optional(),
+  }).optional(),
+});
+
+export const loginSchema = Joi.object({
+  email: Joi.string().email().required().messages({
+    "string.email": "Please provide a valid email address",
+    "any.required": "Email is required",
+  }),
+
+  password: Joi.string().required().messages({
+    "string.empty": "Password is required",
+    "any.required": "Password is required",
+  }),
+});
+
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required().messages({
+    "string.empty": "refreshToken is required",
+    "any.required": "refreshToken is required",
+  }),
+});
@@ -0,0 +1,227 @@
+import { Server } from "http";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import { scoreRepository } from "../repositories";
+import { scoreEvents } from "../events/scoreEvents";
+import { UNAUTHORIZED, verifyAccessToken } from "../services/jwtService";
+import { ApiError } from "../middleware/errorHandler";
+import { LeaderboardEntry, ScoreUpdatedEvent } from "../types";
+
+export const SCOREBOARD_SOCKET_PATH = "/api/v1/scoreboard/live";
+
+const LEADERBOARD_SIZE = 10;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+const POLICY_VIOLATION = 1008;
+
+export interface ScoreboardSocketOptions {
+  path?: string;
+  heartbeatIntervalMs?: number;
+}
+
+type ServerMessage =
+  | {
+      type: "leaderboard_update";
+      data: { leaderboard: LeaderboardEntry[]; changedRanks: number[] };
+    }
+  | { type: "score_update"; data: ScoreUpdatedEvent }
+  | { type: "heartbeat"; data: { timestamp: string } }
+  | { type: "error"; error: { code: string; message: string } };
+
+interface ClientState {
+  isAlive: boolean;
+  userId: number | null;
+}
+
+// Ranks (1-based) whose holder or score differs between two top-N snapshots.
+export const diffLeaderboards = (
+  previous: LeaderboardEntry[],
+  next: LeaderboardEntry[]
+): number[] => {
+  const changedRanks: number[] = [];
+  const length = Math.max(previous.length, next.length);
+
+  for (let i = 0; i < length; i++) {
+    const before = previous[i];
+    const after = next[i];
+
+    if (
+      !before ||
+      !after ||
+      before.userId !== after.userId ||
+      before.score !== after.score
+    ) {
+      changedRanks.push(i + 1);
+    }
+  }
+
+  return changedRanks;
+};
+
+export class ScoreboardSocketServer {
+  private path: string;
+  private heartbeatIntervalMs: number;
+  private wss: WebSocketServer | null = null;
+  private clients = new Map<WebSocket, ClientState>();
+  private leaderboard: LeaderboardEntry[] = [];
+  private heartbeat: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private pendingUpdates: Promise<void> = Promise.resolve();
+
+  constructor(options: ScoreboardSocketOptions = {}) {
+    this.path = options.path ?? SCOREBOARD_SOCKET_PATH;
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  }
+
+  async attach(server: Server): Promise<void> {
+    this.leaderboard = await scoreRepository.getTopScores(LEADERBOARD_SIZE);
+
+    this.wss = new WebSocketServer({ server, path: this.path });
+    this.wss.on("connection", (socket) => this.handleConnection(socket));
+
+    this.heartbeat = setInterval(
+      () => this.sendHeartbeats(),
+      this.heartbeatIntervalMs
+    );
+
+    // Score writes are applied one at a time so each diff is taken against
+    // the ranking the previous broadcast left behind.
+    this.unsubscribe = scoreEvents.onScoreUpdated((event) => {
+      this.pendingUpdates = this.pendingUpdates
+        .then(() => this.handleScoreUpdated(event))
+        .catch((error) => {
+          console.error("Failed to broadcast score update:", error);
+        });
+    });
+  }
+
+  async close(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    for (const socket of this.clients.keys()) {
+      socket.terminate();
+    }
+    this.clients.clear();
+
+    await new Promise<void>((resolve) => {
+      if (this.wss) {
+        this.wss.close(() => resolve());
+        this.wss = null;
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const state: ClientState = { isAlive: true, userId: null };
+    this.clients.set(socket, state);
+
+    socket.on("pong", () => {
+      state.isAlive = true;
+    });
+    socket.on("message", (data) => this.handleMessage(socket, state, data));
+    socket.on("close", () => this.clients.delete(socket));
+    socket.on("error", (error) => {
+      console.error("WebSocket client error:", error.message);
+    });
+  }
+
+  private handleMessage(
+    socket: WebSocket,
+    state: ClientState,
+    data: RawData
+  ): void {
+    let message: { type?: unknown; token?: unknown };
+
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      this.sendError(socket, "INVALID_MESSAGE", "Messages must be valid JSON");
+      return;
+    }
+
+    if (message.type !== "subscribe_leaderboard") {
+      this.sendError(socket, "INVALID_MESSAGE", "Unknown message type");
+      return;
+    }
+
+    try {
+      const user = verifyAccessToken(
+        typeof message.token === "string" ? message.token : ""
+      );
+      state.userId = user.id;
+    } catch (error) {
+      this.sendError(
+        socket,
+        UNAUTHORIZED,
+        error instanceof ApiError ? error.message : "Invalid access token"
+      );
+      socket.close(POLICY_VIOLATION, "Unauthorized");
+      return;
+    }
+
+    this.send(socket, {
+      type: "leaderboard_update",
+      data: { leaderboard: this.leaderboard, changedRanks: [] },
+    });
+  }
+
+  private async handleScoreUpdated(event: ScoreUpdatedEvent): Promise<void> {
+    const next = await scoreRepository.getTopScores(LEADERBOARD_SIZE);
+    const changedRanks = diffLeaderboards(this.leaderboard, next);
+    this.leaderboard = next;
+
+    for (const [socket, state] of this.clients) {
+      if (state.userId === null) {
+        continue;
+      }
+
+      if (changedRanks.length > 0) {
+        this.send(socket, {
+          type: "leaderboard_update",
+          data: { leaderboard: next, changedRanks },
+        });
+      }
+
+      if (changedRanks.length > 0 || state.userId === event.userId) {
+        this.send(socket, { type: "score_update", data: event });
+      }
+    }
+  }
+
+  private sendHeartbeats(): void {
+    for (const [socket, state] of this.clients) {
+      if (!state.isAlive) {
+        socket.terminate();
+        this.clients.delete(socket);
+        continue;
+      }
+
+      state.isAlive = false;
+      socket.ping();
+
+      if (state.userId !== null) {
+        this.send(socket, {
+          type: "heartbeat",
+          data: { timestamp: new Date().toISOString() },
+        });
+      }
+    }
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private sendError(socket: WebSocket, code: string, message: string): void {
+    this.send(socket, { type: "error", error: { code, message } });
+  }
+}
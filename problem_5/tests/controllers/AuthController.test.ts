@@ -0,0 +1,119 @@
+import { Request, Response } from "express";
+import { AuthController } from "../../src/controllers/authController";
+import { authService } from "../../src/services/authService";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { createMockDbResponse } from "../setup";
+
+// Mock the auth service
+jest.mock("../../src/services/authService", () => ({
+  authService: {
+    login: jest.fn(),
+    refresh: jest.fn(),
+    logout: jest.fn(),
+  },
+}));
+
+const mockAuthService = authService as jest.Mocked<typeof authService>;
+
+describe("AuthController", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.Mock;
+  let mockJson: jest.Mock;
+
+  const tokens = {
+    accessToken: "access",
+    refreshToken: "refresh",
+    tokenType: "Bearer" as const,
+    expiresIn: 900,
+  };
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockNext = jest.fn();
+
+    mockRequest = {};
+    mockResponse = { json: mockJson };
+  });
+
+  describe("login", () => {
+    it("should return the session", async () => {
+      const session = {
+        ...tokens,
+        user: createMockDbResponse.user(),
+        dailyLoginToken: null,
+      };
+      mockAuthService.login.mockResolvedValue(session);
+
+      mockRequest.body = { email: "john@example.com", password: "secret123" };
+
+      await AuthController.login(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockAuthService.login).toHaveBeenCalledWith(
+        "john@example.com",
+        "secret123"
+      );
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: session,
+        message: "Logged in successfully",
+      });
+    });
+
+    it("should pass authentication failures to the error handler", async () => {
+      const error = new ApiError("Invalid email or password", 401);
+      mockAuthService.login.mockRejectedValue(error);
+
+      mockRequest.body = { email: "john@example.com", password: "wrong" };
+
+      await AuthController.login(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("refresh", () => {
+    it("should return the rotated tokens", async () => {
+      mockAuthService.refresh.mockResolvedValue(tokens);
+
+      mockRequest.body = { refreshToken: "old" };
+
+      await AuthController.refresh(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockAuthService.refresh).toHaveBeenCalledWith("old");
+      expect(mockJson).toHaveBeenCalledWith({ success: true, data: tokens });
+    });
+  });
+
+  describe("logout", () => {
+    it("should revoke the refresh token", async () => {
+      mockAuthService.logout.mockResolvedValue();
+
+      mockRequest.body = { refreshToken: "refresh" };
+
+      await AuthController.logout(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockAuthService.logout).toHaveBeenCalledWith("refresh");
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        message: "Logged out successfully",
+      });
+    });
+  });
+});
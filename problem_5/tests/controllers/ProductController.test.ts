@@ -9,9 +9,13 @@ jest.mock("../../src/repositories", () => ({
   productRepository: {
     createProduct: jest.fn(),
     findProductsWithFilters: jest.fn(),
+    searchProducts: jest.fn(),
+    findProductsWithCursor: jest.fn(),
     findById: jest.fn(),
     updateProduct: jest.fn(),
     delete: jest.fn(),
+    forceDelete: jest.fn(),
+    restore: jest.fn(),
   },
 }));
 
@@ -31,10 +35,11 @@ describe("ProductController", () => {
     mockStatus = jest.fn().mockReturnValue({ json: mockJson });
     mockNext = jest.fn();
 
-    mockRequest = {};
+    mockRequest = { validatedQuery: {} };
     mockResponse = {
       json: mockJson,
       status: mockStatus,
+      setHeader: jest.fn(),
     };
   });
 
@@ -126,7 +131,7 @@ describe("ProductController", () => {
       mockProductRepository.findProductsWithFilters.mockResolvedValue(
         mockResult
       );
-      mockRequest.query = {};
+      mockRequest.validatedQuery = {};
 
       await ProductController.getProducts(
         mockRequest as Request,
@@ -143,9 +148,12 @@ describe("ProductController", () => {
           price_min: undefined,
           price_max: undefined,
           is_active: undefined,
+          conditions: [],
         },
         1,
-        10
+        10,
+        undefined,
+        undefined
       );
 
       expect(mockJson).toHaveBeenCalledWith({
@@ -175,14 +183,14 @@ describe("ProductController", () => {
       mockProductRepository.findProductsWithFilters.mockResolvedValue(
         mockResult
       );
-      mockRequest.query = {
-        page: "2",
-        limit: "5",
+      mockRequest.validatedQuery = {
+        page: 2,
+        limit: 5,
         category: "Electronics",
-        price_min: "100",
-        price_max: "200",
+        price_min: 100,
+        price_max: 200,
         name: "Test",
-        is_active: "true",
+        is_active: true,
       };
 
       await ProductController.getProducts(
@@ -200,9 +208,12 @@ describe("ProductController", () => {
           price_min: 100,
           price_max: 200,
           is_active: true,
+          conditions: [],
         },
         2,
-        5
+        5,
+        undefined,
+        undefined
       );
     });
 
@@ -220,7 +231,7 @@ describe("ProductController", () => {
       );
 
       // Test with 'false'
-      mockRequest.query = { is_active: "false" };
+      mockRequest.validatedQuery = { is_active: false };
       await ProductController.getProducts(
         mockRequest as Request,
         mockResponse as Response,
@@ -232,11 +243,13 @@ describe("ProductController", () => {
       ).toHaveBeenCalledWith(
         expect.objectContaining({ is_active: false }),
         1,
-        10
+        10,
+        undefined,
+        undefined
       );
 
       // Test with 'true'
-      mockRequest.query = { is_active: "true" };
+      mockRequest.validatedQuery = { is_active: true };
       await ProductController.getProducts(
         mockRequest as Request,
         mockResponse as Response,
@@ -248,8 +261,207 @@ describe("ProductController", () => {
       ).toHaveBeenCalledWith(
         expect.objectContaining({ is_active: true }),
         1,
+        10,
+        undefined,
+        undefined
+      );
+    });
+  });
+
+  describe("getProducts with sort", () => {
+    it("should pass the sort parameter to the repository", async () => {
+      mockProductRepository.findProductsWithFilters.mockResolvedValue({
+        data: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0,
+      });
+      mockRequest.validatedQuery = { sort: "-price,name" };
+
+      await ProductController.getProducts(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(
+        mockProductRepository.findProductsWithFilters
+      ).toHaveBeenCalledWith(
+        expect.any(Object),
+        1,
+        10,
+        "-price,name",
+        undefined
+      );
+    });
+  });
+
+  describe("getProducts with fields", () => {
+    it("should pass the parsed fields to the repository", async () => {
+      mockProductRepository.findProductsWithFilters.mockResolvedValue({
+        data: [{ id: 1, name: "Widget", price: 9.99 }],
+        total: 1,
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+      });
+      mockRequest.validatedQuery = { fields: "name, price" };
+
+      await ProductController.getProducts(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(
+        mockProductRepository.findProductsWithFilters
+      ).toHaveBeenCalledWith(expect.any(Object), 1, 10, undefined, [
+        "name",
+        "price",
+      ]);
+    });
+  });
+
+  describe("getProducts with filter operators", () => {
+    it("should pass parsed filter conditions to the repository", async () => {
+      mockProductRepository.findProductsWithFilters.mockResolvedValue({
+        data: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0,
+      });
+      mockRequest.validatedQuery = {
+        "filter[price][gte]": "10",
+        "filter[category][in]": "Books,Toys",
+        category: "Electronics",
+      };
+
+      await ProductController.getProducts(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(
+        mockProductRepository.findProductsWithFilters
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          category: "Electronics",
+          conditions: [
+            { field: "price", operator: "gte", value: "10" },
+            { field: "category", operator: "in", value: "Books,Toys" },
+          ],
+        }),
+        1,
+        10,
+        undefined,
+        undefined
+      );
+    });
+  });
+
+  describe("getProducts with cursor", () => {
+    it("should use keyset pagination when a cursor is given", async () => {
+      const mockProducts = [createMockDbResponse.product()];
+      mockProductRepository.findProductsWithCursor.mockResolvedValue({
+        data: mockProducts,
+        limit: 5,
+        nextCursor: "next",
+        prevCursor: null,
+      });
+      mockRequest.validatedQuery = { cursor: "", limit: 5 };
+
+      await ProductController.getProducts(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(
+        mockProductRepository.findProductsWithFilters
+      ).not.toHaveBeenCalled();
+      expect(mockProductRepository.findProductsWithCursor).toHaveBeenCalledWith(
+        expect.any(Object),
+        { cursor: undefined, limit: 5, includeTotal: false },
+        undefined
+      );
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: mockProducts,
+        pagination: { limit: 5, nextCursor: "next", prevCursor: null },
+      });
+    });
+
+    it("should include the total only when requested", async () => {
+      mockProductRepository.findProductsWithCursor.mockResolvedValue({
+        data: [],
+        limit: 10,
+        nextCursor: null,
+        prevCursor: "prev",
+        total: 12,
+      });
+      mockRequest.validatedQuery = { cursor: "abc", include_total: true };
+
+      await ProductController.getProducts(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockProductRepository.findProductsWithCursor).toHaveBeenCalledWith(
+        expect.any(Object),
+        { cursor: "abc", limit: 10, includeTotal: true },
+        undefined
+      );
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pagination: {
+            limit: 10,
+            nextCursor: null,
+            prevCursor: "prev",
+            total: 12,
+          },
+        })
+      );
+    });
+  });
+
+  describe("searchProducts", () => {
+    it("should return ranked search results", async () => {
+      const mockResults = [
+        {
+          ...createMockDbResponse.product(),
+          snippet: "<mark>Test</mark> Product",
+          rank: -1.5,
+        },
+      ];
+      mockProductRepository.searchProducts.mockResolvedValue({
+        data: mockResults,
+        total: 1,
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+      });
+      mockRequest.validatedQuery = { q: "test" };
+
+      await ProductController.searchProducts(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockProductRepository.searchProducts).toHaveBeenCalledWith(
+        "test",
+        1,
         10
       );
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: mockResults,
+        pagination: { page: 1, limit: 10, total: 1, totalPages: 1 },
+      });
     });
   });
 
@@ -266,7 +478,7 @@ describe("ProductController", () => {
         mockNext
       );
 
-      expect(mockProductRepository.findById).toHaveBeenCalledWith(1);
+      expect(mockProductRepository.findById).toHaveBeenCalledWith(1, undefined);
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
         data: mockProduct,
@@ -292,7 +504,8 @@ describe("ProductController", () => {
 
       expect(mockProductRepository.updateProduct).toHaveBeenCalledWith(
         1,
-        updateData
+        updateData,
+        undefined
       );
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
@@ -320,5 +533,83 @@ describe("ProductController", () => {
         message: "Product deleted successfully",
       });
     });
+
+    it("should permanently delete when an admin passes hard=true", async () => {
+      mockProductRepository.forceDelete.mockResolvedValue(true);
+
+      mockRequest.params = { id: "1" };
+      mockRequest.validatedQuery = { hard: true };
+      mockRequest.user = { id: 2, email: "admin@example.com", role: "admin" };
+
+      await ProductController.deleteProduct(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockProductRepository.forceDelete).toHaveBeenCalledWith(1);
+      expect(mockProductRepository.delete).not.toHaveBeenCalled();
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        message: "Product permanently deleted",
+      });
+    });
+
+    it("should not let editors permanently delete products", async () => {
+      mockRequest.params = { id: "1" };
+      mockRequest.validatedQuery = { hard: true };
+      mockRequest.user = { id: 3, email: "editor@example.com", role: "editor" };
+
+      await ProductController.deleteProduct(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 403, code: "FORBIDDEN" })
+      );
+      expect(mockProductRepository.forceDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("restoreProduct", () => {
+    it("should restore a trashed product and return it", async () => {
+      const mockProduct = createMockDbResponse.product();
+      mockProductRepository.restore.mockResolvedValue(true);
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+
+      mockRequest.params = { id: "1" };
+
+      await ProductController.restoreProduct(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockProductRepository.restore).toHaveBeenCalledWith(1);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: mockProduct,
+        message: "Product restored successfully",
+      });
+    });
+
+    it("should return 404 when the product is not in the trash", async () => {
+      mockProductRepository.restore.mockResolvedValue(false);
+
+      mockRequest.params = { id: "1" };
+
+      await ProductController.restoreProduct(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 404 })
+      );
+      expect(mockProductRepository.findById).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,214 @@
+import { Request, Response } from "express";
+import { ScoreController } from "../../src/controllers/scoreController";
+import { scoreRepository, userRepository } from "../../src/repositories";
+import { actionTokenService } from "../../src/services/actionTokenService";
+import { scoreEvents } from "../../src/events/scoreEvents";
+import { ApiError } from "../../src/middleware/errorHandler";
+
+// Mock the repositories
+jest.mock("../../src/repositories", () => ({
+  scoreRepository: {
+    buildRecordQuery: jest.fn(),
+    getUserStanding: jest.fn(),
+    getTopScores: jest.fn(),
+  },
+  userRepository: {
+    exists: jest.fn(),
+  },
+}));
+
+// Mock the action token service, keeping the token hashing helper
+jest.mock("../../src/services/actionTokenService", () => ({
+  ...jest.requireActual("../../src/services/actionTokenService"),
+  actionTokenService: {
+    consume: jest.fn(),
+  },
+}));
+
+const mockActionTokenService = actionTokenService as jest.Mocked<
+  typeof actionTokenService
+>;
+const mockScoreRepository = scoreRepository as jest.Mocked<
+  typeof scoreRepository
+>;
+const mockUserRepository = userRepository as jest.Mocked<typeof userRepository>;
+
+describe("ScoreController", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.Mock;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+    mockNext = jest.fn();
+
+    mockRequest = {};
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus,
+    };
+  });
+
+  describe("updateScore", () => {
+    const scoreData = {
+      actionToken: "payload.signature",
+      actionType: "quest_completed",
+      metadata: { sessionId: "session-1" },
+    };
+
+    it("should consume the action token and return the new standing", async () => {
+      const recordQuery = { sql: "INSERT INTO score_updates", params: [] };
+      mockUserRepository.exists.mockResolvedValue(true);
+      mockScoreRepository.buildRecordQuery.mockReturnValue(recordQuery);
+      mockActionTokenService.consume.mockImplementation(
+        async (_token, _expected, buildQueries) => {
+          const claims = {
+            userId: 1,
+            actionType: "quest_completed",
+            scoreValue: 50,
+            expiresAt: Date.now() + 60000,
+            nonce: "nonce",
+          };
+          expect(buildQueries!(claims)).toEqual([recordQuery]);
+          return claims;
+        }
+      );
+      mockScoreRepository.getUserStanding
+        .mockResolvedValueOnce({ score: 1200, rank: 6 }) // before the update
+        .mockResolvedValueOnce({ score: 1250, rank: 5 }); // after the update
+      const emitSpy = jest.spyOn(scoreEvents, "emitScoreUpdated");
+
+      mockRequest.body = scoreData;
+      mockRequest.user = { id: 1, email: "john@example.com", role: "user" };
+      (mockRequest as any).ip = "127.0.0.1";
+
+      await ScoreController.updateScore(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockActionTokenService.consume).toHaveBeenCalledWith(
+        "payload.signature",
+        { userId: 1, actionType: "quest_completed" },
+        expect.any(Function)
+      );
+      expect(mockScoreRepository.buildRecordQuery).toHaveBeenCalledWith({
+        user_id: 1,
+        action_token: expect.stringMatching(/^[a-f0-9]{64}$/),
+        action_type: "quest_completed",
+        score_increase: 50,
+        client_ip: "127.0.0.1",
+        session_id: "session-1",
+      });
+      expect(emitSpy).toHaveBeenCalledWith({
+        userId: 1,
+        newScore: 1250,
+        oldRank: 6,
+        newRank: 5,
+        scoreIncrease: 50,
+      });
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: { newScore: 1250, rank: 5, scoreIncrease: 50 },
+        message: "Score updated successfully",
+      });
+    });
+
+    it("should reject unknown users with 404", async () => {
+      mockUserRepository.exists.mockResolvedValue(false);
+
+      mockRequest.body = scoreData;
+      mockRequest.user = { id: 1, email: "john@example.com", role: "user" };
+
+      await ScoreController.updateScore(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(
+        new ApiError("User not found", 404)
+      );
+      expect(mockActionTokenService.consume).not.toHaveBeenCalled();
+    });
+
+    it("should pass invalid action token errors to the error handler", async () => {
+      const tokenError = new ApiError(
+        "The provided action token is invalid or expired",
+        400,
+        "INVALID_ACTION_TOKEN"
+      );
+      mockUserRepository.exists.mockResolvedValue(true);
+      mockActionTokenService.consume.mockRejectedValue(tokenError);
+      const emitSpy = jest.spyOn(scoreEvents, "emitScoreUpdated");
+
+      mockRequest.body = scoreData;
+      mockRequest.user = { id: 1, email: "john@example.com", role: "user" };
+
+      await ScoreController.updateScore(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(tokenError);
+      expect(emitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getTopScores", () => {
+    it("should return the top 10 with the most recent update time", async () => {
+      const leaderboard = [
+        {
+          rank: 1,
+          userId: 2,
+          username: "player2",
+          score: 2500,
+          lastUpdated: "2024-01-14 09:00:00",
+        },
+        {
+          rank: 2,
+          userId: 1,
+          username: "player1",
+          score: 1800,
+          lastUpdated: "2024-01-15 10:30:00",
+        },
+      ];
+      mockScoreRepository.getTopScores.mockResolvedValue(leaderboard);
+
+      await ScoreController.getTopScores(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockScoreRepository.getTopScores).toHaveBeenCalledWith(10);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          leaderboard,
+          lastUpdated: "2024-01-15 10:30:00",
+        },
+      });
+    });
+
+    it("should return a null lastUpdated for an empty leaderboard", async () => {
+      mockScoreRepository.getTopScores.mockResolvedValue([]);
+
+      await ScoreController.getTopScores(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: { leaderboard: [], lastUpdated: null },
+      });
+    });
+  });
+});
@@ -9,9 +9,12 @@ jest.mock("../../src/repositories", () => ({
   userRepository: {
     createUser: jest.fn(),
     findUsersWithFilters: jest.fn(),
+    findUsersWithCursor: jest.fn(),
     findById: jest.fn(),
     updateUser: jest.fn(),
+    setPasswordHash: jest.fn(),
     delete: jest.fn(),
+    softDelete: jest.fn(),
   },
 }));
 
@@ -29,10 +32,11 @@ describe("UserController", () => {
     mockStatus = jest.fn().mockReturnValue({ json: mockJson });
     mockNext = jest.fn();
 
-    mockRequest = {};
+    mockRequest = { validatedQuery: {} };
     mockResponse = {
       json: mockJson,
       status: mockStatus,
+      setHeader: jest.fn(),
     };
   });
 
@@ -56,12 +60,15 @@ describe("UserController", () => {
         mockNext
       );
 
-      expect(mockUserRepository.createUser).toHaveBeenCalledWith({
-        name: "John Doe",
-        email: "john@example.com",
-        age: 30,
-        status: "active",
-      });
+      expect(mockUserRepository.createUser).toHaveBeenCalledWith(
+        {
+          name: "John Doe",
+          email: "john@example.com",
+          age: 30,
+          status: "active",
+        },
+        undefined
+      );
 
       expect(mockStatus).toHaveBeenCalledWith(201);
       expect(mockJson).toHaveBeenCalledWith({
@@ -92,12 +99,40 @@ describe("UserController", () => {
         mockNext
       );
 
-      expect(mockUserRepository.createUser).toHaveBeenCalledWith({
+      expect(mockUserRepository.createUser).toHaveBeenCalledWith(
+        {
+          name: "John Doe",
+          email: "john@example.com",
+          age: 30,
+          status: "active",
+        },
+        undefined
+      );
+    });
+  });
+
+  describe("createUser with password", () => {
+    it("should store a hash of the password, never the password itself", async () => {
+      const mockCreatedUser = createMockDbResponse.user();
+      mockUserRepository.createUser.mockResolvedValue(mockCreatedUser);
+
+      mockRequest.body = {
         name: "John Doe",
         email: "john@example.com",
-        age: 30,
-        status: "active",
-      });
+        password: "correct-horse",
+      };
+
+      await UserController.createUser(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.createUser).toHaveBeenCalledWith(
+        expect.not.objectContaining({ password: expect.anything() }),
+        expect.stringMatching(/^scrypt\$/)
+      );
+      expect(mockStatus).toHaveBeenCalledWith(201);
     });
   });
 
@@ -116,7 +151,7 @@ describe("UserController", () => {
       };
 
       mockUserRepository.findUsersWithFilters.mockResolvedValue(mockResult);
-      mockRequest.query = {};
+      mockRequest.validatedQuery = {};
 
       await UserController.getUsers(
         mockRequest as Request,
@@ -131,9 +166,12 @@ describe("UserController", () => {
           status: undefined,
           age_min: undefined,
           age_max: undefined,
+          conditions: [],
         },
         1,
-        10
+        10,
+        undefined,
+        undefined
       );
 
       expect(mockJson).toHaveBeenCalledWith({
@@ -161,12 +199,12 @@ describe("UserController", () => {
       };
 
       mockUserRepository.findUsersWithFilters.mockResolvedValue(mockResult);
-      mockRequest.query = {
-        page: "2",
-        limit: "5",
+      mockRequest.validatedQuery = {
+        page: 2,
+        limit: 5,
         status: "active",
-        age_min: "18",
-        age_max: "65",
+        age_min: 18,
+        age_max: 65,
         name: "John",
         email: "john",
       };
@@ -184,9 +222,96 @@ describe("UserController", () => {
           status: "active",
           age_min: 18,
           age_max: 65,
+          conditions: [],
         },
         2,
-        5
+        5,
+        undefined,
+        undefined
+      );
+    });
+  });
+
+  describe("getUsers with filter operators", () => {
+    it("should reject an unknown filter operator", async () => {
+      mockRequest.validatedQuery = { "filter[age][between]": "18" };
+
+      await UserController.getUsers(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: 422,
+          code: "VALIDATION_ERROR",
+        })
+      );
+      expect(mockUserRepository.findUsersWithFilters).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getUsers with cursor", () => {
+    it("should use keyset pagination when a cursor is given", async () => {
+      const mockUsers = [createMockDbResponse.user()];
+      mockUserRepository.findUsersWithCursor.mockResolvedValue({
+        data: mockUsers,
+        limit: 5,
+        nextCursor: "next",
+        prevCursor: null,
+      });
+      mockRequest.validatedQuery = { cursor: "", limit: 5 };
+
+      await UserController.getUsers(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.findUsersWithFilters).not.toHaveBeenCalled();
+      expect(mockUserRepository.findUsersWithCursor).toHaveBeenCalledWith(
+        expect.any(Object),
+        { cursor: undefined, limit: 5, includeTotal: false },
+        undefined
+      );
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: mockUsers,
+        pagination: { limit: 5, nextCursor: "next", prevCursor: null },
+      });
+    });
+
+    it("should include the total only when requested", async () => {
+      mockUserRepository.findUsersWithCursor.mockResolvedValue({
+        data: [],
+        limit: 10,
+        nextCursor: null,
+        prevCursor: "prev",
+        total: 12,
+      });
+      mockRequest.validatedQuery = { cursor: "abc", include_total: true };
+
+      await UserController.getUsers(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.findUsersWithCursor).toHaveBeenCalledWith(
+        expect.any(Object),
+        { cursor: "abc", limit: 10, includeTotal: true },
+        undefined
+      );
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pagination: {
+            limit: 10,
+            nextCursor: null,
+            prevCursor: "prev",
+            total: 12,
+          },
+        })
       );
     });
   });
@@ -204,7 +329,7 @@ describe("UserController", () => {
         mockNext
       );
 
-      expect(mockUserRepository.findById).toHaveBeenCalledWith(1);
+      expect(mockUserRepository.findById).toHaveBeenCalledWith(1, undefined);
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
         data: mockUser,
@@ -212,6 +337,28 @@ describe("UserController", () => {
     });
   });
 
+  describe("getUserById with fields", () => {
+    it("should request only the listed fields", async () => {
+      const partialUser = { id: 1, name: "John Doe" };
+      mockUserRepository.findById.mockResolvedValue(partialUser);
+
+      mockRequest.params = { id: "1" };
+      mockRequest.validatedQuery = { fields: "name" };
+
+      await UserController.getUserById(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.findById).toHaveBeenCalledWith(1, ["name"]);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: partialUser,
+      });
+    });
+  });
+
   describe("updateUser", () => {
     it("should update user successfully", async () => {
       const updateData = { name: "Jane Doe", age: 25 };
@@ -228,7 +375,12 @@ describe("UserController", () => {
         mockNext
       );
 
-      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(1, updateData);
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(
+        1,
+        updateData,
+        undefined,
+        undefined
+      );
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
         data: mockUpdatedUser,
@@ -237,11 +389,124 @@ describe("UserController", () => {
     });
   });
 
+  describe("updateUser password", () => {
+    it("should pass a hash of the new password with the profile changes", async () => {
+      const mockUser = createMockDbResponse.user();
+      mockUserRepository.updateUser.mockResolvedValue(mockUser);
+
+      mockRequest.params = { id: "1" };
+      mockRequest.body = { password: "new-password" };
+
+      await UserController.updateUser(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(
+        1,
+        expect.not.objectContaining({ password: expect.anything() }),
+        undefined,
+        expect.stringMatching(/^scrypt\$/)
+      );
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: mockUser,
+        message: "User updated successfully",
+      });
+    });
+  });
+
+  describe("updateUser role", () => {
+    it("should let admins change a user's role", async () => {
+      const mockUpdatedUser = createMockDbResponse.user({ role: "editor" });
+      mockUserRepository.updateUser.mockResolvedValue(mockUpdatedUser);
+
+      mockRequest.params = { id: "1" };
+      mockRequest.body = { role: "editor" };
+      mockRequest.user = { id: 2, email: "admin@example.com", role: "admin" };
+
+      await UserController.updateUser(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(
+        1,
+        { role: "editor" },
+        undefined,
+        undefined
+      );
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it("should reject role changes from non-admins", async () => {
+      mockRequest.params = { id: "1" };
+      mockRequest.body = { role: "admin" };
+      mockRequest.user = { id: 1, email: "john@example.com", role: "user" };
+
+      await UserController.updateUser(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 403, code: "FORBIDDEN" })
+      );
+    });
+  });
+
+  describe("updateUser status", () => {
+    it("should reject status changes from non-admins", async () => {
+      mockRequest.params = { id: "1" };
+      mockRequest.body = { status: "active" };
+      mockRequest.user = { id: 1, email: "john@example.com", role: "user" };
+
+      await UserController.updateUser(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: 403,
+          message: "Only admins can change status",
+        })
+      );
+    });
+  });
+
   describe("deleteUser", () => {
-    it("should delete user successfully", async () => {
+    it("should soft delete the user by default", async () => {
+      mockUserRepository.softDelete.mockResolvedValue(true);
+
+      mockRequest.params = { id: "1" };
+
+      await UserController.deleteUser(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockUserRepository.softDelete).toHaveBeenCalledWith(1);
+      expect(mockUserRepository.delete).not.toHaveBeenCalled();
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        message: "User deactivated successfully",
+      });
+    });
+
+    it("should purge the user when an admin asks for a hard delete", async () => {
       mockUserRepository.delete.mockResolvedValue(true);
 
       mockRequest.params = { id: "1" };
+      mockRequest.validatedQuery = { hard: true };
+      mockRequest.user = { id: 2, email: "admin@example.com", role: "admin" };
 
       await UserController.deleteUser(
         mockRequest as Request,
@@ -252,8 +517,26 @@ describe("UserController", () => {
       expect(mockUserRepository.delete).toHaveBeenCalledWith(1);
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
-        message: "User deleted successfully",
+        message: "User permanently deleted",
       });
     });
+
+    it("should not let non-admins hard delete", async () => {
+      mockRequest.params = { id: "1" };
+      mockRequest.validatedQuery = { hard: true };
+      mockRequest.user = { id: 1, email: "john@example.com", role: "user" };
+
+      await UserController.deleteUser(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 403, code: "FORBIDDEN" })
+      );
+      expect(mockUserRepository.delete).not.toHaveBeenCalled();
+      expect(mockUserRepository.softDelete).not.toHaveBeenCalled();
+    });
   });
 });
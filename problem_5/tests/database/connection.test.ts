@@ -0,0 +1,291 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  Database,
+  databaseConfigFromEnv,
+  MEMORY_DB_PATH,
+  TransactionGroupError,
+  TransactionGuardError,
+} from "../../src/database/connection";
+
+describe("Database configuration", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("should read the configuration from the environment", () => {
+    process.env.DB_PATH = "tmp/app.sqlite";
+    process.env.DB_READ_ONLY = "true";
+    process.env.DB_BUSY_TIMEOUT_MS = "250";
+    process.env.DB_SYNCHRONOUS = "FULL";
+
+    expect(databaseConfigFromEnv()).toEqual({
+      driver: "sqlite",
+      url: "",
+      path: path.resolve("tmp/app.sqlite"),
+      readOnly: true,
+      busyTimeoutMs: 250,
+      pragmas: { journal_mode: "WAL", foreign_keys: "ON", synchronous: "FULL" },
+    });
+  });
+
+  it("should select the Postgres driver from the environment", () => {
+    process.env.DB_DRIVER = "postgres";
+    process.env.DATABASE_URL = "postgres://app@localhost/app";
+
+    expect(databaseConfigFromEnv()).toMatchObject({
+      driver: "postgres",
+      url: "postgres://app@localhost/app",
+    });
+  });
+
+  it("should apply the PRAGMAs, with constructor settings taking precedence", async () => {
+    const db = new Database({
+      path: MEMORY_DB_PATH,
+      pragmas: { synchronous: "OFF" },
+    });
+    await db.connect();
+
+    expect(await db.get("PRAGMA foreign_keys")).toEqual({ foreign_keys: 1 });
+    expect(await db.get("PRAGMA synchronous")).toEqual({ synchronous: 0 });
+    await db.close();
+  });
+
+  it("should keep in-memory databases apart", async () => {
+    const first = new Database({ path: MEMORY_DB_PATH });
+    const second = new Database({ path: MEMORY_DB_PATH });
+    await first.connect();
+    await second.connect();
+
+    await first.run("CREATE TABLE items (id INTEGER PRIMARY KEY)");
+
+    await expect(second.query("SELECT * FROM items")).rejects.toThrow(
+      "no such table"
+    );
+    await first.close();
+    await second.close();
+  });
+
+  it("should refuse writes in read-only mode", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "db-"));
+    const file = path.join(dir, "test.sqlite");
+    const writer = new Database({ path: file });
+    await writer.connect();
+    await writer.run("CREATE TABLE items (id INTEGER PRIMARY KEY)");
+    await writer.close();
+
+    const reader = new Database({ path: file, readOnly: true });
+    await reader.connect();
+
+    expect(await reader.query("SELECT * FROM items")).toEqual([]);
+    await expect(
+      reader.run("INSERT INTO items DEFAULT VALUES")
+    ).rejects.toMatchObject({ code: "SQLITE_READONLY" });
+    await reader.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should reject PRAGMA values that are not plain words", async () => {
+    const db = new Database({
+      path: MEMORY_DB_PATH,
+      pragmas: { synchronous: "OFF; DROP TABLE users" },
+    });
+
+    await expect(db.connect()).rejects.toThrow("Invalid PRAGMA");
+    await db.close();
+  });
+});
+
+describe("Database transactions", () => {
+  let db: Database;
+
+  const count = async (): Promise<number> =>
+    (await db.get<{ count: number }>("SELECT COUNT(*) AS count FROM items"))!
+      .count;
+
+  const insert = (name: string) => ({
+    sql: "INSERT INTO items (name) VALUES (?)",
+    params: [name],
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    db = new Database({ path: MEMORY_DB_PATH });
+    await db.connect();
+    await db.run(
+      "CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT UNIQUE NOT NULL)"
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  describe("transaction", () => {
+    it("should roll back every query when one fails", async () => {
+      await expect(
+        db.transaction([insert("a"), insert("a")])
+      ).rejects.toMatchObject({ code: "SQLITE_CONSTRAINT_UNIQUE" });
+
+      expect(await count()).toBe(0);
+    });
+
+    it("should roll back when a guarded query changes the wrong row count", async () => {
+      await expect(
+        db.transaction([
+          insert("a"),
+          { sql: "DELETE FROM items WHERE id = 99", expectChanges: 1 },
+        ])
+      ).rejects.toThrow(TransactionGuardError);
+
+      expect(await count()).toBe(0);
+    });
+
+    it("should queue concurrent transactions instead of nesting them", async () => {
+      await Promise.all([
+        db.transaction([insert("a"), insert("b")]),
+        db.transaction([insert("c")]),
+        db.transaction([insert("a")]).catch(() => undefined),
+        db.transaction([insert("d")]),
+      ]);
+
+      expect(await count()).toBe(4);
+    });
+  });
+
+  describe("withTransaction", () => {
+    it("should commit what the callback wrote and return its result", async () => {
+      const result = await db.withTransaction(async (tx) => {
+        await tx.run(insert("a").sql, insert("a").params);
+        return tx.get<{ name: string }>("SELECT name FROM items");
+      });
+
+      expect(result).toEqual({ name: "a" });
+      expect(await count()).toBe(1);
+    });
+
+    it("should roll back when the callback rejects", async () => {
+      await expect(
+        db.withTransaction(async (tx) => {
+          await tx.run("INSERT INTO items (name) VALUES ('a')");
+          throw new Error("Nope");
+        })
+      ).rejects.toThrow("Nope");
+
+      expect(await count()).toBe(0);
+    });
+
+    it("should only undo a nested transaction that rejects", async () => {
+      await db.withTransaction(async (tx) => {
+        await tx.run("INSERT INTO items (name) VALUES ('a')");
+        await tx
+          .withTransaction(async (inner) => {
+            await inner.run("INSERT INTO items (name) VALUES ('b')");
+            throw new Error("Nope");
+          })
+          .catch(() => undefined);
+        // Calls through the database join the open transaction
+        await db.withTransaction((inner) =>
+          inner.run("INSERT INTO items (name) VALUES ('c')")
+        );
+      });
+
+      expect(await db.query("SELECT name FROM items ORDER BY name")).toEqual([
+        { name: "a" },
+        { name: "c" },
+      ]);
+    });
+
+    it("should keep statements from outside out of a rolled back transaction", async () => {
+      let opened!: () => void;
+      const isOpen = new Promise<void>((resolve) => (opened = resolve));
+
+      const transaction = db.withTransaction(async (tx) => {
+        await tx.run("INSERT INTO items (name) VALUES ('a')");
+        opened();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        throw new Error("Nope");
+      });
+
+      // Like a statement from another request while the transaction is open
+      await isOpen;
+      const outside = db.run("INSERT INTO items (name) VALUES ('b')");
+
+      await expect(transaction).rejects.toThrow("Nope");
+      await outside;
+      expect(await db.query("SELECT name FROM items")).toEqual([{ name: "b" }]);
+    });
+
+    it("should not accept statements once the transaction has finished", async () => {
+      let handle: any;
+      await db.withTransaction(async (tx) => {
+        handle = tx;
+      });
+
+      await expect(handle.run("DELETE FROM items")).rejects.toThrow(
+        "Transaction has already finished"
+      );
+    });
+
+    it("should run every statement of a script with exec", async () => {
+      await db.withTransaction((tx) =>
+        tx.exec(`
+          INSERT INTO items (name) VALUES ('a');
+          INSERT INTO items (name) VALUES ('b');
+        `)
+      );
+
+      expect(await count()).toBe(2);
+    });
+  });
+
+  describe("transactionGroups", () => {
+    it("should keep the successful groups when continuing on errors", async () => {
+      const outcomes = await db.transactionGroups(
+        [[insert("a")], [insert("b"), insert("a")], [insert("c")]],
+        { continueOnError: true }
+      );
+
+      expect(outcomes[0].results).toEqual([{ lastID: 1, changes: 1 }]);
+      expect(outcomes[1].error).toMatchObject({
+        code: "SQLITE_CONSTRAINT_UNIQUE",
+      });
+      expect(outcomes[2].results).toHaveLength(1);
+      expect(await db.query("SELECT name FROM items ORDER BY name")).toEqual([
+        { name: "a" },
+        { name: "c" },
+      ]);
+    });
+
+    it("should roll everything back on the first failing group", async () => {
+      const failure = db.transactionGroups([
+        [insert("a")],
+        [
+          {
+            sql: "UPDATE items SET name = 'x' WHERE id = 99",
+            expectChanges: 1,
+          },
+        ],
+        [insert("c")],
+      ]);
+
+      await expect(failure).rejects.toThrow(TransactionGroupError);
+      await expect(failure).rejects.toMatchObject({
+        index: 1,
+        error: expect.any(TransactionGuardError),
+      });
+      expect(await count()).toBe(0);
+    });
+  });
+});
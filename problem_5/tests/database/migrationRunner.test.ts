@@ -0,0 +1,54 @@
+import { Database, MEMORY_DB_PATH } from "../../src/database/connection";
+import { MigrationRunner } from "../../src/database/migrationRunner";
+
+describe("MigrationRunner", () => {
+  let db: Database;
+  let runner: MigrationRunner;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    db = new Database({ path: MEMORY_DB_PATH });
+    await db.connect();
+    runner = new MigrationRunner(db);
+    await runner.runMigrations();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  const objects = async (type: string): Promise<string[]> =>
+    (
+      await db.query<{ name: string }>(
+        "SELECT name FROM sqlite_master WHERE type = ? ORDER BY name",
+        [type]
+      )
+    ).map((row) => row.name);
+
+  it("should run every migration", async () => {
+    const { pending } = await runner.getMigrationStatus();
+
+    expect(pending).toEqual([]);
+    expect(await objects("table")).toEqual(
+      expect.arrayContaining(["users", "products", "migrations"])
+    );
+  });
+
+  it("should run every statement of a migration", async () => {
+    // Both indexes follow the CREATE TABLE in the users migration
+    expect(await objects("index")).toEqual(
+      expect.arrayContaining(["idx_users_email", "idx_users_status"])
+    );
+  });
+
+  it("should roll back the last migration", async () => {
+    const { executed } = await runner.getMigrationStatus();
+
+    await runner.rollbackLastMigration();
+
+    expect((await runner.getMigrationStatus()).pending).toEqual([
+      executed[executed.length - 1],
+    ]);
+  });
+});
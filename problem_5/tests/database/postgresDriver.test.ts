@@ -0,0 +1,196 @@
+import { newDb } from "pg-mem";
+import { Database } from "../../src/database/connection";
+import {
+  PostgresClient,
+  PostgresDriver,
+  toPostgresPlaceholders,
+} from "../../src/database/drivers/postgresDriver";
+
+// A driver backed by pg-mem, an in-memory Postgres stand-in
+const createDriver = (): PostgresDriver => {
+  const { Client } = newDb().adapters.createPg();
+  return new PostgresDriver({ url: "" }, () => new Client());
+};
+
+describe("toPostgresPlaceholders", () => {
+  it("should number the placeholders in order", () => {
+    expect(
+      toPostgresPlaceholders("SELECT * FROM users WHERE id = ? AND age > ?")
+    ).toBe("SELECT * FROM users WHERE id = $1 AND age > $2");
+  });
+
+  it("should leave question marks in strings, identifiers and comments", () => {
+    expect(
+      toPostgresPlaceholders(
+        `SELECT 'what?', "odd?col", 'it''s ?' FROM t -- why?\nWHERE a = ? /* or ? */ AND b = ?`
+      )
+    ).toBe(
+      `SELECT 'what?', "odd?col", 'it''s ?' FROM t -- why?\nWHERE a = $1 /* or ? */ AND b = $2`
+    );
+  });
+});
+
+describe("PostgresDriver", () => {
+  let driver: PostgresDriver;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    driver = createDriver();
+    await driver.connect();
+    await driver.exec(`
+      CREATE TABLE items (id SERIAL PRIMARY KEY, name TEXT UNIQUE NOT NULL);
+      CREATE TABLE tags (id SERIAL PRIMARY KEY, label TEXT);
+    `);
+  });
+
+  afterEach(async () => {
+    await driver.close();
+  });
+
+  it("should report the returned id and the changed rows of a write", async () => {
+    const first = await driver.run(
+      "INSERT INTO items (name) VALUES (?) RETURNING id",
+      ["a"]
+    );
+    const second = await driver.run(
+      "INSERT INTO items (name) VALUES (?) RETURNING id",
+      ["b"]
+    );
+    const update = await driver.run("UPDATE items SET name = name || ?", ["!"]);
+
+    expect(first).toEqual({ lastID: 1, changes: 1 });
+    expect(second).toEqual({ lastID: 2, changes: 1 });
+    expect(update).toEqual({ lastID: undefined, changes: 2 });
+  });
+
+  it("should read rows with translated placeholders", async () => {
+    await driver.run("INSERT INTO items (name) VALUES (?), (?)", ["a", "b"]);
+
+    expect(
+      await driver.query("SELECT name FROM items WHERE name <> ? ORDER BY id", [
+        "b",
+      ])
+    ).toEqual([{ name: "a" }]);
+    expect(
+      await driver.get("SELECT * FROM items WHERE name = ?", ["b"])
+    ).toEqual({ id: 2, name: "b" });
+    expect(
+      await driver.get("SELECT * FROM items WHERE name = ?", ["c"])
+    ).toBeUndefined();
+  });
+
+  it("should map constraint violations to the SQLite error codes", async () => {
+    await driver.run("INSERT INTO items (name) VALUES (?)", ["a"]);
+
+    await expect(
+      driver.run("INSERT INTO items (name) VALUES (?)", ["a"])
+    ).rejects.toMatchObject({
+      name: "DatabaseError",
+      code: "SQLITE_CONSTRAINT_UNIQUE",
+    });
+  });
+
+  it("should refuse statements once closed", async () => {
+    await driver.close();
+
+    expect(driver.connected).toBe(false);
+    await expect(driver.query("SELECT 1", [])).rejects.toThrow(
+      "Database not connected"
+    );
+  });
+});
+
+describe("Database with the Postgres driver", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    db = new Database({}, createDriver());
+    await db.connect();
+    await db.exec(
+      "CREATE TABLE items (id SERIAL PRIMARY KEY, name TEXT NOT NULL)"
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("should return the created row from INSERT ... RETURNING *", async () => {
+    expect(
+      await db.get("INSERT INTO items (name) VALUES (?) RETURNING *", ["a"])
+    ).toEqual({ id: 1, name: "a" });
+  });
+
+  it("should commit a transaction", async () => {
+    const results = await db.transaction([
+      {
+        sql: "INSERT INTO items (name) VALUES (?) RETURNING id",
+        params: ["a"],
+      },
+      {
+        sql: "INSERT INTO items (name) VALUES (?) RETURNING id",
+        params: ["b"],
+      },
+    ]);
+
+    expect(results.map(({ lastID }) => lastID)).toEqual([1, 2]);
+    expect(await db.query("SELECT name FROM items ORDER BY id")).toEqual([
+      { name: "a" },
+      { name: "b" },
+    ]);
+  });
+});
+
+describe("Database transactions on Postgres", () => {
+  // pg-mem has no savepoints, so these check the statements sent
+  const recordingClient = () => {
+    const statements: string[] = [];
+    const client: PostgresClient = {
+      connect: async () => undefined,
+      end: async () => undefined,
+      query: async (text) => {
+        statements.push(text);
+        if (text.startsWith("INSERT INTO broken")) {
+          throw Object.assign(new Error("duplicate key"), { code: "23505" });
+        }
+        return { rows: [], rowCount: 1 };
+      },
+    };
+    return { statements, client };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should wrap nested work in savepoints", async () => {
+    const { statements, client } = recordingClient();
+    const db = new Database({}, new PostgresDriver({ url: "" }, () => client));
+    await db.connect();
+
+    await db.withTransaction(async (tx) => {
+      await tx.run("INSERT INTO items (name) VALUES (?)", ["a"]);
+      await tx
+        .withTransaction((inner) =>
+          inner.run("INSERT INTO broken (name) VALUES (?)", ["b"])
+        )
+        .catch(() => undefined);
+    });
+
+    expect(statements).toEqual([
+      "BEGIN TRANSACTION",
+      "INSERT INTO items (name) VALUES ($1)",
+      "SAVEPOINT savepoint_1",
+      "INSERT INTO broken (name) VALUES ($1)",
+      "ROLLBACK TO savepoint_1",
+      "RELEASE savepoint_1",
+      "COMMIT",
+    ]);
+  });
+});
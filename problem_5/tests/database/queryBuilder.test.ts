@@ -0,0 +1,132 @@
+import { selectFrom } from "../../src/database/queryBuilder";
+import { Product } from "../../src/types";
+
+describe("SelectQuery", () => {
+  const products = () => selectFrom<Product>("products");
+
+  it("should select every column by default", () => {
+    expect(products().toSQL()).toEqual({
+      sql: "SELECT * FROM products",
+      params: [],
+    });
+  });
+
+  it("should combine conditions with AND and pass values as parameters", () => {
+    expect(
+      products()
+        .select("id", "name")
+        .where("category", "Lighting")
+        .where("price", ">=", 10)
+        .whereIn("id", [1, 2, 3])
+        .whereLike("name", "%lamp%")
+        .whereNull("deleted_at")
+        .whereRaw("stock_quantity = ? OR is_active = ?", [0, false])
+        .orderBy("price", "DESC")
+        .orderBy("name")
+        .limit(10)
+        .offset(20)
+        .toSQL()
+    ).toEqual({
+      sql: "SELECT id, name FROM products WHERE category = ? AND price >= ? AND id IN (?, ?, ?) AND name LIKE ? AND deleted_at IS NULL AND (stock_quantity = ? OR is_active = ?) ORDER BY price DESC, name ASC LIMIT ? OFFSET ?",
+      params: ["Lighting", 10, 1, 2, 3, "%lamp%", 0, false, 10, 20],
+    });
+  });
+
+  it("should keep an OR in a raw condition inside the other conditions", () => {
+    expect(
+      products()
+        .whereNull("deleted_at")
+        .whereRaw("category = ? OR price < ?", ["Lighting", 10])
+        .toSQL()
+    ).toEqual({
+      sql: "SELECT * FROM products WHERE deleted_at IS NULL AND (category = ? OR price < ?)",
+      params: ["Lighting", 10],
+    });
+  });
+
+  it("should match nothing for an empty IN list", () => {
+    expect(products().whereIn("id", []).toSQL().sql).toBe(
+      "SELECT * FROM products WHERE 1 = 0"
+    );
+  });
+
+  it("should build aggregates grouped and ordered by alias", () => {
+    expect(
+      products()
+        .select("category")
+        .count()
+        .avg("price", "avg_price")
+        .where("is_active", true)
+        .groupBy("category")
+        .orderBy("count", "DESC")
+        .toSQL()
+    ).toEqual({
+      sql: "SELECT category, COUNT(*) AS count, AVG(price) AS avg_price FROM products WHERE is_active = ? GROUP BY category ORDER BY count DESC",
+      params: [true],
+    });
+  });
+
+  it("should only select the base table's columns from a join", () => {
+    expect(
+      products()
+        .join("products_fts", "products.id", "products_fts.rowid")
+        .whereRaw("products_fts MATCH ?", ['"lamp"*'])
+        .toSQL()
+    ).toEqual({
+      sql: "SELECT products.* FROM products JOIN products_fts ON products.id = products_fts.rowid WHERE (products_fts MATCH ?)",
+      params: ['"lamp"*'],
+    });
+  });
+
+  it("should count the rows of a query without its order and page", () => {
+    expect(
+      products()
+        .select("name")
+        .where("price", "<", 100)
+        .orderBy("name")
+        .limit(5)
+        .countQuery()
+        .toSQL()
+    ).toEqual({
+      sql: "SELECT COUNT(*) AS count FROM products WHERE price < ?",
+      params: [100],
+    });
+  });
+
+  it("should count grouped queries through a subquery", () => {
+    expect(
+      products()
+        .select("category")
+        .where("price", "<", 100)
+        .groupBy("category")
+        .countQuery()
+        .toSQL()
+    ).toEqual({
+      sql: "SELECT COUNT(*) AS count FROM (SELECT category FROM products WHERE price < ? GROUP BY category) AS counted",
+      params: [100],
+    });
+  });
+
+  it("should leave the original query unchanged", () => {
+    const base = products().where("is_active", true);
+
+    base.where("price", ">", 5).limit(1);
+
+    expect(base.toSQL()).toEqual({
+      sql: "SELECT * FROM products WHERE is_active = ?",
+      params: [true],
+    });
+  });
+
+  it("should reject identifiers and operators that are not plain", () => {
+    expect(() => selectFrom<Product>("products; DROP TABLE users")).toThrow(
+      "Invalid SQL identifier"
+    );
+    expect(() => products().select("name, password" as keyof Product)).toThrow(
+      "Invalid SQL identifier"
+    );
+    expect(() => products().where("price", "= 1 OR 1 =" as any, 1)).toThrow(
+      "Invalid comparison operator"
+    );
+  });
+});
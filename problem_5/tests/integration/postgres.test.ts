@@ -0,0 +1,100 @@
+import express from "express";
+import request from "supertest";
+import { database } from "../../src/database/connection";
+import { bearerFor } from "../utils/testHelpers";
+import { User } from "../../src/types";
+
+// Boots the app with DB_DRIVER=postgres; pg-mem, an in-memory Postgres
+// stand-in, replaces the pg client underneath the Postgres driver
+jest.mock("pg", () => {
+  const { newDb } = jest.requireActual("pg-mem");
+  return newDb().adapters.createPg();
+});
+
+process.env.DB_DRIVER = "postgres";
+process.env.DATABASE_URL = "postgres://localhost/app";
+
+describe("App on Postgres (integration)", () => {
+  let app: express.Application;
+  let editor: User;
+
+  beforeAll(async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      const { default: App } = await import("../../src/app");
+      const server = new App();
+      await server.initializeDatabase();
+      app = server.app;
+
+      editor = (await database.get<User>(
+        "INSERT INTO users (name, email, role) VALUES (?, ?, ?) RETURNING *",
+        ["Eddie", "eddie@example.com", "editor"]
+      )) as User;
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    await database.close();
+    log.mockRestore();
+  });
+
+  it("should run the Postgres migrations", async () => {
+    expect(await database.query("SELECT id FROM migrations")).toEqual([
+      { id: "1736001800000_create_schema" },
+    ]);
+  });
+
+  it("should sign up a user who can then log in", async () => {
+    const created = await request(app).post("/api/users").send({
+      name: "Nia",
+      email: "nia@example.com",
+      password: "a long enough password",
+    });
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "nia@example.com", password: "a long enough password" });
+
+    expect(created.status).toBe(201);
+    expect(login.status).toBe(200);
+    expect(login.body.data.user).toMatchObject({
+      id: created.body.data.id,
+      role: "user",
+    });
+  });
+
+  it("should create, update and list products", async () => {
+    const created = await request(app)
+      .post("/api/products")
+      .set("Authorization", bearerFor(editor))
+      .send({ name: "Desk Lamp", price: 24.99, category: "Lighting" });
+    const updated = await request(app)
+      .put(`/api/products/${created.body.data.id}`)
+      .set("Authorization", bearerFor(editor))
+      .set("If-Match", '"1"')
+      .send({ price: 19.99 });
+    const listed = await request(app).get("/api/products?is_active=true");
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ price: 24.99, is_active: true });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data).toMatchObject({ price: 19.99, version: 2 });
+    expect(listed.body.data).toEqual([
+      expect.objectContaining({ name: "Desk Lamp", price: 19.99 }),
+    ]);
+  });
+
+  it("should answer product search with 501", async () => {
+    const res = await request(app).get("/api/products/search?q=lamp");
+
+    expect(res.status).toBe(501);
+    expect(res.body.error.code).toBe("NOT_IMPLEMENTED");
+  });
+});
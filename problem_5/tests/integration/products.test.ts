@@ -0,0 +1,180 @@
+import request from "supertest";
+import { database } from "../../src/database/connection";
+import { bearerFor, useTestApp } from "../utils/testHelpers";
+
+describe("Products API (integration)", () => {
+  const harness = useTestApp();
+
+  const editor = () => bearerFor(harness.fixtures.users.editor);
+  const names = (products: { name: string }[]) =>
+    products.map((product) => product.name);
+
+  describe("GET /api/products", () => {
+    it("should list products that are not in the trash", async () => {
+      const res = await request(harness.app).get("/api/products");
+
+      expect(res.status).toBe(200);
+      expect(names(res.body.data).sort()).toEqual([
+        "Coffee Mug",
+        "Desk Lamp",
+        "Standing Desk",
+      ]);
+      expect(res.body.pagination).toMatchObject({ total: 3, totalPages: 1 });
+    });
+
+    it("should combine simple and bracketed filters", async () => {
+      const res = await request(harness.app).get(
+        "/api/products?is_active=true&price_max=100&filter[name][contains]=lamp"
+      );
+
+      expect(res.status).toBe(200);
+      expect(names(res.body.data)).toEqual(["Desk Lamp"]);
+    });
+
+    it("should sort and project fields", async () => {
+      const res = await request(harness.app).get(
+        "/api/products?sort=-price&fields=name,price"
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual([
+        {
+          id: harness.fixtures.products.desk.id,
+          name: "Standing Desk",
+          price: 399,
+        },
+        {
+          id: harness.fixtures.products.lamp.id,
+          name: "Desk Lamp",
+          price: 24.99,
+        },
+        {
+          id: harness.fixtures.products.mug.id,
+          name: "Coffee Mug",
+          price: 8.5,
+        },
+      ]);
+    });
+
+    it("should page with cursors", async () => {
+      const first = await request(harness.app).get(
+        "/api/products?cursor=&limit=2"
+      );
+      const second = await request(harness.app).get(
+        `/api/products?cursor=${first.body.pagination.nextCursor}&limit=2`
+      );
+
+      expect(first.body.data).toHaveLength(2);
+      expect(second.body.data).toHaveLength(1);
+      expect(second.body.pagination.nextCursor).toBeNull();
+    });
+  });
+
+  it("should find products with full-text search", async () => {
+    const res = await request(harness.app).get("/api/products/search?q=dimmer");
+
+    expect(res.status).toBe(200);
+    expect(names(res.body.data)).toEqual(["Desk Lamp"]);
+  });
+
+  it("should compute stats over the products outside the trash", async () => {
+    const res = await request(harness.app)
+      .get("/api/products/stats")
+      .set("Authorization", editor());
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      total: 3,
+      active: 2,
+      inactive: 1,
+    });
+  });
+
+  it("should create a product and store it", async () => {
+    const res = await request(harness.app)
+      .post("/api/products")
+      .set("Authorization", editor())
+      .send({ name: "Bookshelf", price: 89, category: "Furniture" });
+
+    expect(res.status).toBe(201);
+    expect(
+      await database.get(
+        "SELECT name, price, version FROM products WHERE id = ?",
+        [res.body.data.id]
+      )
+    ).toEqual({ name: "Bookshelf", price: 89, version: 1 });
+  });
+
+  it("should patch a product at the version it was read", async () => {
+    const { lamp } = harness.fixtures.products;
+    const read = await request(harness.app).get(`/api/products/${lamp.id}`);
+
+    const patched = await request(harness.app)
+      .patch(`/api/products/${lamp.id}`)
+      .set("Authorization", editor())
+      .set("Content-Type", "application/merge-patch+json")
+      .set("If-Match", read.headers.etag)
+      .send(JSON.stringify({ price: 19.99, description: null }));
+    const stale = await request(harness.app)
+      .patch(`/api/products/${lamp.id}`)
+      .set("Authorization", editor())
+      .set("Content-Type", "application/merge-patch+json")
+      .set("If-Match", read.headers.etag)
+      .send(JSON.stringify({ price: 9.99 }));
+
+    expect(patched.status).toBe(200);
+    expect(patched.headers.etag).toBe('"2"');
+    expect(stale.status).toBe(412);
+    expect(
+      await database.get(
+        "SELECT price, description, version FROM products WHERE id = ?",
+        [lamp.id]
+      )
+    ).toEqual({ price: 19.99, description: null, version: 2 });
+  });
+
+  it("should move deleted products to the trash and restore them", async () => {
+    const { desk } = harness.fixtures.products;
+
+    const deleted = await request(harness.app)
+      .delete(`/api/products/${desk.id}`)
+      .set("Authorization", editor());
+    const hidden = await request(harness.app).get(`/api/products/${desk.id}`);
+    const trash = await request(harness.app)
+      .get("/api/products/trash")
+      .set("Authorization", editor());
+
+    expect(deleted.status).toBe(200);
+    expect(hidden.status).toBe(404);
+    expect(names(trash.body.data)).toEqual(["Standing Desk", "Office Chair"]);
+
+    const restored = await request(harness.app)
+      .post(`/api/products/${desk.id}/restore`)
+      .set("Authorization", editor());
+
+    expect(restored.status).toBe(200);
+    expect(
+      await database.get("SELECT deleted_at FROM products WHERE id = ?", [
+        desk.id,
+      ])
+    ).toEqual({ deleted_at: null });
+  });
+
+  it("should save nothing when an atomic bulk operation fails", async () => {
+    const res = await request(harness.app)
+      .post("/api/products/bulk")
+      .set("Authorization", editor())
+      .send({
+        operations: [
+          { op: "create", data: { name: "Bookshelf", price: 89 } },
+          { op: "delete", id: harness.fixtures.products.chair.id },
+        ],
+      });
+
+    expect(res.status).toBe(404);
+    expect(res.body.error.details).toMatchObject({ index: 1 });
+    expect(
+      await database.get("SELECT COUNT(*) AS count FROM products")
+    ).toEqual({ count: 4 });
+  });
+});
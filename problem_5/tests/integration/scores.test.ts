@@ -0,0 +1,65 @@
+import request from "supertest";
+import { bearerFor, FIXTURE_PASSWORD, useTestApp } from "../utils/testHelpers";
+
+describe("Scoreboard API (integration)", () => {
+  const harness = useTestApp();
+
+  const player = () => bearerFor(harness.fixtures.users.user);
+
+  const login = () =>
+    request(harness.app).post("/api/auth/login").send({
+      email: harness.fixtures.users.user.email,
+      password: FIXTURE_PASSWORD,
+    });
+
+  it("should credit the daily login once and reject the replayed token", async () => {
+    const { dailyLoginToken } = (await login()).body.data;
+
+    const update = () =>
+      request(harness.app)
+        .post("/api/v1/scores/update")
+        .set("Authorization", player())
+        .send({
+          actionToken: dailyLoginToken.token,
+          actionType: "daily_login",
+        });
+    const credited = await update();
+    const replayed = await update();
+    const top10 = await request(harness.app).get("/api/v1/scoreboard/top10");
+
+    expect(credited.status).toBe(200);
+    expect(credited.body.data).toEqual({
+      newScore: 10,
+      rank: 1,
+      scoreIncrease: 10,
+    });
+    expect(replayed.status).toBe(400);
+    expect(replayed.body.error.code).toBe("INVALID_ACTION_TOKEN");
+    expect(top10.body.data.leaderboard).toEqual([
+      expect.objectContaining({
+        userId: harness.fixtures.users.user.id,
+        score: 10,
+      }),
+    ]);
+  });
+
+  it("should hand out one daily login token per day", async () => {
+    const first = await login();
+    const second = await login();
+
+    expect(first.body.data.dailyLoginToken).toEqual({
+      token: expect.any(String),
+      expiresAt: expect.any(String),
+    });
+    expect(second.status).toBe(200);
+    expect(second.body.data.dailyLoginToken).toBeNull();
+  });
+
+  it("should not let clients mint action tokens", async () => {
+    const res = await request(harness.app)
+      .post("/api/v1/actions/level_completed/complete")
+      .set("Authorization", player());
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,7 @@
+// Runs before each integration suite loads the app. Every suite gets its own
+// in-memory database, migrated when useTestApp() boots the app.
+process.env.DB_PATH = ":memory:";
+process.env.JWT_SECRET = "test-secret";
+process.env.RATE_LIMIT_STORE = "memory";
+process.env.RATE_LIMIT_MAX = "10000";
+process.env.ACTION_TOKEN_SECRET = "test-action-secret";
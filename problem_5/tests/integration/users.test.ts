@@ -0,0 +1,201 @@
+import request from "supertest";
+import { database } from "../../src/database/connection";
+import { userRepository } from "../../src/repositories";
+import { bearerFor, FIXTURE_PASSWORD, useTestApp } from "../utils/testHelpers";
+
+describe("Users and auth API (integration)", () => {
+  const harness = useTestApp();
+
+  const admin = () => bearerFor(harness.fixtures.users.admin);
+
+  it("should sign up a user who can then log in", async () => {
+    const created = await request(harness.app).post("/api/users").send({
+      name: "Nia",
+      email: "nia@example.com",
+      password: "a long enough password",
+    });
+    const login = await request(harness.app)
+      .post("/api/auth/login")
+      .send({ email: "nia@example.com", password: "a long enough password" });
+
+    expect(created.status).toBe(201);
+    expect(login.status).toBe(200);
+    expect(login.body.data.user).toMatchObject({
+      id: created.body.data.id,
+      role: "user",
+    });
+  });
+
+  it("should reject a second account with the same email", async () => {
+    const res = await request(harness.app).post("/api/users").send({
+      name: "Another Ada",
+      email: harness.fixtures.users.admin.email,
+    });
+
+    expect(res.status).toBe(409);
+    expect(await database.get("SELECT COUNT(*) AS count FROM users")).toEqual({
+      count: 3,
+    });
+  });
+
+  it("should not keep a new user whose password failed to save", async () => {
+    jest
+      .spyOn(userRepository, "setPasswordHash")
+      .mockRejectedValue(new Error("disk full"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await request(harness.app).post("/api/users").send({
+      name: "Nia",
+      email: "nia@example.com",
+      password: "a long enough password",
+    });
+
+    expect(res.status).toBe(500);
+    expect(
+      await database.get("SELECT id FROM users WHERE email = ?", [
+        "nia@example.com",
+      ])
+    ).toBeUndefined();
+  });
+
+  it("should not keep profile changes when the new password failed to save", async () => {
+    const { user } = harness.fixtures.users;
+    jest
+      .spyOn(userRepository, "setPasswordHash")
+      .mockRejectedValue(new Error("disk full"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await request(harness.app)
+      .put(`/api/users/${user.id}`)
+      .set("Authorization", bearerFor(user))
+      .send({ name: "Renamed", password: "a long enough password" });
+
+    expect(res.status).toBe(500);
+    expect(
+      await database.get("SELECT name, version FROM users WHERE id = ?", [
+        user.id,
+      ])
+    ).toEqual({ name: user.name, version: user.version });
+  });
+
+  it("should rotate refresh tokens and revoke reused ones", async () => {
+    const login = await request(harness.app).post("/api/auth/login").send({
+      email: harness.fixtures.users.user.email,
+      password: FIXTURE_PASSWORD,
+    });
+    const { refreshToken } = login.body.data;
+
+    const refreshed = await request(harness.app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken });
+    const reused = await request(harness.app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken });
+
+    expect(refreshed.status).toBe(200);
+    expect(reused.status).toBe(401);
+    expect(
+      await database.get(
+        "SELECT COUNT(*) AS count FROM refresh_tokens WHERE revoked_at IS NULL"
+      )
+    ).toEqual({ count: 0 });
+  });
+
+  it("should filter and sort users for authenticated callers", async () => {
+    const res = await request(harness.app)
+      .get("/api/users?age_min=30&sort=-age")
+      .set("Authorization", admin());
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((user: { name: string }) => user.name)).toEqual([
+      "Uma",
+      "Ada",
+    ]);
+  });
+
+  it("should deactivate users on delete and count them in the stats", async () => {
+    const { user } = harness.fixtures.users;
+
+    const deleted = await request(harness.app)
+      .delete(`/api/users/${user.id}`)
+      .set("Authorization", admin());
+    const login = await request(harness.app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: FIXTURE_PASSWORD });
+    const stats = await request(harness.app)
+      .get("/api/users/stats")
+      .set("Authorization", admin());
+
+    expect(deleted.status).toBe(200);
+    expect(login.status).toBe(401);
+    expect(stats.body.data).toMatchObject({ total: 3, active: 2, inactive: 1 });
+  });
+
+  it("should not let a deactivated user reactivate themselves", async () => {
+    const { user } = harness.fixtures.users;
+
+    await request(harness.app)
+      .delete(`/api/users/${user.id}`)
+      .set("Authorization", admin());
+    const reactivated = await request(harness.app)
+      .put(`/api/users/${user.id}`)
+      .set("Authorization", bearerFor(user))
+      .send({ status: "active" });
+    const stored = await database.get("SELECT status FROM users WHERE id = ?", [
+      user.id,
+    ]);
+
+    expect(reactivated.status).toBe(401);
+    expect(reactivated.body.error.message).toBe("Account is inactive");
+    expect(stored).toEqual({ status: "inactive" });
+  });
+
+  it("should remove a user's credentials and sessions on hard delete", async () => {
+    const { user } = harness.fixtures.users;
+    await request(harness.app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: FIXTURE_PASSWORD });
+
+    const res = await request(harness.app)
+      .delete(`/api/users/${user.id}?hard=true`)
+      .set("Authorization", admin());
+
+    expect(res.status).toBe(200);
+    for (const table of ["user_credentials", "refresh_tokens"]) {
+      expect(
+        await database.get(
+          `SELECT COUNT(*) AS count FROM ${table} WHERE user_id = ?`,
+          [user.id]
+        )
+      ).toEqual({ count: 0 });
+    }
+  });
+
+  it("should create users and their passwords in bulk", async () => {
+    const res = await request(harness.app)
+      .post("/api/users/bulk")
+      .set("Authorization", admin())
+      .send({
+        mode: "best_effort",
+        operations: [
+          {
+            op: "create",
+            data: {
+              name: "Bo",
+              email: "bo@example.com",
+              password: "bulk created password",
+            },
+          },
+          { op: "update", id: 999, data: { age: 50 } },
+        ],
+      });
+    const login = await request(harness.app)
+      .post("/api/auth/login")
+      .send({ email: "bo@example.com", password: "bulk created password" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(res.body.data.results[1]).toMatchObject({ status: 404 });
+    expect(login.status).toBe(200);
+  });
+});
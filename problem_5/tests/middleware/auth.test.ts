@@ -0,0 +1,166 @@
+import { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import {
+  requireAuth,
+  requireRole,
+  requireSelfOrRole,
+} from "../../src/middleware/auth";
+import { signAccessToken } from "../../src/services/jwtService";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { userRepository } from "../../src/repositories";
+import { createMockRequest } from "../utils/testHelpers";
+
+jest.mock("../../src/repositories", () => ({
+  userRepository: {
+    isActive: jest.fn(),
+  },
+}));
+
+const mockUserRepository = userRepository as jest.Mocked<typeof userRepository>;
+
+describe("requireAuth", () => {
+  const next = jest.fn();
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = "test-jwt-secret";
+    mockUserRepository.isActive.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    delete process.env.JWT_SECRET;
+  });
+
+  const run = async (authorization?: string) => {
+    const req = createMockRequest({
+      headers: authorization ? { authorization } : {},
+    }) as Request;
+    await requireAuth(req, {} as Response, next);
+    return req;
+  };
+
+  it("should attach the authenticated user for a valid bearer token", async () => {
+    const token = signAccessToken({
+      id: 7,
+      email: "john@example.com",
+      role: "editor",
+    });
+
+    const req = await run(`Bearer ${token}`);
+
+    expect(req.user).toEqual({
+      id: 7,
+      email: "john@example.com",
+      role: "editor",
+    });
+    expect(mockUserRepository.isActive).toHaveBeenCalledWith(7);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should default to the user role when the token has none", async () => {
+    const token = jwt.sign({ email: "x@example.com" }, "test-jwt-secret", {
+      subject: "7",
+    });
+
+    expect((await run(`Bearer ${token}`)).user?.role).toBe("user");
+  });
+
+  it("should reject requests without a bearer token", async () => {
+    await expect(run()).rejects.toThrow(
+      new ApiError("Authentication required", 401)
+    );
+    await expect(run("Basic abc")).rejects.toThrow(ApiError);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should reject tokens signed with another secret", async () => {
+    const token = jwt.sign({ email: "x@example.com" }, "other-secret", {
+      subject: "7",
+    });
+
+    await expect(run(`Bearer ${token}`)).rejects.toThrow(
+      expect.objectContaining({ statusCode: 401, code: "UNAUTHORIZED" })
+    );
+  });
+
+  it("should reject expired tokens", async () => {
+    const token = jwt.sign({ email: "x@example.com" }, "test-jwt-secret", {
+      subject: "7",
+      expiresIn: -1,
+    });
+
+    await expect(run(`Bearer ${token}`)).rejects.toThrow(
+      "Access token has expired"
+    );
+  });
+
+  it("should reject valid tokens of inactive users", async () => {
+    mockUserRepository.isActive.mockResolvedValue(false);
+    const token = signAccessToken({
+      id: 7,
+      email: "john@example.com",
+      role: "user",
+    });
+
+    await expect(run(`Bearer ${token}`)).rejects.toMatchObject({
+      statusCode: 401,
+      message: "Account is inactive",
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe("requireRole", () => {
+  const next = jest.fn();
+
+  const run = (user?: Request["user"]) => {
+    const req = createMockRequest({ user }) as Request;
+    requireRole("admin", "editor")(req, {} as Response, next);
+  };
+
+  it("should allow users with one of the given roles", () => {
+    run({ id: 1, email: "editor@example.com", role: "editor" });
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should reject users without one of the given roles", () => {
+    expect(() =>
+      run({ id: 1, email: "john@example.com", role: "user" })
+    ).toThrow(expect.objectContaining({ statusCode: 403, code: "FORBIDDEN" }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should reject unauthenticated requests", () => {
+    expect(() => run()).toThrow(
+      expect.objectContaining({ statusCode: 401, code: "UNAUTHORIZED" })
+    );
+  });
+});
+
+describe("requireSelfOrRole", () => {
+  const next = jest.fn();
+
+  const run = (id: string, user: Request["user"]) => {
+    const req = createMockRequest({ params: { id }, user }) as Request;
+    requireSelfOrRole("admin")(req, {} as Response, next);
+  };
+
+  it("should allow users to act on themselves", () => {
+    run("7", { id: 7, email: "john@example.com", role: "user" });
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should allow admins to act on other users", () => {
+    run("7", { id: 1, email: "admin@example.com", role: "admin" });
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should reject users acting on someone else", () => {
+    expect(() =>
+      run("7", { id: 8, email: "jane@example.com", role: "editor" })
+    ).toThrow(expect.objectContaining({ statusCode: 403, code: "FORBIDDEN" }));
+    expect(next).not.toHaveBeenCalled();
+  });
+});
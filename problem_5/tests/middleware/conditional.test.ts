@@ -0,0 +1,65 @@
+import { Request, Response } from "express";
+import {
+  parseIfMatch,
+  setVersionETag,
+  versionETag,
+} from "../../src/middleware/conditional";
+
+describe("conditional requests", () => {
+  describe("parseIfMatch", () => {
+    const run = (header?: string) => {
+      const req = {
+        get: jest.fn().mockReturnValue(header),
+      } as unknown as Request;
+      const next = jest.fn();
+
+      parseIfMatch(req, {} as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      return req;
+    };
+
+    it("should leave requests without If-Match unconditional", () => {
+      expect(run().ifMatch).toBeUndefined();
+    });
+
+    it("should treat * as unconditional", () => {
+      expect(run(" * ").ifMatch).toBeUndefined();
+    });
+
+    it("should collect every strong version tag", () => {
+      expect(run('"3", W/"4", "5"').ifMatch).toEqual([3, 5]);
+    });
+
+    it.each(['W/"3"', "3", '"abc"'])(
+      "should fail the precondition for %s",
+      (header) => {
+        expect(() => run(header)).toThrow(
+          expect.objectContaining({
+            statusCode: 412,
+            code: "PRECONDITION_FAILED",
+          })
+        );
+      }
+    );
+  });
+
+  describe("setVersionETag", () => {
+    it("should set a strong ETag from the record version", () => {
+      const res = { setHeader: jest.fn() } as unknown as Response;
+
+      setVersionETag(res, { version: 7 });
+
+      expect(res.setHeader).toHaveBeenCalledWith("ETag", versionETag(7));
+      expect(versionETag(7)).toBe('"7"');
+    });
+
+    it("should leave records without a version alone", () => {
+      const res = { setHeader: jest.fn() } as unknown as Response;
+
+      setVersionETag(res, {});
+
+      expect(res.setHeader).not.toHaveBeenCalled();
+    });
+  });
+});
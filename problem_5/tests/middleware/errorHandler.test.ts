@@ -0,0 +1,151 @@
+import { Request, Response } from "express";
+import {
+  ApiError,
+  errorHandler,
+  notFoundHandler,
+  toApiError,
+} from "../../src/middleware/errorHandler";
+import { DatabaseError } from "../../src/database/connection";
+import { VersionMismatchError } from "../../src/repositories/errors";
+import { createMockRequest, createMockResponse } from "../utils/testHelpers";
+
+describe("errorHandler", () => {
+  let res: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2024-01-01T00:00:00.000Z") });
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    ({ response: res, mockJson, mockStatus } = createMockResponse());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const handle = (error: Error) => {
+    const req = createMockRequest({ requestId: "req-1" }) as Request;
+    errorHandler(error, req, res as Response, jest.fn());
+  };
+
+  it("should render ApiErrors with their code, details and request id", () => {
+    handle(new ApiError("Too fast", 429, "RATE_LIMIT_EXCEEDED", { limit: 10 }));
+
+    expect(mockStatus).toHaveBeenCalledWith(429);
+    expect(mockJson).toHaveBeenCalledWith({
+      success: false,
+      error: {
+        code: "RATE_LIMIT_EXCEEDED",
+        message: "Too fast",
+        details: {
+          limit: 10,
+          timestamp: "2024-01-01T00:00:00.000Z",
+          requestId: "req-1",
+        },
+      },
+    });
+  });
+
+  it("should map unique constraint violations to 409 CONFLICT", () => {
+    handle(
+      new DatabaseError(
+        "SQLITE_CONSTRAINT: UNIQUE constraint failed: users.email",
+        "SQLITE_CONSTRAINT_UNIQUE",
+        19
+      )
+    );
+
+    expect(mockStatus).toHaveBeenCalledWith(409);
+    expect(mockJson).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: "CONFLICT",
+          message: "Resource already exists with this unique field",
+        }),
+      })
+    );
+  });
+
+  it("should map foreign key violations to 400 INVALID_REFERENCE", () => {
+    handle(
+      new DatabaseError(
+        "SQLITE_CONSTRAINT: FOREIGN KEY constraint failed",
+        "SQLITE_CONSTRAINT_FOREIGNKEY"
+      )
+    );
+
+    expect(mockStatus).toHaveBeenCalledWith(400);
+    expect(mockJson).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({ code: "INVALID_REFERENCE" }),
+      })
+    );
+  });
+
+  it("should not infer a status from the message text of unknown errors", () => {
+    handle(new Error("UNIQUE constraint failed: users.email"));
+
+    expect(mockStatus).toHaveBeenCalledWith(500);
+    expect(mockJson).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({ code: "INTERNAL_ERROR" }),
+      })
+    );
+  });
+
+  it("should render unknown routes as NOT_FOUND", () => {
+    const req = createMockRequest({
+      originalUrl: "/api/missing",
+      requestId: "req-2",
+    }) as Request;
+
+    notFoundHandler(req, res as Response);
+
+    expect(mockStatus).toHaveBeenCalledWith(404);
+    expect(mockJson).toHaveBeenCalledWith({
+      success: false,
+      error: {
+        code: "NOT_FOUND",
+        message: "Route /api/missing not found",
+        details: {
+          timestamp: "2024-01-01T00:00:00.000Z",
+          requestId: "req-2",
+        },
+      },
+    });
+  });
+});
+
+describe("ApiError", () => {
+  it("should derive the code from the status when none is given", () => {
+    expect(new ApiError("Missing", 404).code).toBe("NOT_FOUND");
+    expect(new ApiError("Bad", 400).code).toBe("BAD_REQUEST");
+    expect(new ApiError("Boom").code).toBe("INTERNAL_ERROR");
+  });
+});
+
+describe("toApiError", () => {
+  it("should pass ApiErrors through unchanged", () => {
+    const error = new ApiError("Missing", 404);
+
+    expect(toApiError(error, "Error finding user")).toBe(error);
+  });
+
+  it("should answer version mismatches with 412", () => {
+    const error = toApiError(new VersionMismatchError("products"));
+
+    expect(error).toMatchObject({
+      statusCode: 412,
+      code: "PRECONDITION_FAILED",
+      message: "The products record has been modified since it was read",
+    });
+  });
+
+  it("should prefix unknown errors with the given context", () => {
+    const error = toApiError(new Error("disk I/O error"), "Error finding user");
+
+    expect(error.statusCode).toBe(500);
+    expect(error.message).toBe("Error finding user: Error: disk I/O error");
+  });
+});
@@ -0,0 +1,168 @@
+import { Request, Response } from "express";
+import { rateLimit } from "../../src/middleware/rateLimit";
+import { MemoryRateLimitStore } from "../../src/services/rateLimitStore";
+import { createMockRequest } from "../utils/testHelpers";
+
+describe("rateLimit", () => {
+  let store: MemoryRateLimitStore;
+  let headers: Record<string, string>;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    store = new MemoryRateLimitStore();
+    headers = {};
+    next = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const run = async (
+    middleware: ReturnType<typeof rateLimit>,
+    overrides: Partial<Request> = {}
+  ) => {
+    headers = {};
+    next = jest.fn();
+    const req = createMockRequest({ ip: "10.0.0.1", ...overrides }) as Request;
+    const res = {
+      setHeader: jest.fn((name: string, value: string) => {
+        headers[name] = value;
+      }),
+    } as unknown as Response;
+    await middleware(req, res, next);
+  };
+
+  it("should set RateLimit headers and call next while under the limit", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      limit: 2,
+      windowMs: 60000,
+      store,
+    });
+
+    await run(limiter);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(headers).toEqual({
+      "RateLimit-Limit": "2",
+      "RateLimit-Remaining": "1",
+      "RateLimit-Reset": "60",
+    });
+  });
+
+  it("should reject with RATE_LIMIT_EXCEEDED and Retry-After once the limit is hit", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      limit: 2,
+      windowMs: 60000,
+      store,
+    });
+
+    await run(limiter);
+    jest.setSystemTime(15000);
+    await run(limiter);
+    jest.setSystemTime(30000);
+    await run(limiter);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 429, code: "RATE_LIMIT_EXCEEDED" })
+    );
+    expect(headers["RateLimit-Remaining"]).toBe("0");
+    expect(headers["Retry-After"]).toBe("30");
+  });
+
+  it("should allow requests again as the window slides", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      limit: 1,
+      windowMs: 60000,
+      store,
+    });
+
+    await run(limiter);
+    jest.setSystemTime(60000);
+    await run(limiter);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("should key authenticated requests by user id", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      limit: 1,
+      windowMs: 60000,
+      store,
+    });
+    const user = { id: 1, email: "john@example.com", role: "user" as const };
+
+    await run(limiter, { user });
+    await run(limiter, { user, ip: "10.0.0.2" });
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 429 })
+    );
+
+    await run(limiter, { user: { ...user, id: 2 } });
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("should key by IP when configured to", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      limit: 1,
+      windowMs: 60000,
+      keyBy: "ip",
+      store,
+    });
+    const user = { id: 1, email: "john@example.com", role: "user" as const };
+
+    await run(limiter, { user });
+    await run(limiter, { user: { ...user, id: 2 } });
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 429 })
+    );
+  });
+
+  it("should keep separate budgets per limiter name", async () => {
+    await run(rateLimit({ name: "a", limit: 1, windowMs: 60000, store }));
+    await run(rateLimit({ name: "b", limit: 1, windowMs: 60000, store }));
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("should suspend repeat offenders", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      limit: 1,
+      windowMs: 60000,
+      store,
+      suspension: { violations: 2, windowMs: 600000, durationMs: 900000 },
+    });
+
+    await run(limiter);
+    await run(limiter);
+    expect(headers["Retry-After"]).toBe("60");
+
+    await run(limiter);
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Too many requests, temporarily suspended",
+      })
+    );
+    expect(headers["Retry-After"]).toBe("900");
+
+    // Still suspended after the regular window has passed
+    jest.setSystemTime(120000);
+    await run(limiter);
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 429 })
+    );
+    expect(headers["Retry-After"]).toBe("780");
+
+    jest.setSystemTime(900000);
+    await run(limiter);
+    expect(next).toHaveBeenCalledWith();
+  });
+});
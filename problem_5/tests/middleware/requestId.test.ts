@@ -0,0 +1,38 @@
+import { Request, Response } from "express";
+import { requestId } from "../../src/middleware/requestId";
+
+describe("requestId", () => {
+  const run = (header?: string) => {
+    const req = {
+      get: jest.fn().mockReturnValue(header),
+    } as unknown as Request;
+    const res = { setHeader: jest.fn() } as unknown as Response;
+    const next = jest.fn();
+
+    requestId(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    return { req, res };
+  };
+
+  it("should echo a valid incoming X-Request-Id", () => {
+    const { req, res } = run("abc-123");
+
+    expect(req.requestId).toBe("abc-123");
+    expect(res.setHeader).toHaveBeenCalledWith("X-Request-Id", "abc-123");
+  });
+
+  it("should generate an id when none is sent", () => {
+    const { req, res } = run();
+
+    expect(req.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.setHeader).toHaveBeenCalledWith("X-Request-Id", req.requestId);
+  });
+
+  it("should replace ids that are not log-safe", () => {
+    const { req } = run("bad id\nwith newline");
+
+    expect(req.requestId).not.toContain("\n");
+    expect(req.requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
@@ -0,0 +1,252 @@
+import { Request, Response } from "express";
+import {
+  validateCreateUser,
+  validateIdParam,
+  validateProductQuery,
+  validateProductSearch,
+  validateUserQuery,
+  validateUserFields,
+} from "../../src/middleware/validation";
+import { createMockRequest } from "../utils/testHelpers";
+
+describe("validate", () => {
+  const next = jest.fn();
+
+  const run = (
+    middleware: typeof validateCreateUser,
+    overrides: Partial<Request>
+  ) => {
+    const req = createMockRequest(overrides) as Request;
+    middleware(req, {} as Response, next);
+    return req;
+  };
+
+  const validationError = (
+    middleware: typeof validateCreateUser,
+    overrides: Partial<Request>
+  ) => {
+    try {
+      run(middleware, overrides);
+    } catch (error) {
+      return error as any;
+    }
+    throw new Error("Expected validation to fail");
+  };
+
+  it("should replace the body with the validated value", () => {
+    const req = run(validateCreateUser, {
+      body: { name: "John", email: "john@example.com", extra: true },
+    });
+
+    expect(req.body).toEqual({
+      name: "John",
+      email: "john@example.com",
+      status: "active",
+    });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should keep converted query values on validatedQuery", () => {
+    const req = run(validateUserQuery, {
+      query: { age_min: "18", include_total: "true", junk: "x" } as any,
+    });
+
+    expect(req.validatedQuery).toEqual({
+      age_min: 18,
+      include_total: true,
+      page: 1,
+      limit: 10,
+    });
+    expect(req.query).toEqual({
+      age_min: "18",
+      include_total: "true",
+      junk: "x",
+    });
+  });
+
+  it("should reject malformed and out of range user query values", () => {
+    const error = validationError(validateUserQuery, {
+      query: { age_min: "abc", limit: "100000" } as any,
+    });
+
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "age_min", type: "number.base" }),
+      expect.objectContaining({ field: "limit", type: "number.max" }),
+    ]);
+  });
+
+  it("should require age_min <= age_max", () => {
+    const error = validationError(validateUserQuery, {
+      query: { age_min: "30", age_max: "20" } as any,
+    });
+
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "age_max", type: "number.min" }),
+    ]);
+    expect(error.message).toBe(
+      "age_max must be greater than or equal to age_min"
+    );
+
+    // Without age_min the cross-field message does not apply
+    expect(
+      validationError(validateUserQuery, {
+        query: { age_max: "-1" } as any,
+      }).message
+    ).toBe('"age_max" must be greater than or equal to 0');
+
+    run(validateUserQuery, { query: { age_min: "20", age_max: "20" } as any });
+    run(validateUserQuery, { query: { age_max: "20" } as any });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it("should require price_min <= price_max", () => {
+    const error = validationError(validateProductQuery, {
+      query: { price_min: "10", price_max: "5" } as any,
+    });
+
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "price_max", type: "number.min" }),
+    ]);
+
+    run(validateProductQuery, { query: { price_max: "5" } as any });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should list every failing body field", () => {
+    const error = validationError(validateCreateUser, {
+      body: { email: "not-an-email", age: -1 },
+    });
+
+    expect(error.statusCode).toBe(422);
+    expect(error.code).toBe("VALIDATION_ERROR");
+    expect(error.details).toEqual({
+      location: "body",
+      errors: [
+        { field: "name", message: "Name is required", type: "any.required" },
+        {
+          field: "email",
+          message: "Please provide a valid email address",
+          type: "string.email",
+        },
+        { field: "age", message: "Age must be at least 0", type: "number.min" },
+      ],
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should keep the joined message for existing clients", () => {
+    const error = validationError(validateCreateUser, {
+      body: { email: "not-an-email" },
+    });
+
+    expect(error.message).toBe(
+      "Name is required; Please provide a valid email address"
+    );
+  });
+
+  it("should report query fields", () => {
+    const error = validationError(validateProductQuery, {
+      query: { price_min: "cheap" } as any,
+    });
+
+    expect(error.details.location).toBe("query");
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "price_min", type: "number.base" }),
+    ]);
+  });
+
+  it("should report params fields", () => {
+    const error = validationError(validateIdParam, {
+      params: { id: "abc" },
+    });
+
+    expect(error.details.location).toBe("params");
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "id", type: "number.base" }),
+    ]);
+  });
+
+  it("should accept sort on whitelisted columns", () => {
+    run(validateProductQuery, { query: { sort: "-price,name" } as any });
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should reject sort on other columns", () => {
+    const error = validationError(validateProductQuery, {
+      query: { sort: "-price,description" } as any,
+    });
+
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "sort", type: "sort.column" }),
+    ]);
+    expect(error.message).toContain('Cannot sort by "description"');
+  });
+
+  it("should not combine sort with cursor pagination", () => {
+    const error = validationError(validateProductQuery, {
+      query: { sort: "name", cursor: "" } as any,
+    });
+
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ type: "object.oxor" }),
+    ]);
+    expect(error.message).toBe(
+      "Sort cannot be combined with cursor pagination"
+    );
+  });
+
+  it("should explain that user listings cannot sort cursor pages", () => {
+    const error = validationError(validateUserQuery, {
+      query: { sort: "-age", cursor: "abc" } as any,
+    });
+
+    expect(error.message).toBe(
+      "Sort cannot be combined with cursor pagination"
+    );
+  });
+
+  it("should keep filter operator params", () => {
+    const req = run(validateProductQuery, {
+      query: {
+        "filter[price][gte]": "10",
+        "filter[category][in]": ["Books", "Toys"],
+        unknown: "dropped",
+      } as any,
+    });
+
+    expect(req.validatedQuery).toEqual(
+      expect.objectContaining({
+        "filter[price][gte]": "10",
+        "filter[category][in]": ["Books", "Toys"],
+      })
+    );
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should require a search query", () => {
+    const error = validationError(validateProductSearch, {
+      query: { q: "  " } as any,
+    });
+
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "q", type: "string.empty" }),
+    ]);
+  });
+
+  it("should accept fields that are entity columns", () => {
+    run(validateUserFields, { query: { fields: "id,name,email" } as any });
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should reject fields that are not entity columns", () => {
+    const error = validationError(validateUserFields, {
+      query: { fields: "name,password_hash" } as any,
+    });
+
+    expect(error.details.errors).toEqual([
+      expect.objectContaining({ field: "fields", type: "fields.column" }),
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { ActionTokenRepository } from "../../src/repositories/ActionTokenRepository";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { mockDatabase, createMockDbResponse } from "../setup";
+
+describe("ActionTokenRepository", () => {
+  let actionTokenRepository: ActionTokenRepository;
+
+  beforeEach(() => {
+    actionTokenRepository = new ActionTokenRepository();
+  });
+
+  describe("createToken", () => {
+    it("should insert the hashed token", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      await actionTokenRepository.createToken({
+        token_hash: "hash",
+        user_id: 1,
+        action_type: "quest_completed",
+        score_value: 50,
+        expires_at: "2023-01-01T00:05:00.000Z",
+      });
+
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /INSERT INTO action_tokens[\s\S]*RETURNING token_hash/
+        ),
+        ["hash", 1, "quest_completed", 50, "2023-01-01T00:05:00.000Z"]
+      );
+    });
+
+    it("should handle database errors", async () => {
+      mockDatabase.run.mockRejectedValue(new Error("Database error"));
+
+      await expect(
+        actionTokenRepository.createToken({
+          token_hash: "hash",
+          user_id: 1,
+          action_type: "quest_completed",
+          score_value: 50,
+          expires_at: "2023-01-01T00:05:00.000Z",
+        })
+      ).rejects.toThrow(ApiError);
+    });
+  });
+
+  describe("hasIssuedSince", () => {
+    it("should look for tokens created for the action since the given time", async () => {
+      mockDatabase.get.mockResolvedValue({ issued: 1 });
+
+      await expect(
+        actionTokenRepository.hasIssuedSince(
+          1,
+          "daily_login",
+          new Date("2023-01-01T00:00:00.000Z")
+        )
+      ).resolves.toBe(true);
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "user_id = ? AND action_type = ? AND created_at >= ?"
+        ),
+        [1, "daily_login", "2023-01-01 00:00:00"]
+      );
+    });
+
+    it("should return false when there is none", async () => {
+      mockDatabase.get.mockResolvedValue(undefined);
+
+      await expect(
+        actionTokenRepository.hasIssuedSince(1, "daily_login", new Date())
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe("buildConsumeQuery", () => {
+    it("should only match unused, unexpired tokens for the same user and action", () => {
+      const query = actionTokenRepository.buildConsumeQuery(
+        "hash",
+        1,
+        "quest_completed",
+        "2023-01-01T00:01:00.000Z"
+      );
+
+      expect(query.sql).toContain("used_at IS NULL AND expires_at > ?");
+      expect(query.params).toEqual([
+        "2023-01-01T00:01:00.000Z",
+        "hash",
+        1,
+        "quest_completed",
+        "2023-01-01T00:01:00.000Z",
+      ]);
+      expect(query.expectChanges).toBe(1);
+    });
+  });
+});
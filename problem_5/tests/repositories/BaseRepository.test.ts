@@ -1,11 +1,37 @@
-import { BaseRepository } from "../../src/repositories/BaseRepository";
+import {
+  BaseRepository,
+  decodeCursor,
+  encodeCursor,
+  parseFilters,
+} from "../../src/repositories/BaseRepository";
+import { VersionMismatchError } from "../../src/repositories/errors";
 import { ApiError } from "../../src/middleware/errorHandler";
 import { mockDatabase, createMockDbResponse } from "../setup";
 
 // Create a concrete implementation for testing
 class TestRepository extends BaseRepository<any> {
   constructor() {
-    super("test_table");
+    super("test_table", {
+      selectableColumns: ["id", "name", "price", "status", "created_at"],
+      sortableColumns: ["name", "price", "created_at"],
+      filterableColumns: {
+        name: "string",
+        price: "number",
+        is_active: "boolean",
+      },
+    });
+  }
+}
+
+class TrashRepository extends BaseRepository<any> {
+  constructor() {
+    super("test_table", { softDeletes: true });
+  }
+}
+
+class VersionedRepository extends BaseRepository<any> {
+  constructor() {
+    super("test_table", { versioned: true });
   }
 }
 
@@ -25,7 +51,7 @@ describe("BaseRepository", () => {
 
       expect(result).toEqual(mockRecord);
       expect(mockDatabase.get).toHaveBeenCalledWith(
-        "SELECT * FROM test_table WHERE id = ?",
+        "SELECT * FROM test_table WHERE (id = ?)",
         [1]
       );
     });
@@ -66,11 +92,13 @@ describe("BaseRepository", () => {
       const mockRecords = [createMockDbResponse.user()];
       mockDatabase.query.mockResolvedValue(mockRecords);
 
-      const result = await repository.findAll("status = ?", ["active"]);
+      const result = await repository.findAll(
+        repository.query().where("status", "active")
+      );
 
       expect(result).toEqual(mockRecords);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM test_table WHERE status = ? ORDER BY created_at DESC",
+        "SELECT * FROM test_table WHERE status = ?",
         ["active"]
       );
     });
@@ -79,7 +107,9 @@ describe("BaseRepository", () => {
       const mockRecords = [createMockDbResponse.user()];
       mockDatabase.query.mockResolvedValue(mockRecords);
 
-      const result = await repository.findAll("", [], "id ASC", 10, 20);
+      const result = await repository.findAll(
+        repository.query().orderBy("id").limit(10).offset(20)
+      );
 
       expect(result).toEqual(mockRecords);
       expect(mockDatabase.query).toHaveBeenCalledWith(
@@ -97,7 +127,7 @@ describe("BaseRepository", () => {
 
       expect(result).toBe(5);
       expect(mockDatabase.get).toHaveBeenCalledWith(
-        "SELECT COUNT(*) as count FROM test_table",
+        "SELECT COUNT(*) AS count FROM test_table",
         []
       );
     });
@@ -105,11 +135,13 @@ describe("BaseRepository", () => {
     it("should return count with where clause", async () => {
       mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(3));
 
-      const result = await repository.count("status = ?", ["active"]);
+      const result = await repository.count(
+        repository.query().where("status", "active").orderBy("name").limit(5)
+      );
 
       expect(result).toBe(3);
       expect(mockDatabase.get).toHaveBeenCalledWith(
-        "SELECT COUNT(*) as count FROM test_table WHERE status = ?",
+        "SELECT COUNT(*) AS count FROM test_table WHERE status = ?",
         ["active"]
       );
     });
@@ -125,10 +157,7 @@ describe("BaseRepository", () => {
 
   describe("create", () => {
     it("should create a new record successfully", async () => {
-      const mockRunResult = createMockDbResponse.runResult();
       const mockCreatedRecord = createMockDbResponse.user();
-
-      mockDatabase.run.mockResolvedValue(mockRunResult);
       mockDatabase.get.mockResolvedValue(mockCreatedRecord);
 
       const data = { name: "John Doe", email: "john@example.com" };
@@ -137,14 +166,17 @@ describe("BaseRepository", () => {
       const result = await repository.create(data, fields);
 
       expect(result).toEqual(mockCreatedRecord);
-      expect(mockDatabase.run).toHaveBeenCalledWith(
-        expect.stringContaining("INSERT INTO test_table (name, email)"),
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /INSERT INTO test_table \(name, email\)[\s\S]*RETURNING \*/
+        ),
         ["John Doe", "john@example.com"]
       );
+      expect(mockDatabase.run).not.toHaveBeenCalled();
     });
 
-    it("should throw error when no lastID returned", async () => {
-      mockDatabase.run.mockResolvedValue({ changes: 1 });
+    it("should throw error when no row is returned", async () => {
+      mockDatabase.get.mockResolvedValue(undefined);
 
       const data = { name: "John Doe" };
       const fields = ["name"];
@@ -183,6 +215,71 @@ describe("BaseRepository", () => {
 
       expect(result).toBeNull();
     });
+
+    it("should ignore expected versions on unversioned tables", async () => {
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.user());
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      await repository.update(1, { name: "Jane" }, ["name"], [2]);
+
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.not.stringContaining("version"),
+        ["Jane", 1]
+      );
+    });
+  });
+
+  describe("versioned update", () => {
+    let versioned: VersionedRepository;
+
+    beforeEach(() => {
+      versioned = new VersionedRepository();
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.user());
+    });
+
+    it("should bump the version on every update", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      await versioned.update(1, { name: "Jane" }, ["name"]);
+
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /SET name = \?, updated_at = CURRENT_TIMESTAMP, version = version \+ 1\s+WHERE id = \?\s*$/
+        ),
+        ["Jane", 1]
+      );
+    });
+
+    it("should only write while the row is at an expected version", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      await versioned.update(1, { name: "Jane" }, ["name"], [3, 4]);
+
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringContaining("WHERE id = ? AND version IN (?, ?)"),
+        ["Jane", 1, 3, 4]
+      );
+    });
+
+    it("should fail the precondition when the version has moved on", async () => {
+      mockDatabase.run.mockResolvedValue(
+        createMockDbResponse.runResult({ changes: 0 })
+      );
+
+      await expect(
+        versioned.update(1, { name: "Jane" }, ["name"], [3])
+      ).rejects.toBeInstanceOf(VersionMismatchError);
+    });
+
+    it("should build guarded update queries for transactions", () => {
+      expect(versioned.buildUpdateQuery(1, { name: "Jane" }, ["name"])).toEqual(
+        {
+          sql: "UPDATE test_table SET name = ?, updated_at = CURRENT_TIMESTAMP, version = version + 1 WHERE id = ?",
+          params: ["Jane", 1],
+          expectChanges: 1,
+        }
+      );
+    });
   });
 
   describe("delete", () => {
@@ -248,5 +345,426 @@ describe("BaseRepository", () => {
         totalPages: 3,
       });
     });
+
+    it("should count and page the same query without changing it", async () => {
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(25));
+      mockDatabase.query.mockResolvedValue([]);
+      const active = repository.query().where("status", "active");
+
+      await repository.findWithPagination(1, 10, active);
+      await repository.findWithPagination(2, 10, active);
+
+      expect(active.toSQL()).toEqual({
+        sql: "SELECT * FROM test_table WHERE status = ?",
+        params: ["active"],
+      });
+      expect(mockDatabase.get).toHaveBeenLastCalledWith(
+        "SELECT COUNT(*) AS count FROM test_table WHERE status = ?",
+        ["active"]
+      );
+      expect(mockDatabase.query).toHaveBeenLastCalledWith(
+        "SELECT * FROM test_table WHERE status = ? LIMIT ? OFFSET ?",
+        ["active", 10, 10]
+      );
+    });
+  });
+
+  describe("findWithCursor", () => {
+    const row = (id: number, created_at: string) =>
+      createMockDbResponse.user({ id, created_at });
+
+    it("should return the first page newest first with a next cursor", async () => {
+      mockDatabase.query.mockResolvedValue([
+        row(3, "2023-01-03 00:00:00"),
+        row(2, "2023-01-02 00:00:00"),
+        row(1, "2023-01-01 00:00:00"),
+      ]);
+
+      const result = await repository.findWithCursor(
+        { limit: 2 },
+        repository.query().where("status", "active")
+      );
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE status = ? ORDER BY created_at DESC, id DESC LIMIT ?",
+        ["active", 3]
+      );
+      expect(result.data.map((r: any) => r.id)).toEqual([3, 2]);
+      expect(result.prevCursor).toBeNull();
+      expect(decodeCursor(result.nextCursor!)).toEqual({
+        createdAt: "2023-01-02 00:00:00",
+        id: 2,
+        direction: "next",
+      });
+      expect(result.total).toBeUndefined();
+      expect(mockDatabase.get).not.toHaveBeenCalled();
+    });
+
+    it("should continue after the cursor position", async () => {
+      mockDatabase.query.mockResolvedValue([row(1, "2023-01-01 00:00:00")]);
+      const cursor = encodeCursor({
+        createdAt: "2023-01-02 00:00:00",
+        id: 2,
+        direction: "next",
+      });
+
+      const result = await repository.findWithCursor({ cursor, limit: 2 });
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE (created_at < ? OR (created_at = ? AND id < ?)) ORDER BY created_at DESC, id DESC LIMIT ?",
+        ["2023-01-02 00:00:00", "2023-01-02 00:00:00", 2, 3]
+      );
+      expect(result.nextCursor).toBeNull();
+      expect(decodeCursor(result.prevCursor!)).toEqual({
+        createdAt: "2023-01-01 00:00:00",
+        id: 1,
+        direction: "prev",
+      });
+    });
+
+    it("should page backwards and keep newest-first order", async () => {
+      mockDatabase.query.mockResolvedValue([
+        row(2, "2023-01-02 00:00:00"),
+        row(3, "2023-01-03 00:00:00"),
+        row(4, "2023-01-04 00:00:00"),
+      ]);
+      const cursor = encodeCursor({
+        createdAt: "2023-01-01 00:00:00",
+        id: 1,
+        direction: "prev",
+      });
+
+      const result = await repository.findWithCursor({ cursor, limit: 2 });
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE (created_at > ? OR (created_at = ? AND id > ?)) ORDER BY created_at ASC, id ASC LIMIT ?",
+        ["2023-01-01 00:00:00", "2023-01-01 00:00:00", 1, 3]
+      );
+      expect(result.data.map((r: any) => r.id)).toEqual([3, 2]);
+      expect(decodeCursor(result.prevCursor!).id).toBe(3);
+      expect(decodeCursor(result.nextCursor!).id).toBe(2);
+    });
+
+    it("should only count rows when the total is requested", async () => {
+      mockDatabase.query.mockResolvedValue([]);
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(7));
+
+      const result = await repository.findWithCursor(
+        { limit: 10, includeTotal: true },
+        repository.query().where("status", "active")
+      );
+
+      expect(result.total).toBe(7);
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT COUNT(*) AS count FROM test_table WHERE status = ?",
+        ["active"]
+      );
+    });
+
+    it("should reject malformed cursors", async () => {
+      await expect(
+        repository.findWithCursor({ cursor: "not-a-cursor" })
+      ).rejects.toMatchObject({ statusCode: 422, code: "VALIDATION_ERROR" });
+    });
+  });
+
+  describe("sortBy", () => {
+    const orderOf = (sort?: string) =>
+      repository.sortBy(repository.query(), sort).toSQL().sql;
+
+    it("should fall back to newest first when no sort is given", () => {
+      expect(orderOf(undefined)).toBe(
+        "SELECT * FROM test_table ORDER BY created_at DESC"
+      );
+    });
+
+    it("should translate whitelisted columns and directions", () => {
+      expect(orderOf("-price,name")).toBe(
+        "SELECT * FROM test_table ORDER BY price DESC, name ASC"
+      );
+    });
+
+    it("should reject columns outside the whitelist", () => {
+      expect(() => orderOf("name; DROP TABLE users")).toThrow(
+        expect.objectContaining({ statusCode: 422, code: "VALIDATION_ERROR" })
+      );
+    });
+  });
+
+  describe("fields", () => {
+    it("should push the projection into findById and always select id", async () => {
+      mockDatabase.get.mockResolvedValue({ id: 1, name: "Widget" });
+
+      const result = await repository.findById(1, ["name"]);
+
+      expect(result).toEqual({ id: 1, name: "Widget" });
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT id, name FROM test_table WHERE (id = ?)",
+        [1]
+      );
+    });
+
+    it("should project paginated queries", async () => {
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(1));
+      mockDatabase.query.mockResolvedValue([]);
+
+      await repository.findWithPagination(1, 10, undefined, ["name", "price"]);
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT id, name, price FROM test_table ORDER BY created_at DESC LIMIT ? OFFSET ?",
+        [10, 0]
+      );
+    });
+
+    it("should select created_at for cursors without returning it", async () => {
+      mockDatabase.query.mockResolvedValue([
+        { id: 2, name: "B", created_at: "2023-01-02 00:00:00" },
+        { id: 1, name: "A", created_at: "2023-01-01 00:00:00" },
+      ]);
+
+      const result = await repository.findWithCursor({ limit: 1 }, undefined, [
+        "name",
+      ]);
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        expect.stringContaining("SELECT id, name, created_at FROM test_table"),
+        [2]
+      );
+      expect(result.data).toEqual([{ id: 2, name: "B" }]);
+      expect(decodeCursor(result.nextCursor!).createdAt).toBe(
+        "2023-01-02 00:00:00"
+      );
+    });
+
+    it("should reject unknown fields", () => {
+      expect(() =>
+        repository.selectFields(repository.query(), ["name", "password"])
+      ).toThrow(
+        expect.objectContaining({ statusCode: 422, code: "VALIDATION_ERROR" })
+      );
+    });
+  });
+
+  describe("filters", () => {
+    it("should parse bracketed filter params and default to eq", () => {
+      expect(
+        parseFilters({
+          "filter[price][gte]": "10",
+          "filter[name]": "Widget",
+          "filter[name][in]": ["a,b", "c"],
+          page: "2",
+        })
+      ).toEqual([
+        { field: "price", operator: "gte", value: "10" },
+        { field: "name", operator: "eq", value: "Widget" },
+        { field: "name", operator: "in", value: ["a,b", "c"] },
+      ]);
+    });
+
+    it("should reject unknown operators", () => {
+      expect(() => parseFilters({ "filter[price][between]": "1" })).toThrow(
+        expect.objectContaining({ statusCode: 422, code: "VALIDATION_ERROR" })
+      );
+    });
+
+    it("should compile conditions into parameterized SQL", () => {
+      expect(
+        repository.buildFilterClause([
+          { field: "price", operator: "gte", value: "10" },
+          { field: "name", operator: "in", value: ["a,b", "c"] },
+          { field: "name", operator: "contains", value: "50%_off" },
+          { field: "name", operator: "isNull", value: "false" },
+          { field: "is_active", operator: "ne", value: "true" },
+        ])
+      ).toEqual({
+        whereClause:
+          "price >= ? AND name IN (?, ?, ?) AND name LIKE ? ESCAPE '\\' AND name IS NOT NULL AND is_active != ?",
+        params: [10, "a", "b", "c", "%50\\%\\_off%", true],
+      });
+    });
+
+    it("should apply filter conditions to paginated queries", async () => {
+      mockDatabase.query.mockResolvedValue([]);
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(0));
+
+      const { whereClause, params } = repository.buildFilterClause([
+        { field: "name", operator: "startsWith", value: "Wid" },
+      ]);
+      await repository.findWithPagination(
+        1,
+        10,
+        repository.sortBy(
+          repository.query().whereRaw(whereClause, params),
+          undefined
+        )
+      );
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE (name LIKE ? ESCAPE '\\') ORDER BY created_at DESC LIMIT ? OFFSET ?",
+        ["Wid%", 10, 0]
+      );
+    });
+
+    it.each([
+      [{ field: "status", operator: "eq", value: "active" }],
+      [{ field: "price", operator: "lt", value: "cheap" }],
+      [{ field: "price", operator: "contains", value: "1" }],
+      [{ field: "is_active", operator: "gt", value: "true" }],
+      [{ field: "name", operator: "eq", value: ["a", "b"] }],
+      [{ field: "toString", operator: "eq", value: "x" }],
+    ] as const)("should reject %o", (condition) => {
+      expect(() => repository.buildFilterClause([condition as any])).toThrow(
+        expect.objectContaining({ statusCode: 422, code: "VALIDATION_ERROR" })
+      );
+    });
+  });
+
+  describe("soft deletes", () => {
+    let trash: TrashRepository;
+
+    beforeEach(() => {
+      trash = new TrashRepository();
+    });
+
+    it("should hide trashed rows from finds and counts by default", async () => {
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(2));
+      mockDatabase.query.mockResolvedValue([]);
+
+      await trash.findById(1);
+      await trash.findAll(trash.query().where("name", "Widget"));
+      await trash.count();
+
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE deleted_at IS NULL AND (id = ?)",
+        [1]
+      );
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE deleted_at IS NULL AND name = ?",
+        ["Widget"]
+      );
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT COUNT(*) AS count FROM test_table WHERE deleted_at IS NULL",
+        []
+      );
+    });
+
+    it("should include trashed rows with withTrashed", async () => {
+      mockDatabase.query.mockResolvedValue([]);
+
+      await trash.withTrashed().findAll();
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table ORDER BY created_at DESC",
+        []
+      );
+    });
+
+    it("should only return trashed rows with onlyTrashed", async () => {
+      mockDatabase.query.mockResolvedValue([]);
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(0));
+
+      await trash.onlyTrashed().findWithPagination(1, 10);
+
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE deleted_at IS NOT NULL ORDER BY created_at DESC LIMIT ? OFFSET ?",
+        [10, 0]
+      );
+    });
+
+    it("should not change the mode of the original repository", async () => {
+      mockDatabase.query.mockResolvedValue([]);
+
+      const scoped = trash.onlyTrashed();
+      await trash.findAll();
+
+      expect(scoped).toBeInstanceOf(TrashRepository);
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE deleted_at IS NULL ORDER BY created_at DESC",
+        []
+      );
+    });
+
+    it("should move a row to the trash on delete", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      const result = await trash.delete(1);
+
+      expect(result).toBe(true);
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        "UPDATE test_table SET deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL",
+        [1]
+      );
+    });
+
+    it("should return false when deleting a missing or trashed row", async () => {
+      mockDatabase.run.mockResolvedValue(
+        createMockDbResponse.runResult({ changes: 0 })
+      );
+
+      expect(await trash.delete(1)).toBe(false);
+    });
+
+    it("should build guarded delete queries for transactions", () => {
+      expect(trash.buildDeleteQuery(3)).toEqual({
+        sql: expect.stringMatching(
+          /^UPDATE test_table SET deleted_at = CURRENT_TIMESTAMP, .* WHERE id = \? AND deleted_at IS NULL$/
+        ),
+        params: [3],
+        expectChanges: 1,
+      });
+      expect(repository.buildDeleteQuery(3)).toEqual({
+        sql: "DELETE FROM test_table WHERE id = ?",
+        params: [3],
+        expectChanges: 1,
+      });
+    });
+
+    it("should permanently remove trashed rows with forceDelete", async () => {
+      mockDatabase.get.mockResolvedValue(
+        createMockDbResponse.product({ deleted_at: "2024-01-01 00:00:00" })
+      );
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      const result = await trash.forceDelete(1);
+
+      expect(result).toBe(true);
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT * FROM test_table WHERE (id = ?)",
+        [1]
+      );
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        "DELETE FROM test_table WHERE id = ?",
+        [1]
+      );
+    });
+
+    it("should restore a trashed row", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      const result = await trash.restore(1);
+
+      expect(result).toBe(true);
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        "UPDATE test_table SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NOT NULL",
+        [1]
+      );
+    });
+
+    it("should purge rows trashed longer than the retention period", async () => {
+      mockDatabase.run.mockResolvedValue(
+        createMockDbResponse.runResult({ changes: 3 })
+      );
+
+      jest.useFakeTimers({ now: new Date("2024-03-31T12:30:00.000Z") });
+
+      const purged = await trash.purgeTrashed(30);
+
+      jest.useRealTimers();
+      expect(purged).toBe(3);
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        "DELETE FROM test_table WHERE deleted_at IS NOT NULL AND deleted_at <= ?",
+        ["2024-03-01 12:30:00"]
+      );
+    });
   });
 });
@@ -1,4 +1,7 @@
-import { ProductRepository } from "../../src/repositories/ProductRepository";
+import {
+  buildFtsQuery,
+  ProductRepository,
+} from "../../src/repositories/ProductRepository";
 import { ApiError } from "../../src/middleware/errorHandler";
 import { mockDatabase, createMockDbResponse } from "../setup";
 
@@ -22,13 +25,12 @@ describe("ProductRepository", () => {
 
       const mockCreatedProduct = createMockDbResponse.product(productData);
 
-      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
       mockDatabase.get.mockResolvedValue(mockCreatedProduct);
 
       const result = await productRepository.createProduct(productData);
 
       expect(result).toEqual(mockCreatedProduct);
-      expect(mockDatabase.run).toHaveBeenCalledWith(
+      expect(mockDatabase.get).toHaveBeenCalledWith(
         expect.stringContaining("INSERT INTO products"),
         expect.arrayContaining([
           "Test Product",
@@ -52,7 +54,6 @@ describe("ProductRepository", () => {
         is_active: true,
       });
 
-      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
       mockDatabase.get.mockResolvedValue(mockCreatedProduct);
 
       const result = await productRepository.createProduct(productData);
@@ -63,7 +64,7 @@ describe("ProductRepository", () => {
     it("should handle database errors", async () => {
       const productData = { name: "Test Product", price: 99.99 };
 
-      mockDatabase.run.mockRejectedValue(new Error("Database error"));
+      mockDatabase.get.mockRejectedValue(new Error("Database error"));
 
       await expect(
         productRepository.createProduct(productData)
@@ -155,7 +156,7 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockProducts);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM products WHERE category = ? ORDER BY name ASC",
+        "SELECT * FROM products WHERE deleted_at IS NULL AND category = ? ORDER BY name ASC",
         ["Electronics"]
       );
     });
@@ -170,7 +171,7 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockProducts);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM products WHERE 1=1 AND price >= ? AND price <= ? ORDER BY price ASC",
+        "SELECT * FROM products WHERE deleted_at IS NULL AND price >= ? AND price <= ? ORDER BY price ASC",
         [50, 150]
       );
     });
@@ -183,7 +184,7 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockProducts);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM products WHERE 1=1 AND price >= ? ORDER BY price ASC",
+        "SELECT * FROM products WHERE deleted_at IS NULL AND price >= ? ORDER BY price ASC",
         [50]
       );
     });
@@ -198,8 +199,8 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockProducts);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM products WHERE is_active = 1 ORDER BY created_at DESC",
-        []
+        "SELECT * FROM products WHERE deleted_at IS NULL AND is_active = ? ORDER BY created_at DESC",
+        [true]
       );
     });
   });
@@ -215,8 +216,8 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockProducts);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM products WHERE stock_quantity <= ? AND is_active = 1 ORDER BY stock_quantity ASC",
-        [10]
+        "SELECT * FROM products WHERE deleted_at IS NULL AND stock_quantity <= ? AND is_active = ? ORDER BY stock_quantity ASC",
+        [10, true]
       );
     });
 
@@ -230,8 +231,26 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockProducts);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM products WHERE stock_quantity <= ? AND is_active = 1 ORDER BY stock_quantity ASC",
-        [5]
+        "SELECT * FROM products WHERE deleted_at IS NULL AND stock_quantity <= ? AND is_active = ? ORDER BY stock_quantity ASC",
+        [5, true]
+      );
+    });
+  });
+
+  describe("findTrashed", () => {
+    it("should page through trashed products, most recently trashed first", async () => {
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(1));
+      mockDatabase.query.mockResolvedValue([]);
+
+      await productRepository.findTrashed(1, 10);
+
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT COUNT(*) AS count FROM products WHERE deleted_at IS NOT NULL",
+        []
+      );
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        "SELECT * FROM products WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC LIMIT ? OFFSET ?",
+        [10, 0]
       );
     });
   });
@@ -247,10 +266,78 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockProducts);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM products WHERE name LIKE ? ORDER BY name ASC",
-        ["%Test%"]
+        "SELECT products.* FROM products JOIN products_fts ON products.id = products_fts.rowid WHERE deleted_at IS NULL AND (products_fts MATCH ?) ORDER BY bm25(products_fts) ASC",
+        ['name : ("Test"*)']
       );
     });
+
+    it("should not query when there is nothing to search for", async () => {
+      const result = await productRepository.searchByName("  %% ");
+
+      expect(result).toEqual([]);
+      expect(mockDatabase.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildFtsQuery", () => {
+    it("should turn each word into a quoted prefix term", () => {
+      expect(buildFtsQuery("lap pro")).toBe('"lap"* "pro"*');
+    });
+
+    it("should drop FTS operators and quotes from user input", () => {
+      expect(buildFtsQuery('"café" OR name:x* -(y)')).toBe(
+        '"café"* "OR"* "name"* "x"* "y"*'
+      );
+    });
+
+    it("should return null without searchable words", () => {
+      expect(buildFtsQuery(" *** ")).toBeNull();
+    });
+  });
+
+  describe("searchProducts", () => {
+    it("should return ranked matches with snippets and pagination", async () => {
+      const mockResults = [
+        {
+          ...createMockDbResponse.product(),
+          snippet: "<mark>Test</mark> Product",
+          rank: -1.5,
+        },
+      ];
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.countResult(11));
+      mockDatabase.query.mockResolvedValue(mockResults);
+
+      const result = await productRepository.searchProducts("tes", 2, 5);
+
+      expect(result).toEqual({
+        data: mockResults,
+        total: 11,
+        page: 2,
+        limit: 5,
+        totalPages: 3,
+      });
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT COUNT(*) AS count FROM products JOIN products_fts ON products.id = products_fts.rowid WHERE deleted_at IS NULL AND (products_fts MATCH ?)",
+        ['"tes"*']
+      );
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        expect.stringMatching(/bm25\(products_fts.*ORDER BY rank ASC/s),
+        ['"tes"*', 5, 5]
+      );
+    });
+
+    it("should return an empty page without searchable words", async () => {
+      const result = await productRepository.searchProducts("!!", 1, 10);
+
+      expect(result).toEqual({
+        data: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0,
+      });
+      expect(mockDatabase.get).not.toHaveBeenCalled();
+    });
   });
 
   describe("getProductStats", () => {
@@ -295,14 +382,14 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(mockUpdatedProduct);
       expect(mockDatabase.run).toHaveBeenCalledWith(
-        "UPDATE products SET stock_quantity = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        "UPDATE products SET stock_quantity = ?, updated_at = CURRENT_TIMESTAMP, version = version + 1 WHERE (id = ?) AND deleted_at IS NULL",
         [20, 1]
       );
     });
 
     it("should throw error for negative stock quantity", async () => {
       await expect(productRepository.updateStock(1, -5)).rejects.toThrow(
-        new ApiError("Stock quantity cannot be negative", 400)
+        new ApiError("Stock quantity cannot be negative", 422)
       );
     });
 
@@ -323,7 +410,7 @@ describe("ProductRepository", () => {
 
       expect(result).toBe(true);
       expect(mockDatabase.run).toHaveBeenCalledWith(
-        "UPDATE products SET is_active = 0, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        "UPDATE products SET is_active = FALSE, updated_at = CURRENT_TIMESTAMP, version = version + 1 WHERE (id = ?) AND deleted_at IS NULL",
         [1]
       );
     });
@@ -345,7 +432,7 @@ describe("ProductRepository", () => {
 
       expect(result).toBe(true);
       expect(mockDatabase.run).toHaveBeenCalledWith(
-        "UPDATE products SET is_active = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        "UPDATE products SET is_active = TRUE, updated_at = CURRENT_TIMESTAMP, version = version + 1 WHERE (id = ?) AND deleted_at IS NULL",
         [1]
       );
     });
@@ -365,7 +452,7 @@ describe("ProductRepository", () => {
 
       expect(result).toEqual(["Electronics", "Books", "Clothing"]);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT DISTINCT category FROM products WHERE category IS NOT NULL ORDER BY category ASC",
+        "SELECT DISTINCT category FROM products WHERE deleted_at IS NULL AND category IS NOT NULL ORDER BY category ASC",
         []
       );
     });
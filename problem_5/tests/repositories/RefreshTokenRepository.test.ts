@@ -0,0 +1,79 @@
+import { RefreshTokenRepository } from "../../src/repositories/RefreshTokenRepository";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { mockDatabase, createMockDbResponse } from "../setup";
+
+describe("RefreshTokenRepository", () => {
+  let refreshTokenRepository: RefreshTokenRepository;
+
+  beforeEach(() => {
+    refreshTokenRepository = new RefreshTokenRepository();
+  });
+
+  describe("createToken", () => {
+    it("should insert the token hash and expiry", async () => {
+      const row = {
+        id: 1,
+        user_id: 1,
+        token_hash: "hash",
+        expires_at: "2023-01-08T00:00:00.000Z",
+      };
+      mockDatabase.get.mockResolvedValue(row);
+
+      const result = await refreshTokenRepository.createToken({
+        user_id: 1,
+        token_hash: "hash",
+        expires_at: "2023-01-08T00:00:00.000Z",
+      });
+
+      expect(result).toEqual(row);
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO refresh_tokens"),
+        [1, "hash", "2023-01-08T00:00:00.000Z"]
+      );
+    });
+  });
+
+  describe("buildRevokeQuery", () => {
+    it("should only revoke a live token and require exactly one change", () => {
+      const query = refreshTokenRepository.buildRevokeQuery(
+        "hash",
+        "2023-01-01T00:00:00.000Z"
+      );
+
+      expect(query.sql).toContain("revoked_at IS NULL AND expires_at > ?");
+      expect(query.params).toEqual([
+        "2023-01-01T00:00:00.000Z",
+        "hash",
+        "2023-01-01T00:00:00.000Z",
+      ]);
+      expect(query.expectChanges).toBe(1);
+    });
+  });
+
+  describe("revokeAllForUser", () => {
+    it("should revoke every live token of the user", async () => {
+      mockDatabase.run.mockResolvedValue(
+        createMockDbResponse.runResult({ changes: 3 })
+      );
+
+      const result = await refreshTokenRepository.revokeAllForUser(
+        1,
+        "2023-01-01T00:00:00.000Z"
+      );
+
+      expect(result).toBe(3);
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringContaining("WHERE user_id = ? AND revoked_at IS NULL"),
+        ["2023-01-01T00:00:00.000Z", 1]
+      );
+    });
+
+    it("should handle database errors", async () => {
+      mockDatabase.run.mockRejectedValue(new Error("Database error"));
+
+      await expect(
+        refreshTokenRepository.revokeAllForUser(1, "2023-01-01T00:00:00.000Z")
+      ).rejects.toThrow(ApiError);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { ScoreRepository } from "../../src/repositories/ScoreRepository";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { mockDatabase, createMockDbResponse } from "../setup";
+
+describe("ScoreRepository", () => {
+  let scoreRepository: ScoreRepository;
+
+  beforeEach(() => {
+    scoreRepository = new ScoreRepository();
+  });
+
+  describe("recordScoreUpdate", () => {
+    it("should insert a score update and return it", async () => {
+      const mockScoreUpdate = createMockDbResponse.scoreUpdate();
+
+      mockDatabase.get.mockResolvedValue(mockScoreUpdate);
+
+      const result = await scoreRepository.recordScoreUpdate({
+        user_id: 1,
+        action_token: "action-token-1",
+        action_type: "quest_completed",
+        score_increase: 50,
+        client_ip: "127.0.0.1",
+        session_id: "session-1",
+      });
+
+      expect(result).toEqual(mockScoreUpdate);
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO score_updates"),
+        [1, "action-token-1", "quest_completed", 50, "127.0.0.1", "session-1"]
+      );
+    });
+
+    it("should handle database errors", async () => {
+      mockDatabase.get.mockRejectedValue(new Error("Database error"));
+
+      await expect(
+        scoreRepository.recordScoreUpdate({
+          user_id: 1,
+          action_token: "action-token-1",
+          action_type: "quest_completed",
+          score_increase: 50,
+        })
+      ).rejects.toThrow(ApiError);
+    });
+  });
+
+  describe("findByActionToken", () => {
+    it("should find a score update by action token", async () => {
+      const mockScoreUpdate = createMockDbResponse.scoreUpdate();
+      mockDatabase.get.mockResolvedValue(mockScoreUpdate);
+
+      const result = await scoreRepository.findByActionToken("action-token-1");
+
+      expect(result).toEqual(mockScoreUpdate);
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT * FROM score_updates WHERE action_token = ?",
+        ["action-token-1"]
+      );
+    });
+
+    it("should return null when the token has not been used", async () => {
+      mockDatabase.get.mockResolvedValue(undefined);
+
+      const result = await scoreRepository.findByActionToken("unused");
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("getUserStanding", () => {
+    it("should return the user's total score and rank", async () => {
+      mockDatabase.get.mockResolvedValue({ score: 1250, rank: 5 });
+
+      const result = await scoreRepository.getUserStanding(1);
+
+      expect(result).toEqual({ score: 1250, rank: 5 });
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        expect.stringContaining("ROW_NUMBER() OVER"),
+        [1]
+      );
+    });
+
+    it("should return null for a user without scores", async () => {
+      mockDatabase.get.mockResolvedValue(undefined);
+
+      const result = await scoreRepository.getUserStanding(42);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("getTopScores", () => {
+    it("should map ranked rows to leaderboard entries", async () => {
+      mockDatabase.query.mockResolvedValue([
+        {
+          rank: 1,
+          user_id: 2,
+          username: "player2",
+          score: 2500,
+          last_updated: "2024-01-15 10:30:00",
+        },
+        {
+          rank: 2,
+          user_id: 1,
+          username: "player1",
+          score: 1800,
+          last_updated: "2024-01-14 09:00:00",
+        },
+      ]);
+
+      const result = await scoreRepository.getTopScores(10);
+
+      expect(result).toEqual([
+        {
+          rank: 1,
+          userId: 2,
+          username: "player2",
+          score: 2500,
+          lastUpdated: "2024-01-15 10:30:00",
+        },
+        {
+          rank: 2,
+          userId: 1,
+          username: "player1",
+          score: 1800,
+          lastUpdated: "2024-01-14 09:00:00",
+        },
+      ]);
+      expect(mockDatabase.query).toHaveBeenCalledWith(
+        expect.stringContaining("JOIN users ON users.id = ranked.user_id"),
+        [10]
+      );
+    });
+
+    it("should handle database errors", async () => {
+      mockDatabase.query.mockRejectedValue(new Error("Database error"));
+
+      await expect(scoreRepository.getTopScores()).rejects.toThrow(ApiError);
+    });
+  });
+});
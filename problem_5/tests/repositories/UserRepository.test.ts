@@ -22,13 +22,12 @@ describe("UserRepository", () => {
 
       mockDatabase.get
         .mockResolvedValueOnce(null) // No existing user (findByEmail)
-        .mockResolvedValueOnce(mockCreatedUser); // Created user (findById)
-      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+        .mockResolvedValueOnce(mockCreatedUser); // Created user (RETURNING *)
 
       const result = await userRepository.createUser(userData);
 
       expect(result).toEqual(mockCreatedUser);
-      expect(mockDatabase.run).toHaveBeenCalledWith(
+      expect(mockDatabase.get).toHaveBeenCalledWith(
         expect.stringContaining("INSERT INTO users"),
         expect.arrayContaining(["John Doe", "john@example.com", 30, "active"])
       );
@@ -46,7 +45,40 @@ describe("UserRepository", () => {
       mockDatabase.get.mockResolvedValue(existingUser);
 
       await expect(userRepository.createUser(userData)).rejects.toThrow(
-        new ApiError("Email already exists", 400)
+        new ApiError("Email already exists", 409, "CONFLICT")
+      );
+    });
+
+    it("should check the email and insert in one transaction", async () => {
+      mockDatabase.get.mockResolvedValue(createMockDbResponse.user());
+
+      await expect(
+        userRepository.createUser({ name: "John", email: "john@example.com" })
+      ).rejects.toThrow("Email already exists");
+
+      expect(mockDatabase.withTransaction).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT * FROM users WHERE email = ?",
+        ["john@example.com"]
+      );
+      expect(mockDatabase.run).not.toHaveBeenCalled();
+    });
+
+    it("should save the password hash in the same transaction", async () => {
+      mockDatabase.get
+        .mockResolvedValueOnce(null) // No existing user (findByEmail)
+        .mockResolvedValueOnce(createMockDbResponse.user()); // RETURNING *
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      await userRepository.createUser(
+        { name: "John Doe", email: "john@example.com" },
+        "scrypt$salt$hash"
+      );
+
+      expect(mockDatabase.withTransaction).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO user_credentials"),
+        [1, "scrypt$salt$hash"]
       );
     });
 
@@ -63,8 +95,7 @@ describe("UserRepository", () => {
 
       mockDatabase.get
         .mockResolvedValueOnce(null) // No existing user (findByEmail)
-        .mockResolvedValueOnce(mockCreatedUser); // Created user (findById)
-      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+        .mockResolvedValueOnce(mockCreatedUser); // Created user (RETURNING *)
 
       const result = await userRepository.createUser(userData);
 
@@ -97,7 +128,7 @@ describe("UserRepository", () => {
       mockDatabase.get.mockResolvedValue(existingUser);
 
       await expect(userRepository.updateUser(1, updateData)).rejects.toThrow(
-        new ApiError("Email already exists", 400)
+        new ApiError("Email already exists", 409, "CONFLICT")
       );
     });
 
@@ -123,6 +154,37 @@ describe("UserRepository", () => {
       expect(result).toEqual(updatedUser);
     });
 
+    it("should change only the password when no profile fields are given", async () => {
+      const user = createMockDbResponse.user();
+      mockDatabase.get.mockResolvedValue(user);
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      const result = await userRepository.updateUser(
+        1,
+        {},
+        undefined,
+        "scrypt$salt$hash"
+      );
+
+      expect(result).toEqual(user);
+      expect(mockDatabase.run).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO user_credentials"),
+        [1, "scrypt$salt$hash"]
+      );
+    });
+
+    it("should check the expected versions on password-only updates", async () => {
+      mockDatabase.get.mockResolvedValue(
+        createMockDbResponse.user({ version: 2 })
+      );
+
+      await expect(
+        userRepository.updateUser(1, {}, [1], "scrypt$salt$hash")
+      ).rejects.toMatchObject({ statusCode: 412 });
+      expect(mockDatabase.run).not.toHaveBeenCalled();
+    });
+
     it("should throw error when no valid fields to update", async () => {
       await expect(userRepository.updateUser(1, {})).rejects.toThrow(
         new ApiError("No valid fields to update", 400)
@@ -202,7 +264,7 @@ describe("UserRepository", () => {
 
       expect(result).toEqual(mockUsers);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM users WHERE 1=1 AND age >= ? AND age <= ? ORDER BY age ASC",
+        "SELECT * FROM users WHERE age >= ? AND age <= ? ORDER BY age ASC",
         [18, 65]
       );
     });
@@ -215,7 +277,7 @@ describe("UserRepository", () => {
 
       expect(result).toEqual(mockUsers);
       expect(mockDatabase.query).toHaveBeenCalledWith(
-        "SELECT * FROM users WHERE 1=1 AND age >= ? ORDER BY age ASC",
+        "SELECT * FROM users WHERE age >= ? ORDER BY age ASC",
         [18]
       );
     });
@@ -263,7 +325,7 @@ describe("UserRepository", () => {
 
       expect(result).toBe(true);
       expect(mockDatabase.run).toHaveBeenCalledWith(
-        "UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        "UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP, version = version + 1 WHERE id = ?",
         ["inactive", 1]
       );
     });
@@ -275,6 +337,14 @@ describe("UserRepository", () => {
 
       expect(result).toBe(false);
     });
+
+    it("should build a guarded soft delete query for transactions", () => {
+      expect(userRepository.buildSoftDeleteQuery(4)).toEqual({
+        sql: "UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP, version = version + 1 WHERE id = ?",
+        params: ["inactive", 4],
+        expectChanges: 1,
+      });
+    });
   });
 
   describe("reactivate", () => {
@@ -285,9 +355,59 @@ describe("UserRepository", () => {
 
       expect(result).toBe(true);
       expect(mockDatabase.run).toHaveBeenCalledWith(
-        "UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        "UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP, version = version + 1 WHERE id = ?",
         ["active", 1]
       );
     });
   });
+
+  describe("credentials", () => {
+    it("should upsert the password hash", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      await userRepository.setPasswordHash(1, "scrypt$salt$hash");
+
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringContaining("ON CONFLICT(user_id) DO UPDATE"),
+        [1, "scrypt$salt$hash"]
+      );
+    });
+
+    it("should store the password of a user created in the same transaction", () => {
+      const [insert, credentials] = userRepository.buildCreateQueries(
+        { name: "Jane", email: "jane@example.com" },
+        "scrypt$salt$hash"
+      );
+
+      expect(insert.sql).toContain("INSERT INTO users");
+      expect(credentials.sql).toContain(
+        "(SELECT id FROM users WHERE email = ?)"
+      );
+      expect(credentials.params).toEqual([
+        "jane@example.com",
+        "scrypt$salt$hash",
+      ]);
+    });
+
+    it("should build only the insert when no password is given", () => {
+      expect(
+        userRepository.buildCreateQueries({
+          name: "Jane",
+          email: "jane@example.com",
+        })
+      ).toHaveLength(1);
+    });
+
+    it("should return null when the user has no password", async () => {
+      mockDatabase.get.mockResolvedValue(undefined);
+
+      const result = await userRepository.findPasswordHash(1);
+
+      expect(result).toBeNull();
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        "SELECT password_hash FROM user_credentials WHERE user_id = ?",
+        [1]
+      );
+    });
+  });
 });
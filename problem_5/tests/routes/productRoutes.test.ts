@@ -0,0 +1,607 @@
+import request from "supertest";
+import App from "../../src/app";
+import { productRepository, userRepository } from "../../src/repositories";
+import { signAccessToken } from "../../src/services/jwtService";
+import { UserRole } from "../../src/types";
+import { createMockDbResponse, mockDatabase } from "../setup";
+
+jest.mock("../../src/repositories", () => ({
+  productRepository: {
+    getProductStats: jest.fn(),
+    getCategories: jest.fn(),
+    findLowStockProducts: jest.fn(),
+    updateStock: jest.fn(),
+    activate: jest.fn(),
+    deactivate: jest.fn(),
+    findById: jest.fn(),
+    updateProduct: jest.fn(),
+    findTrashed: jest.fn(),
+    delete: jest.fn(),
+    forceDelete: jest.fn(),
+    restore: jest.fn(),
+    buildCreateQuery: jest.fn(),
+    buildUpdateQuery: jest.fn(),
+    buildDeleteQuery: jest.fn(),
+  },
+  userRepository: {
+    isActive: jest.fn(),
+  },
+}));
+
+const mockProductRepository = productRepository as jest.Mocked<
+  typeof productRepository
+>;
+const mockUserRepository = userRepository as jest.Mocked<typeof userRepository>;
+
+const bearer = (role: UserRole) =>
+  `Bearer ${signAccessToken({ id: 1, email: "staff@example.com", role })}`;
+
+describe("Product routes", () => {
+  const app = new App().app;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = "test-secret";
+  });
+
+  beforeEach(() => {
+    mockUserRepository.isActive.mockResolvedValue(true);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  describe("GET /api/products/stats", () => {
+    it("should return product statistics to editors", async () => {
+      const stats = {
+        total: 3,
+        active: 2,
+        inactive: 1,
+        categories: [{ category: "Electronics", count: 3 }],
+        averagePrice: 49.5,
+        totalValue: 990,
+      };
+      mockProductRepository.getProductStats.mockResolvedValue(stats);
+
+      const res = await request(app)
+        .get("/api/products/stats")
+        .set("Authorization", bearer("editor"));
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ success: true, data: stats });
+    });
+
+    it("should require authentication", async () => {
+      const res = await request(app).get("/api/products/stats");
+
+      expect(res.status).toBe(401);
+      expect(mockProductRepository.getProductStats).not.toHaveBeenCalled();
+    });
+
+    it("should be forbidden for regular users", async () => {
+      const res = await request(app)
+        .get("/api/products/stats")
+        .set("Authorization", bearer("user"));
+
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe("FORBIDDEN");
+    });
+  });
+
+  describe("GET /api/products/categories", () => {
+    it("should list categories without authentication", async () => {
+      mockProductRepository.getCategories.mockResolvedValue([
+        "Books",
+        "Electronics",
+      ]);
+
+      const res = await request(app).get("/api/products/categories");
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        success: true,
+        data: ["Books", "Electronics"],
+      });
+    });
+  });
+
+  describe("GET /api/products/low-stock", () => {
+    it("should use the default threshold", async () => {
+      mockProductRepository.findLowStockProducts.mockResolvedValue([]);
+
+      const res = await request(app)
+        .get("/api/products/low-stock")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(mockProductRepository.findLowStockProducts).toHaveBeenCalledWith(
+        10
+      );
+    });
+
+    it("should pass the requested threshold", async () => {
+      const products = [createMockDbResponse.product({ stock_quantity: 0 })];
+      mockProductRepository.findLowStockProducts.mockResolvedValue(products);
+
+      const res = await request(app)
+        .get("/api/products/low-stock?threshold=0")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual(products);
+      expect(mockProductRepository.findLowStockProducts).toHaveBeenCalledWith(
+        0
+      );
+    });
+
+    it("should reject a negative threshold", async () => {
+      const res = await request(app)
+        .get("/api/products/low-stock?threshold=-1")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details.errors).toEqual([
+        expect.objectContaining({ field: "threshold", type: "number.min" }),
+      ]);
+    });
+  });
+
+  describe("PATCH /api/products/:id/stock", () => {
+    it("should update the stock quantity", async () => {
+      const product = createMockDbResponse.product({ stock_quantity: 25 });
+      mockProductRepository.updateStock.mockResolvedValue(product);
+
+      const res = await request(app)
+        .patch("/api/products/1/stock")
+        .set("Authorization", bearer("editor"))
+        .send({ stock_quantity: 25 });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        success: true,
+        data: product,
+        message: "Product stock updated successfully",
+      });
+      expect(mockProductRepository.updateStock).toHaveBeenCalledWith(1, 25);
+    });
+
+    it("should reject a missing or negative quantity", async () => {
+      const res = await request(app)
+        .patch("/api/products/1/stock")
+        .set("Authorization", bearer("editor"))
+        .send({ stock_quantity: -3 });
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details.errors).toEqual([
+        expect.objectContaining({ field: "stock_quantity" }),
+      ]);
+      expect(mockProductRepository.updateStock).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for an unknown product", async () => {
+      mockProductRepository.updateStock.mockResolvedValue(null);
+
+      const res = await request(app)
+        .patch("/api/products/999/stock")
+        .set("Authorization", bearer("editor"))
+        .send({ stock_quantity: 5 });
+
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe("NOT_FOUND");
+    });
+  });
+
+  describe("POST /api/products/:id/activate and /deactivate", () => {
+    it("should activate a product and return it", async () => {
+      const product = createMockDbResponse.product({ is_active: true });
+      mockProductRepository.activate.mockResolvedValue(true);
+      mockProductRepository.findById.mockResolvedValue(product);
+
+      const res = await request(app)
+        .post("/api/products/1/activate")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        success: true,
+        data: product,
+        message: "Product activated successfully",
+      });
+      expect(mockProductRepository.activate).toHaveBeenCalledWith(1);
+    });
+
+    it("should deactivate a product", async () => {
+      const product = createMockDbResponse.product({ is_active: false });
+      mockProductRepository.deactivate.mockResolvedValue(true);
+      mockProductRepository.findById.mockResolvedValue(product);
+
+      const res = await request(app)
+        .post("/api/products/1/deactivate")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe("Product deactivated successfully");
+      expect(mockProductRepository.deactivate).toHaveBeenCalledWith(1);
+    });
+
+    it("should return 404 for an unknown product", async () => {
+      mockProductRepository.deactivate.mockResolvedValue(false);
+
+      const res = await request(app)
+        .post("/api/products/999/deactivate")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(404);
+      expect(mockProductRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it("should reject an invalid id", async () => {
+      const res = await request(app)
+        .post("/api/products/abc/activate")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details.location).toBe("params");
+    });
+
+    it("should be forbidden for regular users", async () => {
+      const res = await request(app)
+        .post("/api/products/1/activate")
+        .set("Authorization", bearer("user"));
+
+      expect(res.status).toBe(403);
+      expect(mockProductRepository.activate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/products/trash", () => {
+    it("should list trashed products newest first", async () => {
+      const trashed = [
+        createMockDbResponse.product({ deleted_at: "2024-01-02 00:00:00" }),
+      ];
+      mockProductRepository.findTrashed.mockResolvedValue({
+        data: trashed,
+        total: 1,
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+      });
+
+      const res = await request(app)
+        .get("/api/products/trash")
+        .set("Authorization", bearer("editor"));
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual(trashed);
+      expect(res.body.pagination.total).toBe(1);
+      expect(mockProductRepository.findTrashed).toHaveBeenCalledWith(1, 10);
+    });
+
+    it("should be forbidden for regular users", async () => {
+      const res = await request(app)
+        .get("/api/products/trash")
+        .set("Authorization", bearer("user"));
+
+      expect(res.status).toBe(403);
+      expect(mockProductRepository.findTrashed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/products/:id/restore", () => {
+    it("should restore a trashed product", async () => {
+      const product = createMockDbResponse.product();
+      mockProductRepository.restore.mockResolvedValue(true);
+      mockProductRepository.findById.mockResolvedValue(product);
+
+      const res = await request(app)
+        .post("/api/products/1/restore")
+        .set("Authorization", bearer("editor"));
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe("Product restored successfully");
+      expect(mockProductRepository.restore).toHaveBeenCalledWith(1);
+    });
+
+    it("should return 404 when the product is not in the trash", async () => {
+      mockProductRepository.restore.mockResolvedValue(false);
+
+      const res = await request(app)
+        .post("/api/products/1/restore")
+        .set("Authorization", bearer("editor"));
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/products/:id", () => {
+    it("should move the product to the trash by default", async () => {
+      mockProductRepository.delete.mockResolvedValue(true);
+
+      const res = await request(app)
+        .delete("/api/products/1")
+        .set("Authorization", bearer("editor"));
+
+      expect(res.status).toBe(200);
+      expect(mockProductRepository.delete).toHaveBeenCalledWith(1);
+      expect(mockProductRepository.forceDelete).not.toHaveBeenCalled();
+    });
+
+    it("should permanently delete for admins with hard=true", async () => {
+      mockProductRepository.forceDelete.mockResolvedValue(true);
+
+      const res = await request(app)
+        .delete("/api/products/1?hard=true")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe("Product permanently deleted");
+      expect(mockProductRepository.forceDelete).toHaveBeenCalledWith(1);
+    });
+
+    it("should not let editors permanently delete", async () => {
+      const res = await request(app)
+        .delete("/api/products/1?hard=true")
+        .set("Authorization", bearer("editor"));
+
+      expect(res.status).toBe(403);
+      expect(mockProductRepository.forceDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("conditional requests on /api/products/:id", () => {
+    it("should return the version as ETag and 304 when it still matches", async () => {
+      mockProductRepository.findById.mockResolvedValue(
+        createMockDbResponse.product({ version: 2 })
+      );
+
+      const first = await request(app).get("/api/products/1");
+      const second = await request(app)
+        .get("/api/products/1")
+        .set("If-None-Match", '"2"');
+      const stale = await request(app)
+        .get("/api/products/1")
+        .set("If-None-Match", '"1"');
+
+      expect(first.headers.etag).toBe('"2"');
+      expect(second.status).toBe(304);
+      expect(stale.status).toBe(200);
+    });
+
+    it("should pass If-Match versions to the update", async () => {
+      mockProductRepository.updateProduct.mockResolvedValue(
+        createMockDbResponse.product({ price: 10, version: 3 })
+      );
+
+      const res = await request(app)
+        .put("/api/products/1")
+        .set("Authorization", bearer("editor"))
+        .set("If-Match", '"2"')
+        .send({ price: 10 });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.etag).toBe('"3"');
+      expect(mockProductRepository.updateProduct).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ price: 10 }),
+        [2]
+      );
+    });
+
+    it("should reject weak If-Match tags before updating", async () => {
+      const res = await request(app)
+        .put("/api/products/1")
+        .set("Authorization", bearer("editor"))
+        .set("If-Match", 'W/"2"')
+        .send({ price: 10 });
+
+      expect(res.status).toBe(412);
+      expect(res.body.error.code).toBe("PRECONDITION_FAILED");
+      expect(mockProductRepository.updateProduct).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("PATCH /api/products/:id", () => {
+    const patch = (body: unknown, type: string) =>
+      request(app)
+        .patch("/api/products/1")
+        .set("Authorization", bearer("editor"))
+        .set("Content-Type", type)
+        .send(JSON.stringify(body));
+
+    beforeEach(() => {
+      mockProductRepository.findById.mockResolvedValue(
+        createMockDbResponse.product({
+          description: null,
+          is_active: 1,
+          version: 4,
+        })
+      );
+    });
+
+    it("should apply a JSON Merge Patch and save only the changes", async () => {
+      const updated = createMockDbResponse.product({ price: 5, version: 5 });
+      mockProductRepository.updateProduct.mockResolvedValue(updated);
+
+      const res = await patch(
+        { price: 5, category: null },
+        "application/merge-patch+json"
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual(updated);
+      expect(res.headers.etag).toBe('"5"');
+      expect(mockProductRepository.updateProduct).toHaveBeenCalledWith(
+        1,
+        { price: 5, category: null },
+        [4]
+      );
+    });
+
+    it("should apply a JSON Patch", async () => {
+      mockProductRepository.updateProduct.mockResolvedValue(
+        createMockDbResponse.product()
+      );
+
+      const res = await patch(
+        [
+          { op: "test", path: "/is_active", value: true },
+          { op: "replace", path: "/is_active", value: false },
+          { op: "add", path: "/description", value: "New" },
+        ],
+        "application/json-patch+json"
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockProductRepository.updateProduct).toHaveBeenCalledWith(
+        1,
+        { description: "New", is_active: false },
+        [4]
+      );
+    });
+
+    it("should not write when the patch changes nothing", async () => {
+      const res = await patch(
+        { name: "Test Product" },
+        "application/merge-patch+json"
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.etag).toBe('"4"');
+      expect(mockProductRepository.updateProduct).not.toHaveBeenCalled();
+    });
+
+    it("should validate the patched product", async () => {
+      const res = await patch(
+        [
+          { op: "replace", path: "/price", value: -1 },
+          { op: "remove", path: "/name" },
+        ],
+        "application/json-patch+json"
+      );
+
+      expect(res.status).toBe(422);
+      expect(
+        res.body.error.details.errors.map((e: { field: string }) => e.field)
+      ).toEqual(["name", "price"]);
+      expect(mockProductRepository.updateProduct).not.toHaveBeenCalled();
+    });
+
+    it("should return 409 when a JSON Patch test fails", async () => {
+      const res = await patch(
+        [{ op: "test", path: "/price", value: 1 }],
+        "application/json-patch+json"
+      );
+
+      expect(res.status).toBe(409);
+    });
+
+    it("should require a patch media type", async () => {
+      const res = await request(app)
+        .patch("/api/products/1")
+        .set("Authorization", bearer("editor"))
+        .send({ price: 5 });
+
+      expect(res.status).toBe(415);
+      expect(res.body.error.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+      expect(res.headers["accept-patch"]).toBe(
+        "application/merge-patch+json, application/json-patch+json"
+      );
+      expect(mockProductRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it("should fail the precondition for a stale If-Match", async () => {
+      const res = await request(app)
+        .patch("/api/products/1")
+        .set("Authorization", bearer("editor"))
+        .set("Content-Type", "application/merge-patch+json")
+        .set("If-Match", '"3"')
+        .send(JSON.stringify({ price: 5 }));
+
+      expect(res.status).toBe(412);
+      expect(mockProductRepository.updateProduct).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/products/bulk", () => {
+    const bulk = (body: object, role: UserRole = "editor") =>
+      request(app)
+        .post("/api/products/bulk")
+        .set("Authorization", bearer(role))
+        .send(body);
+
+    beforeEach(() => {
+      mockProductRepository.buildCreateQuery.mockReturnValue({ sql: "INSERT" });
+      mockProductRepository.buildDeleteQuery.mockReturnValue({
+        sql: "DELETE",
+      });
+    });
+
+    it("should run the batch atomically by default", async () => {
+      (mockDatabase as any).transactionGroups.mockResolvedValue([
+        { results: [{ lastID: 5, changes: 1 }] },
+        { results: [{ changes: 1 }] },
+      ]);
+
+      const res = await bulk({
+        operations: [
+          { op: "create", data: { name: "Lamp", price: 20 } },
+          { op: "delete", id: 2 },
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({
+        mode: "atomic",
+        succeeded: 2,
+        failed: 0,
+        results: [
+          { index: 0, op: "create", status: 201, id: 5 },
+          { index: 1, op: "delete", status: 200, id: 2 },
+        ],
+      });
+      expect(mockProductRepository.buildCreateQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Lamp", price: 20 })
+      );
+      expect((mockDatabase as any).transactionGroups).toHaveBeenCalledWith(
+        [[{ sql: "INSERT" }], [{ sql: "DELETE" }]],
+        { continueOnError: false }
+      );
+    });
+
+    it("should report per-item failures in best-effort mode", async () => {
+      (mockDatabase as any).transactionGroups.mockResolvedValue([
+        { results: [{ changes: 1 }] },
+      ]);
+
+      const res = await bulk({
+        mode: "best_effort",
+        operations: [
+          { op: "create", data: { name: "Lamp", price: -1 } },
+          { op: "delete", id: 2 },
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.succeeded).toBe(1);
+      expect(res.body.data.results[0]).toMatchObject({
+        index: 0,
+        status: 422,
+        error: { code: "VALIDATION_ERROR" },
+      });
+    });
+
+    it("should reject malformed operations", async () => {
+      const res = await bulk({ operations: [{ op: "update", data: {} }] });
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details.errors).toEqual([
+        expect.objectContaining({ field: "operations.0.id" }),
+      ]);
+      expect((mockDatabase as any).transactionGroups).not.toHaveBeenCalled();
+    });
+
+    it("should be forbidden for regular users", async () => {
+      const res = await bulk({ operations: [{ op: "delete", id: 2 }] }, "user");
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import request from "supertest";
+import App from "../../src/app";
+import { userRepository } from "../../src/repositories";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { signAccessToken } from "../../src/services/jwtService";
+import { UserRole } from "../../src/types";
+import { createMockDbResponse, mockDatabase } from "../setup";
+
+jest.mock("../../src/repositories", () => ({
+  userRepository: {
+    getUserStats: jest.fn(),
+    findUsersWithFilters: jest.fn(),
+    softDelete: jest.fn(),
+    delete: jest.fn(),
+    reactivate: jest.fn(),
+    findById: jest.fn(),
+    updateUser: jest.fn(),
+    buildCreateQueries: jest.fn(),
+    buildSoftDeleteQuery: jest.fn(),
+    isActive: jest.fn(),
+  },
+}));
+
+const mockUserRepository = userRepository as jest.Mocked<typeof userRepository>;
+
+const bearer = (role: UserRole, id = 1) =>
+  `Bearer ${signAccessToken({ id, email: "user@example.com", role })}`;
+
+describe("User routes", () => {
+  const app = new App().app;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = "test-secret";
+  });
+
+  beforeEach(() => {
+    mockUserRepository.isActive.mockResolvedValue(true);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  describe("GET /api/users", () => {
+    it("should pass validated and converted query values", async () => {
+      mockUserRepository.findUsersWithFilters.mockResolvedValue({
+        data: [],
+        total: 0,
+        page: 2,
+        limit: 5,
+        totalPages: 0,
+      });
+
+      const res = await request(app)
+        .get("/api/users?page=2&limit=5&age_min=18&age_max=65&junk=1")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(mockUserRepository.findUsersWithFilters).toHaveBeenCalledWith(
+        expect.objectContaining({ age_min: 18, age_max: 65, conditions: [] }),
+        2,
+        5,
+        undefined,
+        undefined
+      );
+    });
+
+    it.each([
+      ["age_min=abc", "age_min"],
+      ["limit=100000", "limit"],
+      ["age_min=30&age_max=20", "age_max"],
+    ])("should reject ?%s", async (query, field) => {
+      const res = await request(app)
+        .get(`/api/users?${query}`)
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details.errors).toEqual([
+        expect.objectContaining({ field }),
+      ]);
+      expect(mockUserRepository.findUsersWithFilters).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/users/stats", () => {
+    it("should return user statistics to admins", async () => {
+      const stats = { total: 10, active: 8, inactive: 2, averageAge: 31 };
+      mockUserRepository.getUserStats.mockResolvedValue(stats);
+
+      const res = await request(app)
+        .get("/api/users/stats")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ success: true, data: stats });
+    });
+
+    it("should be forbidden for non-admins", async () => {
+      const res = await request(app)
+        .get("/api/users/stats")
+        .set("Authorization", bearer("editor"));
+
+      expect(res.status).toBe(403);
+      expect(mockUserRepository.getUserStats).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /api/users/:id", () => {
+    it("should let users deactivate their own account", async () => {
+      mockUserRepository.softDelete.mockResolvedValue(true);
+
+      const res = await request(app)
+        .delete("/api/users/1")
+        .set("Authorization", bearer("user", 1));
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe("User deactivated successfully");
+      expect(mockUserRepository.softDelete).toHaveBeenCalledWith(1);
+      expect(mockUserRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it("should let admins purge users with hard=true", async () => {
+      mockUserRepository.delete.mockResolvedValue(true);
+
+      const res = await request(app)
+        .delete("/api/users/5?hard=true")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe("User permanently deleted");
+      expect(mockUserRepository.delete).toHaveBeenCalledWith(5);
+    });
+
+    it("should not let users purge their own account", async () => {
+      const res = await request(app)
+        .delete("/api/users/1?hard=true")
+        .set("Authorization", bearer("user", 1));
+
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe("FORBIDDEN");
+      expect(mockUserRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it("should reject a non-boolean hard flag", async () => {
+      const res = await request(app)
+        .delete("/api/users/1?hard=yes")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details.errors).toEqual([
+        expect.objectContaining({ field: "hard" }),
+      ]);
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      mockUserRepository.softDelete.mockResolvedValue(false);
+
+      const res = await request(app)
+        .delete("/api/users/999")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/users/:id/reactivate", () => {
+    it("should reactivate the user and return it", async () => {
+      const user = createMockDbResponse.user({ id: 5 });
+      mockUserRepository.reactivate.mockResolvedValue(true);
+      mockUserRepository.findById.mockResolvedValue(user);
+
+      const res = await request(app)
+        .post("/api/users/5/reactivate")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        success: true,
+        data: user,
+        message: "User reactivated successfully",
+      });
+      expect(mockUserRepository.reactivate).toHaveBeenCalledWith(5);
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      mockUserRepository.reactivate.mockResolvedValue(false);
+
+      const res = await request(app)
+        .post("/api/users/999/reactivate")
+        .set("Authorization", bearer("admin"));
+
+      expect(res.status).toBe(404);
+    });
+
+    it("should be admin only", async () => {
+      const res = await request(app)
+        .post("/api/users/1/reactivate")
+        .set("Authorization", bearer("user", 1));
+
+      expect(res.status).toBe(403);
+      expect(mockUserRepository.reactivate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("conditional requests on /api/users/:id", () => {
+    it("should return the version as ETag and 304 when it still matches", async () => {
+      mockUserRepository.findById.mockResolvedValue(
+        createMockDbResponse.user({ version: 4 })
+      );
+
+      const first = await request(app)
+        .get("/api/users/1")
+        .set("Authorization", bearer("user"));
+      const second = await request(app)
+        .get("/api/users/1")
+        .set("Authorization", bearer("user"))
+        .set("If-None-Match", '"4"');
+
+      expect(first.status).toBe(200);
+      expect(first.headers.etag).toBe('"4"');
+      expect(second.status).toBe(304);
+      expect(second.text).toBe("");
+    });
+
+    it("should pass If-Match versions to the update", async () => {
+      mockUserRepository.updateUser.mockResolvedValue(
+        createMockDbResponse.user({ name: "Jane", version: 5 })
+      );
+
+      const res = await request(app)
+        .put("/api/users/1")
+        .set("Authorization", bearer("user"))
+        .set("If-Match", '"4"')
+        .send({ name: "Jane" });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.etag).toBe('"5"');
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ name: "Jane" }),
+        [4],
+        undefined
+      );
+    });
+
+    it("should return 412 when the user changed in the meantime", async () => {
+      mockUserRepository.updateUser.mockRejectedValue(
+        new ApiError("The users record has been modified", 412)
+      );
+
+      const res = await request(app)
+        .put("/api/users/1")
+        .set("Authorization", bearer("user"))
+        .set("If-Match", '"3"')
+        .send({ name: "Jane" });
+
+      expect(res.status).toBe(412);
+      expect(res.body.error.code).toBe("PRECONDITION_FAILED");
+    });
+  });
+
+  describe("PATCH /api/users/:id", () => {
+    const patch = (body: unknown, role: UserRole = "user") =>
+      request(app)
+        .patch("/api/users/1")
+        .set("Authorization", bearer(role))
+        .set("Content-Type", "application/merge-patch+json")
+        .send(JSON.stringify(body));
+
+    beforeEach(() => {
+      mockUserRepository.findById.mockResolvedValue(
+        createMockDbResponse.user({ version: 2 })
+      );
+    });
+
+    it("should let users patch their own profile", async () => {
+      mockUserRepository.updateUser.mockResolvedValue(
+        createMockDbResponse.user({ age: undefined, version: 3 })
+      );
+
+      const res = await patch({ age: null, name: "Jane" });
+
+      expect(res.status).toBe(200);
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(
+        1,
+        { name: "Jane", age: null },
+        [2]
+      );
+    });
+
+    it("should only let admins change roles", async () => {
+      const res = await patch({ role: "admin" });
+
+      expect(res.status).toBe(403);
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+
+    it("should only let admins change status", async () => {
+      const res = await patch({ status: "inactive" });
+
+      expect(res.status).toBe(403);
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+
+    it("should not accept a required field being removed", async () => {
+      const res = await patch({ email: null }, "admin");
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.details.errors).toEqual([
+        expect.objectContaining({ field: "email", type: "any.required" }),
+      ]);
+    });
+  });
+
+  describe("POST /api/users/bulk", () => {
+    const body = {
+      operations: [
+        {
+          op: "create",
+          data: {
+            name: "Jane",
+            email: "jane@example.com",
+            password: "correct horse battery",
+          },
+        },
+        { op: "delete", id: 4 },
+      ],
+    };
+
+    it("should hash passwords and soft delete users for admins", async () => {
+      mockUserRepository.buildCreateQueries.mockReturnValue([
+        { sql: "INSERT" },
+        { sql: "CREDENTIALS" },
+      ]);
+      mockUserRepository.buildSoftDeleteQuery.mockReturnValue({
+        sql: "DEACTIVATE",
+      });
+      (mockDatabase as any).transactionGroups.mockResolvedValue([
+        { results: [{ lastID: 9, changes: 1 }, { changes: 1 }] },
+        { results: [{ changes: 1 }] },
+      ]);
+
+      const res = await request(app)
+        .post("/api/users/bulk")
+        .set("Authorization", bearer("admin"))
+        .send(body);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.results).toEqual([
+        { index: 0, op: "create", status: 201, id: 9 },
+        { index: 1, op: "delete", status: 200, id: 4 },
+      ]);
+      const [profile, passwordHash] =
+        mockUserRepository.buildCreateQueries.mock.calls[0];
+      expect(profile).not.toHaveProperty("password");
+      expect(passwordHash).toMatch(/^scrypt\$/);
+      expect(mockUserRepository.buildSoftDeleteQuery).toHaveBeenCalledWith(4);
+    });
+
+    it("should be forbidden for editors", async () => {
+      const res = await request(app)
+        .post("/api/users/bulk")
+        .set("Authorization", bearer("editor"))
+        .send(body);
+
+      expect(res.status).toBe(403);
+      expect((mockDatabase as any).transactionGroups).not.toHaveBeenCalled();
+    });
+  });
+});
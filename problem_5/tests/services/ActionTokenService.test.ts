@@ -0,0 +1,224 @@
+import {
+  ActionTokenService,
+  hashActionToken,
+  INVALID_ACTION_TOKEN,
+  INVALID_ACTION_TYPE,
+} from "../../src/services/actionTokenService";
+import { TransactionGuardError } from "../../src/database/connection";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { mockDatabase, createMockDbResponse } from "../setup";
+
+describe("ActionTokenService", () => {
+  let service: ActionTokenService;
+
+  beforeEach(() => {
+    service = new ActionTokenService({ secret: "test-secret" });
+    mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+  });
+
+  const invalidTokenError = expect.objectContaining({
+    statusCode: 400,
+    code: INVALID_ACTION_TOKEN,
+  });
+
+  const expectInvalidToken = async (promise: Promise<unknown>) => {
+    await expect(promise).rejects.toBeInstanceOf(ApiError);
+    await expect(promise).rejects.toEqual(invalidTokenError);
+  };
+
+  const verifyError = (token: string) => {
+    try {
+      service.verify(token);
+    } catch (error) {
+      return error;
+    }
+    throw new Error("Expected verify to throw");
+  };
+
+  describe("issue", () => {
+    it("should store only the token hash with its action and score value", async () => {
+      const { token, expiresAt } = await service.issue(
+        1,
+        "quest_completed",
+        50
+      );
+
+      expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO action_tokens"),
+        [hashActionToken(token), 1, "quest_completed", 50, expiresAt]
+      );
+    });
+
+    it("should expire tokens after five minutes by default", async () => {
+      const before = Date.now();
+      const { expiresAt } = await service.issue(1, "quest_completed", 50);
+
+      const ttl = new Date(expiresAt).getTime() - before;
+      expect(ttl).toBeGreaterThanOrEqual(5 * 60 * 1000 - 1000);
+      expect(ttl).toBeLessThanOrEqual(5 * 60 * 1000);
+    });
+
+    it("should fail when no secret is configured", async () => {
+      const unconfigured = new ActionTokenService();
+      const previous = process.env.ACTION_TOKEN_SECRET;
+      delete process.env.ACTION_TOKEN_SECRET;
+
+      await expect(
+        unconfigured.issue(1, "quest_completed", 50)
+      ).rejects.toThrow("ACTION_TOKEN_SECRET is not configured");
+
+      process.env.ACTION_TOKEN_SECRET = previous;
+    });
+  });
+
+  describe("issueForAction", () => {
+    it("should seal the score value listed for the action type", async () => {
+      const { token } = await service.issueForAction(1, "quest_completed");
+
+      expect(service.verify(token)).toMatchObject({
+        userId: 1,
+        actionType: "quest_completed",
+        scoreValue: 50,
+      });
+    });
+
+    it("should reject action types without a score value", async () => {
+      await expect(service.issueForAction(1, "toString")).rejects.toMatchObject(
+        { statusCode: 400, code: INVALID_ACTION_TYPE }
+      );
+      expect(mockDatabase.run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("issueDailyLogin", () => {
+    it("should issue a daily_login token on the first login of the day", async () => {
+      mockDatabase.get.mockResolvedValue(undefined);
+
+      const issued = await service.issueDailyLogin(1);
+
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        expect.stringContaining("FROM action_tokens"),
+        [
+          1,
+          "daily_login",
+          expect.stringMatching(/^\d{4}-\d{2}-\d{2} 00:00:00$/),
+        ]
+      );
+      expect(service.verify(issued!.token)).toMatchObject({
+        userId: 1,
+        actionType: "daily_login",
+        scoreValue: 10,
+      });
+      expect(mockDatabase.withTransaction).toHaveBeenCalled();
+    });
+
+    it("should not issue a second token on the same day", async () => {
+      mockDatabase.get.mockResolvedValue({ issued: 1 });
+
+      await expect(service.issueDailyLogin(1)).resolves.toBeNull();
+      expect(mockDatabase.run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verify", () => {
+    it("should return the signed claims", async () => {
+      const { token } = await service.issue(1, "quest_completed", 50);
+
+      const claims = service.verify(token);
+
+      expect(claims).toMatchObject({
+        userId: 1,
+        actionType: "quest_completed",
+        scoreValue: 50,
+      });
+    });
+
+    it("should reject a token with a tampered payload", async () => {
+      const { token } = await service.issue(1, "quest_completed", 50);
+      const [, signature] = token.split(".");
+      const forged = Buffer.from(
+        JSON.stringify({ ...service.verify(token), scoreValue: 5000 })
+      ).toString("base64url");
+
+      expect(verifyError(`${forged}.${signature}`)).toEqual(invalidTokenError);
+    });
+
+    it("should reject a token signed with another secret", async () => {
+      const { token } = await new ActionTokenService({
+        secret: "other-secret",
+      }).issue(1, "quest_completed", 50);
+
+      expect(verifyError(token)).toEqual(invalidTokenError);
+    });
+
+    it("should reject an expired token", async () => {
+      const { token } = await new ActionTokenService({
+        secret: "test-secret",
+        ttlMs: -1,
+      }).issue(1, "quest_completed", 50);
+
+      expect(verifyError(token)).toEqual(invalidTokenError);
+    });
+
+    it("should reject malformed tokens", async () => {
+      expect(verifyError("not-a-token")).toEqual(invalidTokenError);
+    });
+  });
+
+  describe("consume", () => {
+    it("should mark the token used in the same transaction as the dependent queries", async () => {
+      const { token } = await service.issue(1, "quest_completed", 50);
+      mockDatabase.transaction.mockResolvedValue([
+        createMockDbResponse.runResult(),
+        createMockDbResponse.runResult(),
+      ]);
+      const dependent = { sql: "INSERT INTO score_updates", params: [] };
+
+      const claims = await service.consume(
+        token,
+        { userId: 1, actionType: "quest_completed" },
+        () => [dependent]
+      );
+
+      expect(claims.scoreValue).toBe(50);
+      expect(mockDatabase.transaction).toHaveBeenCalledWith([
+        expect.objectContaining({
+          sql: expect.stringContaining("UPDATE action_tokens SET used_at"),
+          params: expect.arrayContaining([hashActionToken(token), 1]),
+          expectChanges: 1,
+        }),
+        dependent,
+      ]);
+    });
+
+    it("should reject a replayed token", async () => {
+      const { token } = await service.issue(1, "quest_completed", 50);
+      mockDatabase.transaction.mockRejectedValue(
+        new TransactionGuardError("Expected 1 change(s) but got 0")
+      );
+
+      await expectInvalidToken(
+        service.consume(token, { userId: 1, actionType: "quest_completed" })
+      );
+    });
+
+    it("should reject a token issued for another user", async () => {
+      const { token } = await service.issue(2, "quest_completed", 50);
+
+      await expectInvalidToken(
+        service.consume(token, { userId: 1, actionType: "quest_completed" })
+      );
+      expect(mockDatabase.transaction).not.toHaveBeenCalled();
+    });
+
+    it("should propagate unrelated database errors", async () => {
+      const { token } = await service.issue(1, "quest_completed", 50);
+      mockDatabase.transaction.mockRejectedValue(new Error("disk I/O error"));
+
+      await expect(
+        service.consume(token, { userId: 1, actionType: "quest_completed" })
+      ).rejects.toThrow("disk I/O error");
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { AuthService } from "../../src/services/authService";
+import { hashPassword } from "../../src/services/passwordService";
+import { verifyAccessToken } from "../../src/services/jwtService";
+import { TransactionGuardError } from "../../src/database/connection";
+import { ApiError } from "../../src/middleware/errorHandler";
+import { refreshTokenRepository, userRepository } from "../../src/repositories";
+import { actionTokenService } from "../../src/services/actionTokenService";
+import { mockDatabase, createMockDbResponse } from "../setup";
+
+// Mock the repositories
+jest.mock("../../src/repositories", () => ({
+  userRepository: {
+    findByEmail: jest.fn(),
+    findById: jest.fn(),
+    findPasswordHash: jest.fn(),
+  },
+  refreshTokenRepository: {
+    createToken: jest.fn(),
+    findByHash: jest.fn(),
+    buildRevokeQuery: jest.fn(),
+    buildCreateQuery: jest.fn(),
+    revokeToken: jest.fn(),
+    revokeAllForUser: jest.fn(),
+  },
+}));
+
+jest.mock("../../src/services/actionTokenService", () => ({
+  actionTokenService: {
+    issueDailyLogin: jest.fn(),
+  },
+}));
+
+const mockUserRepository = userRepository as jest.Mocked<typeof userRepository>;
+const mockRefreshTokenRepository = refreshTokenRepository as jest.Mocked<
+  typeof refreshTokenRepository
+>;
+const mockActionTokenService = actionTokenService as jest.Mocked<
+  typeof actionTokenService
+>;
+
+const refreshTokenRow = (overrides: any = {}) => ({
+  id: 1,
+  user_id: 1,
+  token_hash: "hash",
+  expires_at: new Date(Date.now() + 60000).toISOString(),
+  created_at: "2023-01-01T00:00:00.000Z",
+  updated_at: "2023-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("AuthService", () => {
+  let authService: AuthService;
+  let passwordHash: string;
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword("correct-horse");
+  });
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = "test-jwt-secret";
+    authService = new AuthService();
+  });
+
+  afterEach(() => {
+    delete process.env.JWT_SECRET;
+  });
+
+  describe("login", () => {
+    it("should issue an access token and a stored refresh token", async () => {
+      const user = createMockDbResponse.user();
+      mockUserRepository.findByEmail.mockResolvedValue(user);
+      mockUserRepository.findPasswordHash.mockResolvedValue(passwordHash);
+      mockRefreshTokenRepository.createToken.mockResolvedValue(
+        refreshTokenRow()
+      );
+
+      const session = await authService.login(user.email, "correct-horse");
+
+      expect(verifyAccessToken(session.accessToken)).toEqual({
+        id: user.id,
+        email: user.email,
+        role: user.role,
+      });
+      expect(session).toMatchObject({
+        tokenType: "Bearer",
+        expiresIn: 900,
+        user,
+      });
+      expect(mockRefreshTokenRepository.createToken).toHaveBeenCalledWith({
+        user_id: user.id,
+        token_hash: expect.stringMatching(/^[a-f0-9]{64}$/),
+        expires_at: expect.any(String),
+      });
+      expect(
+        mockRefreshTokenRepository.createToken.mock.calls[0][0].token_hash
+      ).not.toBe(session.refreshToken);
+    });
+
+    it("should hand out the day's daily_login token", async () => {
+      const user = createMockDbResponse.user();
+      const dailyLoginToken = {
+        token: "payload.signature",
+        expiresAt: "2024-01-15T10:35:00.000Z",
+      };
+      mockUserRepository.findByEmail.mockResolvedValue(user);
+      mockUserRepository.findPasswordHash.mockResolvedValue(passwordHash);
+      mockRefreshTokenRepository.createToken.mockResolvedValue(
+        refreshTokenRow()
+      );
+      mockActionTokenService.issueDailyLogin.mockResolvedValue(dailyLoginToken);
+
+      const session = await authService.login(user.email, "correct-horse");
+
+      expect(mockActionTokenService.issueDailyLogin).toHaveBeenCalledWith(
+        user.id
+      );
+      expect(session.dailyLoginToken).toEqual(dailyLoginToken);
+    });
+
+    it("should reject a wrong password", async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(
+        createMockDbResponse.user()
+      );
+      mockUserRepository.findPasswordHash.mockResolvedValue(passwordHash);
+
+      await expect(
+        authService.login("john@example.com", "wrong-password")
+      ).rejects.toEqual(new ApiError("Invalid email or password", 401));
+    });
+
+    it("should reject users without credentials", async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(
+        createMockDbResponse.user()
+      );
+      mockUserRepository.findPasswordHash.mockResolvedValue(null);
+
+      await expect(
+        authService.login("john@example.com", "correct-horse")
+      ).rejects.toMatchObject({ statusCode: 401, code: "UNAUTHORIZED" });
+    });
+
+    it("should reject inactive users", async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(
+        createMockDbResponse.user({ status: "inactive" })
+      );
+      mockUserRepository.findPasswordHash.mockResolvedValue(passwordHash);
+
+      await expect(
+        authService.login("john@example.com", "correct-horse")
+      ).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe("refresh", () => {
+    it("should rotate the refresh token in one transaction", async () => {
+      const revokeQuery = { sql: "UPDATE refresh_tokens", expectChanges: 1 };
+      const createQuery = { sql: "INSERT INTO refresh_tokens" };
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        refreshTokenRow()
+      );
+      mockUserRepository.findById.mockResolvedValue(
+        createMockDbResponse.user()
+      );
+      mockRefreshTokenRepository.buildRevokeQuery.mockReturnValue(revokeQuery);
+      mockRefreshTokenRepository.buildCreateQuery.mockReturnValue(createQuery);
+      mockDatabase.transaction.mockResolvedValue([]);
+
+      const tokens = await authService.refresh("old-refresh-token");
+
+      expect(tokens.refreshToken).not.toBe("old-refresh-token");
+      expect(verifyAccessToken(tokens.accessToken).id).toBe(1);
+      expect(mockDatabase.transaction).toHaveBeenCalledWith([
+        revokeQuery,
+        createQuery,
+      ]);
+    });
+
+    it("should reject unknown refresh tokens", async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(null);
+
+      await expect(authService.refresh("unknown")).rejects.toMatchObject({
+        statusCode: 401,
+        message: "Invalid refresh token",
+      });
+    });
+
+    it("should revoke every session when a revoked token is reused", async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        refreshTokenRow({ revoked_at: "2023-01-01T00:00:00.000Z" })
+      );
+
+      await expect(authService.refresh("reused")).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+        1,
+        expect.any(String)
+      );
+    });
+
+    it("should reject expired refresh tokens", async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        refreshTokenRow({ expires_at: "2000-01-01T00:00:00.000Z" })
+      );
+
+      await expect(authService.refresh("expired")).rejects.toMatchObject({
+        statusCode: 401,
+        message: "Refresh token has expired",
+      });
+    });
+
+    it("should reject a token rotated concurrently", async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        refreshTokenRow()
+      );
+      mockUserRepository.findById.mockResolvedValue(
+        createMockDbResponse.user()
+      );
+      mockDatabase.transaction.mockRejectedValue(
+        new TransactionGuardError("Expected 1 change(s) but got 0")
+      );
+
+      await expect(authService.refresh("raced")).rejects.toMatchObject({
+        statusCode: 401,
+        message: "Refresh token has been revoked",
+      });
+    });
+  });
+
+  describe("logout", () => {
+    it("should revoke the presented refresh token", async () => {
+      mockRefreshTokenRepository.revokeToken.mockResolvedValue(true);
+
+      await authService.logout("refresh-token");
+
+      expect(mockRefreshTokenRepository.revokeToken).toHaveBeenCalledWith(
+        expect.stringMatching(/^[a-f0-9]{64}$/),
+        expect.any(String)
+      );
+    });
+  });
+});
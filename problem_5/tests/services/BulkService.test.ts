@@ -0,0 +1,134 @@
+import Joi from "joi";
+import {
+  TransactionGroupError,
+  TransactionGuardError,
+  DatabaseError,
+} from "../../src/database/connection";
+import { runBulk, BulkPlan } from "../../src/services/bulkService";
+import { mockDatabase } from "../setup";
+
+const plan: BulkPlan = {
+  createSchema: Joi.object({ name: Joi.string().required() }),
+  updateSchema: Joi.object({ name: Joi.string() }).min(1),
+  buildQueries: ({ op, id }) => [{ sql: `${op} ${id ?? ""}`.trim() }],
+};
+
+describe("runBulk", () => {
+  it("should run every operation in its own group and report ids", async () => {
+    (mockDatabase as any).transactionGroups.mockResolvedValue([
+      { results: [{ lastID: 7, changes: 1 }] },
+      { results: [{ changes: 1 }] },
+      { results: [{ changes: 1 }] },
+    ]);
+
+    const result = await runBulk(
+      [
+        { op: "create", data: { name: "A", extra: true } },
+        { op: "update", id: 3, data: { name: "B" } },
+        { op: "delete", id: 4 },
+      ],
+      "atomic",
+      plan
+    );
+
+    expect((mockDatabase as any).transactionGroups).toHaveBeenCalledWith(
+      [[{ sql: "create" }], [{ sql: "update 3" }], [{ sql: "delete 4" }]],
+      { continueOnError: false }
+    );
+    expect(result).toEqual({
+      mode: "atomic",
+      succeeded: 3,
+      failed: 0,
+      results: [
+        { index: 0, op: "create", status: 201, id: 7 },
+        { index: 1, op: "update", status: 200, id: 3 },
+        { index: 2, op: "delete", status: 200, id: 4 },
+      ],
+    });
+  });
+
+  it("should reject an atomic batch with invalid items before running it", async () => {
+    await expect(
+      runBulk(
+        [
+          { op: "create", data: { name: "A" } },
+          { op: "update", id: 3, data: {} },
+          { op: "create", data: { name: 5 } },
+        ],
+        "atomic",
+        plan
+      )
+    ).rejects.toMatchObject({
+      statusCode: 422,
+      details: {
+        location: "body",
+        errors: [
+          expect.objectContaining({ field: "operations.1.data" }),
+          expect.objectContaining({ field: "operations.2.data.name" }),
+        ],
+      },
+    });
+    expect((mockDatabase as any).transactionGroups).not.toHaveBeenCalled();
+  });
+
+  it("should report which operation rolled back an atomic batch", async () => {
+    (mockDatabase as any).transactionGroups.mockRejectedValue(
+      new TransactionGroupError(1, new TransactionGuardError("0 changes"))
+    );
+
+    await expect(
+      runBulk(
+        [
+          { op: "create", data: { name: "A" } },
+          { op: "delete", id: 9 },
+        ],
+        "atomic",
+        plan
+      )
+    ).rejects.toMatchObject({
+      statusCode: 404,
+      code: "NOT_FOUND",
+      details: { index: 1 },
+    });
+  });
+
+  it("should report failures per item in best-effort mode", async () => {
+    (mockDatabase as any).transactionGroups.mockResolvedValue([
+      {
+        error: new DatabaseError("UNIQUE", "SQLITE_CONSTRAINT_UNIQUE"),
+      },
+      { results: [{ changes: 1 }] },
+    ]);
+
+    const result = await runBulk(
+      [
+        { op: "create", data: { name: "A" } },
+        { op: "update", id: 2, data: {} },
+        { op: "delete", id: 3 },
+      ],
+      "best_effort",
+      plan
+    );
+
+    expect((mockDatabase as any).transactionGroups).toHaveBeenCalledWith(
+      [[{ sql: "create" }], [{ sql: "delete 3" }]],
+      { continueOnError: true }
+    );
+    expect(result.succeeded).toBe(1);
+    expect(result.failed).toBe(2);
+    expect(result.results).toEqual([
+      expect.objectContaining({
+        index: 0,
+        status: 409,
+        error: expect.objectContaining({ code: "CONFLICT" }),
+      }),
+      expect.objectContaining({
+        index: 1,
+        id: 2,
+        status: 422,
+        error: expect.objectContaining({ code: "VALIDATION_ERROR" }),
+      }),
+      { index: 2, op: "delete", status: 200, id: 3 },
+    ]);
+  });
+});
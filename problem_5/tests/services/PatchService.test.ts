@@ -0,0 +1,134 @@
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  applyPatch,
+  JSON_PATCH,
+  MERGE_PATCH,
+  patchChanges,
+  toPatchDocument,
+} from "../../src/services/patchService";
+
+describe("PatchService", () => {
+  describe("applyMergePatch", () => {
+    it("should merge members and remove those set to null", () => {
+      const target = {
+        title: "Goodbye!",
+        author: { given: "John", family: "Doe" },
+        tags: ["a", "b"],
+      };
+
+      const result = applyMergePatch(target, {
+        title: "Hello!",
+        author: { family: null },
+        tags: ["c"],
+        phone: "555",
+      });
+
+      expect(result).toEqual({
+        title: "Hello!",
+        author: { given: "John" },
+        tags: ["c"],
+        phone: "555",
+      });
+    });
+
+    it("should not modify the target", () => {
+      const target = { a: { b: 1 } };
+
+      applyMergePatch(target, { a: { b: 2 } });
+
+      expect(target).toEqual({ a: { b: 1 } });
+    });
+
+    it("should replace the target with a non-object patch", () => {
+      expect(applyMergePatch({ a: 1 }, ["x"])).toEqual(["x"]);
+    });
+  });
+
+  describe("applyJsonPatch", () => {
+    const document = { name: "Widget", tags: ["a", "b"], meta: { "x/y": 1 } };
+
+    it("should apply operations in order", () => {
+      const result = applyJsonPatch(document, [
+        { op: "test", path: "/name", value: "Widget" },
+        { op: "replace", path: "/name", value: "Gadget" },
+        { op: "add", path: "/tags/-", value: "c" },
+        { op: "add", path: "/tags/0", value: "z" },
+        { op: "remove", path: "/tags/1" },
+        { op: "copy", from: "/name", path: "/title" },
+        { op: "move", from: "/meta/x~1y", path: "/size" },
+      ]);
+
+      expect(result).toEqual({
+        name: "Gadget",
+        tags: ["z", "b", "c"],
+        meta: {},
+        title: "Gadget",
+        size: 1,
+      });
+      expect(document.tags).toEqual(["a", "b"]);
+    });
+
+    it("should fail the whole patch when a test fails", () => {
+      expect(() =>
+        applyJsonPatch(document, [
+          { op: "replace", path: "/name", value: "Gadget" },
+          { op: "test", path: "/name", value: "Widget" },
+        ])
+      ).toThrow(expect.objectContaining({ statusCode: 409 }));
+    });
+
+    it.each([
+      [{ op: "remove", path: "/missing" }],
+      [{ op: "replace", path: "/missing", value: 1 }],
+      [{ op: "add", path: "/tags/5", value: 1 }],
+      [{ op: "move", from: "/meta", path: "/meta/child" }],
+    ])("should reject %o as a conflict", (operation) => {
+      expect(() => applyJsonPatch(document, [operation])).toThrow(
+        expect.objectContaining({ statusCode: 409, code: "CONFLICT" })
+      );
+    });
+
+    it.each([
+      [{ op: "replace", path: "/name", value: 1 }],
+      [[{ op: "increment", path: "/name" }]],
+      [[{ op: "add", path: "/name" }]],
+      [[{ op: "copy", path: "/name" }]],
+      [[{ op: "add", path: "name", value: 1 }]],
+    ])("should reject the malformed patch %o", (patch) => {
+      expect(() => applyJsonPatch(document, patch)).toThrow(
+        expect.objectContaining({ statusCode: 400, code: "BAD_REQUEST" })
+      );
+    });
+  });
+
+  describe("applyPatch", () => {
+    it("should pick the format from the media type", () => {
+      expect(applyPatch(MERGE_PATCH, { a: 1 }, { a: null })).toEqual({});
+      expect(
+        applyPatch(JSON_PATCH, { a: 1 }, [{ op: "remove", path: "/a" }])
+      ).toEqual({});
+    });
+  });
+
+  describe("toPatchDocument and patchChanges", () => {
+    const fields = ["name", "age", "email"];
+
+    it("should leave out NULL and unlisted columns", () => {
+      expect(
+        toPatchDocument(
+          { id: 1, name: "Jane", age: null, email: "j@x.io" },
+          fields
+        )
+      ).toEqual({ name: "Jane", email: "j@x.io" });
+    });
+
+    it("should report changed fields and clear removed ones", () => {
+      const document = { name: "Jane", age: 30, email: "j@x.io" };
+
+      expect(
+        patchChanges(document, { name: "Jane", email: "k@x.io" }, fields)
+      ).toEqual({ age: null, email: "k@x.io" });
+    });
+  });
+});
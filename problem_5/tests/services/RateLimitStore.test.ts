@@ -0,0 +1,111 @@
+import {
+  MemoryRateLimitStore,
+  SqliteRateLimitStore,
+} from "../../src/services/rateLimitStore";
+import { mockDatabase, createMockDbResponse } from "../setup";
+
+describe("MemoryRateLimitStore", () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+  });
+
+  it("should allow hits up to the limit within the window", async () => {
+    await store.hit("key", 2, 1000, 0);
+    const second = await store.hit("key", 2, 1000, 100);
+    const third = await store.hit("key", 2, 1000, 200);
+
+    expect(second).toEqual({ count: 2, allowed: true, resetAt: 1000 });
+    expect(third).toEqual({ count: 2, allowed: false, resetAt: 1000 });
+  });
+
+  it("should slide the window as old hits expire", async () => {
+    await store.hit("key", 2, 1000, 0);
+    await store.hit("key", 2, 1000, 500);
+
+    const result = await store.hit("key", 2, 1000, 1000);
+
+    expect(result).toEqual({ count: 2, allowed: true, resetAt: 1500 });
+  });
+
+  it("should keep separate counters per key", async () => {
+    await store.hit("a", 1, 1000, 0);
+
+    expect((await store.hit("b", 1, 1000, 0)).allowed).toBe(true);
+    expect((await store.hit("a", 1, 1000, 0)).allowed).toBe(false);
+  });
+
+  it("should report suspensions until they expire", async () => {
+    await store.suspend("key", 5000);
+
+    expect(await store.getSuspendedUntil("key", 4999)).toBe(5000);
+    expect(await store.getSuspendedUntil("key", 5000)).toBeNull();
+    expect(await store.getSuspendedUntil("other", 0)).toBeNull();
+  });
+});
+
+describe("SqliteRateLimitStore", () => {
+  let store: SqliteRateLimitStore;
+
+  beforeEach(() => {
+    store = new SqliteRateLimitStore();
+  });
+
+  describe("hit", () => {
+    it("should prune expired hits and insert only while under the limit", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+      mockDatabase.get.mockResolvedValue({ count: 3, oldest: 1500 });
+
+      const result = await store.hit("key", 10, 1000, 2000);
+
+      expect(mockDatabase.run).toHaveBeenNthCalledWith(
+        1,
+        "DELETE FROM rate_limit_hits WHERE key = ? AND hit_at <= ?",
+        ["key", 1000]
+      );
+      expect(mockDatabase.run).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("INSERT INTO rate_limit_hits"),
+        ["key", 2000, "key", 1000, 10]
+      );
+      expect(result).toEqual({ count: 3, allowed: true, resetAt: 2500 });
+    });
+
+    it("should report the hit as rejected when nothing was inserted", async () => {
+      mockDatabase.run.mockResolvedValue(
+        createMockDbResponse.runResult({ changes: 0 })
+      );
+      mockDatabase.get.mockResolvedValue({ count: 10, oldest: 1200 });
+
+      const result = await store.hit("key", 10, 1000, 2000);
+
+      expect(result).toEqual({ count: 10, allowed: false, resetAt: 2200 });
+    });
+  });
+
+  describe("suspensions", () => {
+    it("should upsert the suspension end", async () => {
+      mockDatabase.run.mockResolvedValue(createMockDbResponse.runResult());
+
+      await store.suspend("key", 5000);
+
+      expect(mockDatabase.run).toHaveBeenCalledWith(
+        expect.stringContaining("ON CONFLICT(key) DO UPDATE"),
+        ["key", 5000]
+      );
+    });
+
+    it("should only return active suspensions", async () => {
+      mockDatabase.get.mockResolvedValueOnce({ suspended_until: 5000 });
+      mockDatabase.get.mockResolvedValueOnce(undefined);
+
+      expect(await store.getSuspendedUntil("key", 1000)).toBe(5000);
+      expect(await store.getSuspendedUntil("key", 6000)).toBeNull();
+      expect(mockDatabase.get).toHaveBeenCalledWith(
+        expect.stringContaining("suspended_until > ?"),
+        ["key", 6000]
+      );
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  PurgeableRepository,
+  TrashPurger,
+} from "../../src/services/trashPurger";
+
+const fakeRepository = (purged: number): jest.Mocked<PurgeableRepository> => ({
+  purgeTrashed: jest.fn().mockResolvedValue(purged),
+});
+
+describe("TrashPurger", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should purge every repository with the retention period", async () => {
+    const products = fakeRepository(2);
+    const users = fakeRepository(1);
+    const purger = new TrashPurger([products, users], { retentionDays: 7 });
+
+    const purged = await purger.purge();
+
+    expect(purged).toBe(3);
+    expect(products.purgeTrashed).toHaveBeenCalledWith(7);
+    expect(users.purgeTrashed).toHaveBeenCalledWith(7);
+    expect(console.log).toHaveBeenCalledWith("Purged 3 trashed record(s)");
+  });
+
+  it("should default to a 30 day retention period", async () => {
+    const products = fakeRepository(0);
+
+    await new TrashPurger([products]).purge();
+
+    expect(products.purgeTrashed).toHaveBeenCalledWith(30);
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it("should purge on start and then on every interval until stopped", async () => {
+    jest.useFakeTimers();
+    const products = fakeRepository(0);
+    const purger = new TrashPurger([products], { intervalMs: 1000 });
+
+    purger.start();
+    expect(products.purgeTrashed).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(products.purgeTrashed).toHaveBeenCalledTimes(3);
+
+    purger.stop();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(products.purgeTrashed).toHaveBeenCalledTimes(3);
+  });
+
+  it("should log failures without stopping the schedule", async () => {
+    jest.useFakeTimers();
+    const products = fakeRepository(0);
+    products.purgeTrashed.mockRejectedValueOnce(new Error("locked"));
+    const purger = new TrashPurger([products], { intervalMs: 1000 });
+
+    purger.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    purger.stop();
+
+    expect(console.error).toHaveBeenCalledWith(
+      "Failed to purge trashed records:",
+      expect.any(Error)
+    );
+    expect(products.purgeTrashed).toHaveBeenCalledTimes(2);
+  });
+});
@@ -2,10 +2,16 @@ import { database } from "../src/database/connection";
 
 // Mock the database connection for tests
 jest.mock("../src/database/connection", () => ({
+  ...jest.requireActual("../src/database/connection"),
   database: {
+    dialect: "sqlite",
     get: jest.fn(),
     query: jest.fn(),
     run: jest.fn(),
+    exec: jest.fn(),
+    withTransaction: jest.fn(),
+    transaction: jest.fn(),
+    transactionGroups: jest.fn(),
     close: jest.fn(),
   },
 }));
@@ -13,6 +19,8 @@ jest.mock("../src/database/connection", () => ({
 // Global test setup
 beforeEach(() => {
   jest.clearAllMocks();
+  // Transactions run their callback against the mocked methods
+  mockDatabase.withTransaction.mockImplementation((work) => work(mockDatabase));
 });
 
 afterAll(async () => {
@@ -27,8 +35,10 @@ export const createMockDbResponse = {
     email: "john@example.com",
     age: 30,
     status: "active",
+    role: "user",
     created_at: "2023-01-01T00:00:00.000Z",
     updated_at: "2023-01-01T00:00:00.000Z",
+    version: 1,
     ...overrides,
   }),
 
@@ -42,6 +52,31 @@ export const createMockDbResponse = {
     is_active: true,
     created_at: "2023-01-01T00:00:00.000Z",
     updated_at: "2023-01-01T00:00:00.000Z",
+    version: 1,
+    ...overrides,
+  }),
+
+  scoreUpdate: (overrides: any = {}) => ({
+    id: 1,
+    user_id: 1,
+    action_token: "action-token-1",
+    action_type: "quest_completed",
+    score_increase: 50,
+    client_ip: "127.0.0.1",
+    session_id: "session-1",
+    created_at: "2023-01-01T00:00:00.000Z",
+    updated_at: "2023-01-01T00:00:00.000Z",
+    ...overrides,
+  }),
+
+  actionToken: (overrides: any = {}) => ({
+    token_hash: "hash",
+    user_id: 1,
+    action_type: "quest_completed",
+    score_value: 50,
+    expires_at: "2023-01-01T00:05:00.000Z",
+    used_at: null,
+    created_at: "2023-01-01T00:00:00.000Z",
     ...overrides,
   }),
 
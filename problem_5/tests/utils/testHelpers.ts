@@ -1,4 +1,8 @@
-import { Request, Response } from "express";
+import express, { Request, Response } from "express";
+import { database } from "../../src/database/connection";
+import { hashPassword } from "../../src/services/passwordService";
+import { signAccessToken } from "../../src/services/jwtService";
+import { Product, User, UserRole } from "../../src/types";
 
 export const createMockRequest = (
   overrides: Partial<Request> = {}
@@ -199,9 +203,10 @@ export const assertApiResponse = {
 
   error: (response: any, expectedError?: string) => {
     expect(response).toHaveProperty("success", false);
-    expect(response).toHaveProperty("error");
+    expect(response).toHaveProperty("error.code");
+    expect(response).toHaveProperty("error.details.timestamp");
     if (expectedError) {
-      expect(response.error).toContain(expectedError);
+      expect(response.error.message).toContain(expectedError);
     }
   },
 
@@ -233,3 +238,154 @@ export const setupTestDatabase = () => {
     },
   };
 };
+
+export const FIXTURE_PASSWORD = "correct horse battery staple";
+
+export interface Fixtures {
+  users: { admin: User; editor: User; user: User };
+  // `chair` is in the trash
+  products: { lamp: Product; desk: Product; mug: Product; chair: Product };
+}
+
+// Emptied before seeding, children before their parents
+const FIXTURE_TABLES = [
+  "rate_limit_suspensions",
+  "rate_limit_hits",
+  "refresh_tokens",
+  "user_credentials",
+  "action_tokens",
+  "score_updates",
+  "users",
+  "products",
+];
+
+let fixturePasswordHash: Promise<string> | undefined;
+
+const insertRow = async <T>(
+  table: string,
+  row: Record<string, unknown>
+): Promise<T> => {
+  const columns = Object.keys(row);
+  const { lastID } = await database.run(
+    `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns
+      .map(() => "?")
+      .join(", ")})`,
+    Object.values(row)
+  );
+  return (await database.get<T>(`SELECT * FROM ${table} WHERE id = ?`, [
+    lastID,
+  ])) as T;
+};
+
+// Replaces the data in the real `database` with a known set of users, who
+// all log in with FIXTURE_PASSWORD, and products. Ids restart at 1.
+export const seedFixtures = async (): Promise<Fixtures> => {
+  for (const table of FIXTURE_TABLES) {
+    await database.run(`DELETE FROM ${table}`);
+  }
+  await database.run("DELETE FROM sqlite_sequence");
+
+  fixturePasswordHash ??= hashPassword(FIXTURE_PASSWORD);
+  const passwordHash = await fixturePasswordHash;
+
+  const createUser = async (name: string, role: UserRole, age: number) => {
+    const user = await insertRow<User>("users", {
+      name,
+      email: `${name.toLowerCase()}@example.com`,
+      age,
+      role,
+    });
+    await database.run(
+      "INSERT INTO user_credentials (user_id, password_hash) VALUES (?, ?)",
+      [user.id, passwordHash]
+    );
+    return user;
+  };
+
+  const users = {
+    admin: await createUser("Ada", "admin", 36),
+    editor: await createUser("Eddie", "editor", 29),
+    user: await createUser("Uma", "user", 41),
+  };
+
+  const products = {
+    lamp: await insertRow<Product>("products", {
+      name: "Desk Lamp",
+      description: "LED lamp with a dimmer",
+      price: 24.99,
+      category: "Lighting",
+      stock_quantity: 15,
+    }),
+    desk: await insertRow<Product>("products", {
+      name: "Standing Desk",
+      description: "Height adjustable desk",
+      price: 399,
+      category: "Furniture",
+      stock_quantity: 3,
+    }),
+    mug: await insertRow<Product>("products", {
+      name: "Coffee Mug",
+      price: 8.5,
+      category: "Kitchen",
+      stock_quantity: 0,
+      is_active: 0,
+    }),
+    chair: await insertRow<Product>("products", {
+      name: "Office Chair",
+      price: 149,
+      category: "Furniture",
+      stock_quantity: 7,
+      deleted_at: "2024-01-01 00:00:00",
+    }),
+  };
+
+  return { users, products };
+};
+
+export const bearerFor = (user: User): string =>
+  `Bearer ${signAccessToken({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+  })}`;
+
+export interface TestApp {
+  app: express.Application;
+  fixtures: Fixtures;
+}
+
+// Boots the app for an integration suite: connects the real `database`,
+// which tests/integration/setup.ts points at ":memory:", runs the migrations
+// and reseeds the fixtures before every test. The app and repositories
+// always use the `database` singleton; each suite still gets its own
+// database because Jest loads modules afresh for every test file.
+export const useTestApp = (): TestApp => {
+  const harness = {} as TestApp;
+
+  beforeAll(async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      // Loaded here so unit suites using the other helpers skip the app
+      const { default: App } = await import("../../src/app");
+      const app = new App();
+      await app.initializeDatabase();
+      harness.app = app.app;
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    harness.fixtures = await seedFixtures();
+  });
+
+  afterAll(async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    await database.close();
+    log.mockRestore();
+  });
+
+  return harness;
+};
@@ -0,0 +1,225 @@
+import http from "http";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import WebSocket from "ws";
+import {
+  ScoreboardSocketServer,
+  SCOREBOARD_SOCKET_PATH,
+  diffLeaderboards,
+} from "../../src/websocket/scoreboardSocket";
+import { scoreRepository } from "../../src/repositories";
+import { scoreEvents } from "../../src/events/scoreEvents";
+import { LeaderboardEntry } from "../../src/types";
+
+// Mock the repositories
+jest.mock("../../src/repositories", () => ({
+  scoreRepository: {
+    getTopScores: jest.fn(),
+  },
+}));
+
+const mockScoreRepository = scoreRepository as jest.Mocked<
+  typeof scoreRepository
+>;
+
+const entry = (
+  rank: number,
+  userId: number,
+  score: number
+): LeaderboardEntry => ({
+  rank,
+  userId,
+  username: `player${userId}`,
+  score,
+  lastUpdated: "2024-01-15 10:30:00",
+});
+
+describe("diffLeaderboards", () => {
+  it("should report no changes for identical rankings", () => {
+    const ranking = [entry(1, 1, 300), entry(2, 2, 200)];
+
+    expect(diffLeaderboards(ranking, [...ranking])).toEqual([]);
+  });
+
+  it("should report ranks whose holder or score changed", () => {
+    const previous = [entry(1, 1, 300), entry(2, 2, 200), entry(3, 3, 100)];
+    const next = [entry(1, 1, 300), entry(2, 3, 250), entry(3, 2, 200)];
+
+    expect(diffLeaderboards(previous, next)).toEqual([2, 3]);
+  });
+
+  it("should report ranks that appear or disappear", () => {
+    expect(diffLeaderboards([entry(1, 1, 300)], [entry(1, 1, 350)])).toEqual([
+      1,
+    ]);
+    expect(diffLeaderboards([], [entry(1, 1, 50)])).toEqual([1]);
+  });
+});
+
+describe("ScoreboardSocketServer", () => {
+  const JWT_SECRET = "test-jwt-secret";
+  let server: http.Server;
+  let socketServer: ScoreboardSocketServer;
+  let url: string;
+  let clients: WebSocket[];
+
+  const signToken = (userId: number) =>
+    jwt.sign({}, JWT_SECRET, { subject: String(userId), expiresIn: "15m" });
+
+  // Buffers every message from the moment the socket is created so none are
+  // missed between awaits.
+  const connect = async () => {
+    const socket = new WebSocket(url);
+    const messages: any[] = [];
+    const waiters: Array<() => void> = [];
+    socket.on("message", (data) => {
+      messages.push(JSON.parse(data.toString()));
+      waiters.splice(0).forEach((wake) => wake());
+    });
+    clients.push(socket);
+    await new Promise((resolve) => socket.once("open", resolve));
+
+    const next = async (type: string) => {
+      for (;;) {
+        const index = messages.findIndex((m) => m.type === type);
+        if (index !== -1) {
+          return messages.splice(index, 1)[0];
+        }
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+    };
+
+    return { socket, messages, next };
+  };
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = JWT_SECRET;
+    clients = [];
+    mockScoreRepository.getTopScores.mockResolvedValue([
+      entry(1, 1, 300),
+      entry(2, 2, 200),
+    ]);
+
+    server = http.createServer();
+    socketServer = new ScoreboardSocketServer({ heartbeatIntervalMs: 50 });
+    await socketServer.attach(server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    const { port } = server.address() as AddressInfo;
+    url = `ws://localhost:${port}${SCOREBOARD_SOCKET_PATH}`;
+  });
+
+  afterEach(async () => {
+    clients.forEach((socket) => socket.terminate());
+    await socketServer.close();
+    await new Promise((resolve) => server.close(resolve));
+    delete process.env.JWT_SECRET;
+  });
+
+  it("should send the current leaderboard after a successful subscribe", async () => {
+    const client = await connect();
+
+    client.socket.send(
+      JSON.stringify({ type: "subscribe_leaderboard", token: signToken(1) })
+    );
+
+    const message = await client.next("leaderboard_update");
+    expect(message.data).toEqual({
+      leaderboard: [entry(1, 1, 300), entry(2, 2, 200)],
+      changedRanks: [],
+    });
+  });
+
+  it("should reject subscriptions with an invalid token and close the socket", async () => {
+    const client = await connect();
+    const closed = new Promise<number>((resolve) =>
+      client.socket.once("close", resolve)
+    );
+
+    client.socket.send(
+      JSON.stringify({ type: "subscribe_leaderboard", token: "invalid" })
+    );
+
+    const message = await client.next("error");
+    expect(message.error.code).toBe("UNAUTHORIZED");
+    expect(await closed).toBe(1008);
+  });
+
+  it("should reject unknown message types", async () => {
+    const client = await connect();
+
+    client.socket.send(JSON.stringify({ type: "unknown" }));
+
+    const message = await client.next("error");
+    expect(message.error.code).toBe("INVALID_MESSAGE");
+  });
+
+  it("should broadcast changed ranks when a score write changes the top 10", async () => {
+    const owner = await connect();
+    const observer = await connect();
+    owner.socket.send(
+      JSON.stringify({ type: "subscribe_leaderboard", token: signToken(2) })
+    );
+    observer.socket.send(
+      JSON.stringify({ type: "subscribe_leaderboard", token: signToken(3) })
+    );
+    await owner.next("leaderboard_update");
+    await observer.next("leaderboard_update");
+
+    mockScoreRepository.getTopScores.mockResolvedValue([
+      entry(1, 2, 350),
+      entry(2, 1, 300),
+    ]);
+    const event = {
+      userId: 2,
+      newScore: 350,
+      oldRank: 2,
+      newRank: 1,
+      scoreIncrease: 150,
+    };
+    scoreEvents.emitScoreUpdated(event);
+
+    const update = await observer.next("leaderboard_update");
+    expect(update.data.changedRanks).toEqual([1, 2]);
+    expect(update.data.leaderboard[0]).toEqual(entry(1, 2, 350));
+    expect((await observer.next("score_update")).data).toEqual(event);
+    expect((await owner.next("score_update")).data).toEqual(event);
+  });
+
+  it("should only notify the scoring user when the top 10 is unchanged", async () => {
+    const owner = await connect();
+    const observer = await connect();
+    owner.socket.send(
+      JSON.stringify({ type: "subscribe_leaderboard", token: signToken(7) })
+    );
+    observer.socket.send(
+      JSON.stringify({ type: "subscribe_leaderboard", token: signToken(3) })
+    );
+    await owner.next("leaderboard_update");
+    await observer.next("leaderboard_update");
+
+    scoreEvents.emitScoreUpdated({
+      userId: 7,
+      newScore: 10,
+      oldRank: 40,
+      newRank: 38,
+      scoreIncrease: 5,
+    });
+
+    expect((await owner.next("score_update")).data.userId).toBe(7);
+    await observer.next("heartbeat");
+    expect(
+      observer.messages.filter((m) => m.type !== "heartbeat")
+    ).toHaveLength(0);
+  });
+
+  it("should send heartbeats to subscribed clients", async () => {
+    const client = await connect();
+    client.socket.send(
+      JSON.stringify({ type: "subscribe_leaderboard", token: signToken(1) })
+    );
+
+    const heartbeat = await client.next("heartbeat");
+    expect(heartbeat.data.timestamp).toEqual(expect.any(String));
+  });
+});